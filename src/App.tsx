@@ -4,6 +4,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import History from "./pages/History";
+import Verification from "./pages/Verification";
+import Review from "./pages/Review";
+import SignIn from "./pages/SignIn";
+import MyChecks from "./pages/MyChecks";
+import Batch from "./pages/Batch";
+import SourceDomains from "./pages/SourceDomains";
+import Narratives from "./pages/Narratives";
+import Statistics from "./pages/Statistics";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +25,15 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/historico" element={<History />} />
+          <Route path="/verificacao/:id" element={<Verification />} />
+          <Route path="/revisao" element={<Review />} />
+          <Route path="/entrar" element={<SignIn />} />
+          <Route path="/minhas-verificacoes" element={<MyChecks />} />
+          <Route path="/lote" element={<Batch />} />
+          <Route path="/fontes" element={<SourceDomains />} />
+          <Route path="/narrativas" element={<Narratives />} />
+          <Route path="/estatisticas" element={<Statistics />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
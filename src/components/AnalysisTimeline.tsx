@@ -0,0 +1,99 @@
+import type { ReactNode } from 'react';
+import { CheckCircle2, Circle, Loader2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import StatusIcon from '@/components/StatusIcon';
+import { getConfidenceColor, getStatusText } from '@/lib/verdict';
+import type { ProgressState } from '@/lib/progress';
+
+type StepState = 'waiting' | 'active' | 'done';
+
+interface StepProps {
+  state: StepState;
+  title: string;
+  children?: ReactNode;
+}
+
+const StepIcon = ({ state }: { state: StepState }) => {
+  switch (state) {
+    case 'done':
+      return <CheckCircle2 className="w-5 h-5 text-green-600" />;
+    case 'active':
+      return <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />;
+    default:
+      return <Circle className="w-5 h-5 text-gray-300" />;
+  }
+};
+
+const Step = ({ state, title, children }: StepProps) => (
+  <li className="flex gap-3">
+    <div className="pt-0.5">
+      <StepIcon state={state} />
+    </div>
+    <div className="min-w-0 flex-1">
+      <p className={`font-medium ${state === 'waiting' ? 'text-gray-400' : 'text-gray-800'}`}>{title}</p>
+      {children}
+    </div>
+  </li>
+);
+
+interface AnalysisTimelineProps {
+  progress: ProgressState;
+}
+
+// Step-by-step view of a verification in progress, fed by streamed events
+const AnalysisTimeline = ({ progress }: AnalysisTimelineProps) => {
+  const { claimsExtracted, claims, verdict } = progress;
+  const allVerified = claimsExtracted && claims.every((claim) => claim.phase === 'verified');
+
+  return (
+    <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
+      <CardContent className="p-6">
+        <ol className="space-y-4">
+          <Step
+            state={claimsExtracted ? 'done' : 'active'}
+            title={claimsExtracted
+              ? `${claims.length} ${claims.length === 1 ? 'afirmação identificada' : 'afirmações identificadas'}`
+              : 'Identificando as afirmações do texto...'}
+          />
+
+          {claims.map((claim, index) => (
+            <Step
+              key={index}
+              state={claim.phase === 'verified' ? 'done' : claim.phase === 'searching' ? 'active' : 'waiting'}
+              title={claim.phase === 'verified' ? `Afirmação ${index + 1} verificada` : `Buscando fontes para a afirmação ${index + 1}...`}
+            >
+              <p className="text-sm text-gray-500 italic truncate">"{claim.claim}"</p>
+              {claim.sourcesFound !== undefined && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {claim.sourcesFound === 0
+                    ? 'Nenhuma fonte encontrada na busca'
+                    : `${claim.sourcesFound} ${claim.sourcesFound === 1 ? 'fonte encontrada' : 'fontes encontradas'} na busca`}
+                </p>
+              )}
+              {claim.phase === 'verified' && claim.status && (
+                <div className="flex items-center gap-2 mt-1">
+                  <StatusIcon status={claim.status} className="w-4 h-4" />
+                  <span className="text-sm text-gray-700">{getStatusText(claim.status)}</span>
+                  {claim.confidence !== undefined && (
+                    <Badge className={getConfidenceColor(claim.confidence)}>{claim.confidence}%</Badge>
+                  )}
+                </div>
+              )}
+              {claim.justification && (
+                <p className="text-sm text-gray-600 mt-1 leading-relaxed">{claim.justification}</p>
+              )}
+            </Step>
+          ))}
+
+          <Step
+            state={verdict ? 'done' : allVerified ? 'active' : 'waiting'}
+            title={verdict ? 'Veredito redigido' : 'Redigindo o veredito'}
+          />
+        </ol>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AnalysisTimeline;
@@ -0,0 +1,42 @@
+import { ExternalLink, Newspaper } from 'lucide-react';
+import { format, isValid } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import type { ArticleMetadata } from '@/services/fakeNewsDetector';
+
+interface ArticleCardProps {
+  article: ArticleMetadata;
+}
+
+const ArticleCard = ({ article }: ArticleCardProps) => {
+  const publishedAt = article.publishedAt ? new Date(article.publishedAt) : null;
+  const details = [
+    article.siteName,
+    article.byline && `por ${article.byline}`,
+    publishedAt && isValid(publishedAt) && format(publishedAt, "d 'de' MMMM 'de' yyyy", { locale: ptBR }),
+  ].filter(Boolean);
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-200 bg-white p-4">
+      <div className="flex items-start">
+        <Newspaper className="w-5 h-5 text-gray-500 mr-2 mt-1 shrink-0" />
+        <div className="min-w-0">
+          <p className="font-semibold text-gray-900">{article.title || 'Artigo sem título'}</p>
+          {details.length > 0 && (
+            <p className="text-sm text-gray-500">{details.join(' · ')}</p>
+          )}
+          <a
+            href={article.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-blue-600 hover:text-blue-800 hover:underline inline-flex items-center break-all"
+          >
+            {article.url}
+            <ExternalLink className="w-3 h-3 ml-1 shrink-0" />
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArticleCard;
@@ -0,0 +1,38 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import StatusIcon from '@/components/StatusIcon';
+import SourceList from '@/components/SourceList';
+import { getConfidenceColor, getStatusColor, getStatusText } from '@/lib/verdict';
+import type { ClaimResult } from '@/services/fakeNewsDetector';
+
+interface ClaimCardProps {
+  claim: ClaimResult;
+  index: number;
+}
+
+const ClaimCard = ({ claim, index }: ClaimCardProps) => (
+  <Card className={`shadow-md border-2 ${getStatusColor(claim.status)}`}>
+    <CardContent className="p-6">
+      <p className="text-sm font-medium text-gray-500 mb-1">Afirmação {index + 1}</p>
+      <blockquote className="text-lg text-gray-900 italic border-l-4 border-gray-300 pl-3 mb-4">
+        "{claim.claim}"
+      </blockquote>
+
+      <div className="flex items-center mb-4">
+        <StatusIcon status={claim.status} className="w-5 h-5" />
+        <h3 className="text-xl font-bold ml-2 text-gray-900">
+          {getStatusText(claim.status)}
+        </h3>
+        <Badge className={`ml-auto py-1 px-3 ${getConfidenceColor(claim.confidence)}`}>
+          {claim.confidence}% confiança
+        </Badge>
+      </div>
+
+      <p className="text-gray-700 leading-relaxed text-base mb-4">{claim.justification}</p>
+
+      {claim.sources.length > 0 && <SourceList sources={claim.sources} />}
+    </CardContent>
+  </Card>
+);
+
+export default ClaimCard;
@@ -0,0 +1,65 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Badge } from '@/components/ui/badge';
+import StatusIcon from '@/components/StatusIcon';
+import SourceList from '@/components/SourceList';
+import ClaimCard from '@/components/ClaimCard';
+import ArticleCard from '@/components/ArticleCard';
+import ReviewedBadge from '@/components/ReviewedBadge';
+import { getConfidenceColor, getStatusText } from '@/lib/verdict';
+import type { StoredFactCheck } from '@/services/factChecks';
+
+interface FactCheckDetailProps {
+  check: StoredFactCheck;
+}
+
+// Read-only rendering of a stored verification
+const FactCheckDetail = ({ check }: FactCheckDetailProps) => {
+  const { result } = check;
+  const hasMultipleClaims = Boolean(result.claims && result.claims.length > 1);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <StatusIcon status={result.status} />
+        <h2 className="text-2xl font-bold text-gray-900">{getStatusText(result.status)}</h2>
+        {result.reviewed && <ReviewedBadge action={result.reviewAction} />}
+        <Badge className={`ml-auto text-lg py-1 px-3 ${getConfidenceColor(result.confidence)}`}>
+          {result.confidence}% confiança
+        </Badge>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 mb-1">Texto verificado</h3>
+        <blockquote className="text-gray-900 italic border-l-4 border-gray-300 pl-3">
+          "{check.inputText}"
+        </blockquote>
+        <p className="text-sm text-gray-500 mt-2">
+          Verificado em {format(new Date(check.verifiedAt), "d 'de' MMMM 'de' yyyy 'às' HH:mm", { locale: ptBR })}
+        </p>
+      </div>
+
+      {result.article && <ArticleCard article={result.article} />}
+
+      <div>
+        <h3 className="text-lg font-semibold mb-2 text-gray-800">{result.reviewed ? 'Análise do checador:' : 'Análise da IA:'}</h3>
+        <p className="text-gray-700 leading-relaxed text-base">{result.justification}</p>
+      </div>
+
+      {hasMultipleClaims ? (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-gray-800">
+            Afirmações analisadas ({result.claims.length}):
+          </h3>
+          {result.claims.map((claim, index) => (
+            <ClaimCard key={index} claim={claim} index={index} />
+          ))}
+        </div>
+      ) : (
+        result.sources && result.sources.length > 0 && <SourceList sources={result.sources} />
+      )}
+    </div>
+  );
+};
+
+export default FactCheckDetail;
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Mail, MailCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+
+interface MagicLinkFormProps {
+  // Path the link in the email leads back to
+  redirectPath?: string;
+}
+
+// Passwordless sign-in: Supabase Auth emails a one-time link
+const MagicLinkForm = ({ redirectPath = '/minhas-verificacoes' }: MagicLinkFormProps) => {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoading(true);
+
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: `${window.location.origin}${redirectPath}` },
+    });
+
+    if (error) {
+      console.error('Erro ao enviar link de acesso:', error);
+      toast({
+        title: "Não foi possível enviar o link",
+        description: error.status === 429
+          ? "Muitas tentativas. Aguarde alguns minutos e tente novamente."
+          : "Confira o email informado e tente novamente.",
+        variant: "destructive",
+      });
+    } else {
+      setSentTo(email.trim());
+    }
+
+    setIsLoading(false);
+  };
+
+  if (sentTo) {
+    return (
+      <div className="text-center space-y-3">
+        <MailCheck className="w-10 h-10 text-green-600 mx-auto" />
+        <p className="text-gray-700">
+          Enviamos um link de acesso para <strong>{sentTo}</strong>. Abra o email neste dispositivo para entrar.
+        </p>
+        <Button variant="ghost" size="sm" onClick={() => setSentTo(null)}>
+          Usar outro email
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="magic-link-email">Email</Label>
+        <Input
+          id="magic-link-email"
+          type="email"
+          autoComplete="email"
+          placeholder="voce@exemplo.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        <Mail className="w-4 h-4 mr-2" />
+        {isLoading ? 'Enviando...' : 'Receber link de acesso'}
+      </Button>
+    </form>
+  );
+};
+
+export default MagicLinkForm;
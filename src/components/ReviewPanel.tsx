@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Check, Link as LinkIcon, Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import FactCheckDetail from '@/components/FactCheckDetail';
+import { useToast } from '@/hooks/use-toast';
+import { getStatusText } from '@/lib/verdict';
+import { saveOverride, type OverrideInput, type ReviewDetail } from '@/services/reviews';
+import type { Source, VerdictStatus } from '@/services/fakeNewsDetector';
+
+interface ReviewPanelProps {
+  detail: ReviewDetail;
+  onSaved: () => void;
+}
+
+const EMPTY_SOURCE: Source = { title: '', url: '', summary: '' };
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Side-by-side model output and editorial form. The reviewer either confirms
+// the model verdict as-is or saves a corrected one; both are stored as an
+// override so the model output itself is never modified.
+const ReviewPanel = ({ detail, onSaved }: ReviewPanelProps) => {
+  const { check, override, counterSources } = detail;
+  const initial = override ?? check.result;
+
+  const [status, setStatus] = useState<VerdictStatus>(initial.status);
+  const [confidence, setConfidence] = useState(String(initial.confidence));
+  const [justification, setJustification] = useState(initial.justification);
+  const [sources, setSources] = useState<Source[]>(initial.sources ?? []);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const mutation = useMutation({
+    mutationFn: saveOverride,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['review-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['fact-check', check.id] });
+      queryClient.invalidateQueries({ queryKey: ['review-detail', check.id] });
+      toast({
+        title: "Revisão salva",
+        description: "O novo veredito já é exibido para quem verificar este texto.",
+      });
+      onSaved();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSource = (index: number, changes: Partial<Source>) => {
+    setSources((current) => current.map((source, i) => (i === index ? { ...source, ...changes } : source)));
+  };
+
+  const handleConfirm = () => {
+    mutation.mutate({
+      factCheckId: check.id,
+      action: 'confirmed',
+      status: check.result.status,
+      confidence: check.result.confidence,
+      justification: check.result.justification,
+      sources: check.result.sources ?? [],
+    });
+  };
+
+  const handleOverride = () => {
+    const parsedConfidence = Number(confidence);
+    const cleanSources = sources
+      .map((source) => ({ title: source.title.trim(), url: source.url.trim(), summary: source.summary.trim() }))
+      .filter((source) => source.url || source.title);
+
+    const problem = !Number.isInteger(parsedConfidence) || parsedConfidence < 0 || parsedConfidence > 100
+      ? 'A confiança deve ser um número inteiro entre 0 e 100.'
+      : justification.trim().length < 10
+        ? 'Escreva uma justificativa com pelo menos 10 caracteres.'
+        : cleanSources.some((source) => !isHttpUrl(source.url) || !source.title)
+          ? 'Cada fonte precisa de título e de um link http(s) válido.'
+          : null;
+
+    if (problem) {
+      toast({ title: "Revisão incompleta", description: problem, variant: "destructive" });
+      return;
+    }
+
+    const input: OverrideInput = {
+      factCheckId: check.id,
+      action: 'overridden',
+      status,
+      confidence: parsedConfidence,
+      justification: justification.trim(),
+      sources: cleanSources,
+    };
+    mutation.mutate(input);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 mb-3">Resultado do modelo</h3>
+        <FactCheckDetail check={check} />
+      </div>
+
+      {counterSources.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-2">
+            Fontes contrárias enviadas por leitores ({counterSources.length})
+          </h3>
+          <ul className="space-y-1">
+            {counterSources.map((source, index) => (
+              <li key={index} className="flex items-center gap-2 text-sm">
+                <LinkIcon className="w-3 h-3 text-gray-400 shrink-0" />
+                <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+                  {source.url}
+                </a>
+                <span className="text-gray-400 shrink-0">
+                  {format(new Date(source.createdAt), 'dd/MM/yyyy', { locale: ptBR })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Separator />
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold text-gray-800">Revisão editorial</h3>
+          {override && (
+            <span className="text-sm text-gray-500">
+              Última revisão em {format(new Date(override.updatedAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+            </span>
+          )}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label>Veredito</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as VerdictStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(['real', 'fake', 'uncertain'] as VerdictStatus[]).map((option) => (
+                  <SelectItem key={option} value={option}>{getStatusText(option)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="review-confidence">Confiança (%)</Label>
+            <Input
+              id="review-confidence"
+              type="number"
+              min={0}
+              max={100}
+              value={confidence}
+              onChange={(e) => setConfidence(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="review-justification">Justificativa</Label>
+          <Textarea
+            id="review-justification"
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            className="min-h-[120px]"
+            maxLength={1000}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Fontes</Label>
+          {sources.map((source, index) => (
+            <div key={index} className="rounded-lg border border-gray-200 p-3 space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Título"
+                  value={source.title}
+                  onChange={(e) => updateSource(index, { title: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setSources((current) => current.filter((_, i) => i !== index))}
+                  aria-label="Remover fonte"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <Input
+                placeholder="https://..."
+                value={source.url}
+                onChange={(e) => updateSource(index, { url: e.target.value })}
+              />
+              <Input
+                placeholder="Resumo"
+                value={source.summary}
+                onChange={(e) => updateSource(index, { summary: e.target.value })}
+              />
+            </div>
+          ))}
+          {sources.length < 5 && (
+            <Button variant="outline" size="sm" onClick={() => setSources((current) => [...current, EMPTY_SOURCE])}>
+              <Plus className="w-4 h-4 mr-1" />
+              Adicionar fonte
+            </Button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" onClick={handleConfirm} disabled={mutation.isPending}>
+            <Check className="w-4 h-4 mr-1" />
+            Confirmar resultado do modelo
+          </Button>
+          <Button onClick={handleOverride} disabled={mutation.isPending}>
+            <Save className="w-4 h-4 mr-1" />
+            Salvar correção
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,18 @@
+import { UserCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { ReviewAction } from '@/services/fakeNewsDetector';
+
+interface ReviewedBadgeProps {
+  action?: ReviewAction;
+  className?: string;
+}
+
+const ReviewedBadge = ({ action, className }: ReviewedBadgeProps) => (
+  <Badge variant="outline" className={cn('border-blue-300 bg-blue-50 text-blue-700', className)}>
+    <UserCheck className="w-3 h-3 mr-1" />
+    {action === 'overridden' ? 'Corrigido por checador' : 'Revisado por checador'}
+  </Badge>
+);
+
+export default ReviewedBadge;
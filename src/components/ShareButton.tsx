@@ -0,0 +1,67 @@
+import { Copy, MessageCircle, Share2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { buildShareText, getShareUrl, getWhatsAppShareUrl } from '@/lib/share';
+import type { VerdictStatus } from '@/services/fakeNewsDetector';
+
+interface ShareButtonProps {
+  id: string;
+  status: VerdictStatus;
+  confidence: number;
+  text: string;
+}
+
+const ShareButton = ({ id, status, confidence, text }: ShareButtonProps) => {
+  const { toast } = useToast();
+  const url = getShareUrl(id);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copiado",
+        description: "Cole o link na conversa para compartilhar esta verificação.",
+      });
+    } catch (error) {
+      console.error('Erro ao copiar link:', error);
+      toast({
+        title: "Não foi possível copiar",
+        description: url,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleWhatsApp = () => {
+    window.open(getWhatsAppShareUrl(buildShareText(status, confidence, text, url)), '_blank', 'noopener,noreferrer');
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Share2 className="w-4 h-4 mr-1" />
+          Compartilhar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={handleCopy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copiar link
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={handleWhatsApp}>
+          <MessageCircle className="w-4 h-4 mr-2" />
+          Enviar no WhatsApp
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ShareButton;
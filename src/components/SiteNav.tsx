@@ -0,0 +1,62 @@
+import { NavLink } from 'react-router-dom';
+import { LogOut, Shield } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+
+const links = [
+  { to: '/', label: 'Verificar' },
+  { to: '/historico', label: 'Histórico' },
+  { to: '/narrativas', label: 'Narrativas' },
+  { to: '/estatisticas', label: 'Estatísticas' },
+];
+
+const linkClassName = ({ isActive }: { isActive: boolean }) => cn(
+  'px-3 py-2 rounded-md text-sm font-medium transition-colors',
+  isActive ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+);
+
+const SiteNav = () => {
+  const { session } = useAuth();
+
+  return (
+    <nav className="flex items-center justify-between mb-8">
+      <NavLink to="/" className="flex items-center text-gray-900 font-semibold">
+        <Shield className="w-5 h-5 text-blue-600 mr-2" />
+        Detector de Fake News
+      </NavLink>
+      <div className="flex items-center gap-1">
+        {links.map((link) => (
+          <NavLink
+            key={link.to}
+            to={link.to}
+            end={link.to === '/'}
+            className={linkClassName}
+          >
+            {link.label}
+          </NavLink>
+        ))}
+        {session ? (
+          <>
+            <NavLink to="/minhas-verificacoes" className={linkClassName}>
+              Minhas verificações
+            </NavLink>
+            <NavLink to="/lote" className={linkClassName}>
+              Lote
+            </NavLink>
+            <Button variant="ghost" size="icon" onClick={() => supabase.auth.signOut()} aria-label="Sair">
+              <LogOut className="w-4 h-4" />
+            </Button>
+          </>
+        ) : (
+          <NavLink to="/entrar" className={linkClassName}>
+            Entrar
+          </NavLink>
+        )}
+      </div>
+    </nav>
+  );
+};
+
+export default SiteNav;
@@ -0,0 +1,92 @@
+import { AlertTriangle, ShieldCheck } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { Source } from '@/services/fakeNewsDetector';
+import { CREDIBILITY_TIER_LABELS, getTierColor, SOURCE_TYPE_LABELS } from '@/services/sourceDomains';
+
+interface SourceListProps {
+  sources: Source[];
+}
+
+const describeCheckFailure = (source: Source) => {
+  switch (source.checkFailure) {
+    case 'invalid_url':
+      return 'Endereço inválido';
+    case 'blocked_domain':
+      return 'Domínio não aceito como fonte';
+    case 'unreachable':
+      return 'Página inacessível';
+    case 'http_error':
+      return source.httpStatus ? `A página retornou erro ${source.httpStatus}` : 'A página retornou erro';
+    case 'content_mismatch':
+      return 'O conteúdo da página não corresponde à descrição';
+    default:
+      return 'Não foi possível confirmar este link';
+  }
+};
+
+// Links that failed the server-side check stay listed but de-emphasized;
+// registered domains show their type and credibility tier
+const SourceList = ({ sources }: SourceListProps) => (
+  <div>
+    <h3 className="text-lg font-semibold mb-4 text-gray-800">
+      Fontes de Verificação ({sources.length}):
+    </h3>
+    <div className="space-y-3">
+      {sources.map((source, index) => {
+        const unverified = source.verified === false;
+
+        return (
+          <Card
+            key={index}
+            className={unverified
+              ? 'border border-dashed border-gray-200 bg-gray-50 opacity-70'
+              : 'border border-gray-200 hover:border-gray-300 transition-colors'}
+          >
+            <CardContent className="p-4">
+              <a
+                href={source.url}
+                target="_blank"
+                rel={unverified ? 'noopener noreferrer nofollow' : 'noopener noreferrer'}
+                className={unverified
+                  ? 'text-gray-500 font-medium text-base mb-2 block hover:underline'
+                  : 'text-blue-600 hover:text-blue-800 font-medium text-lg mb-2 block hover:underline'}
+              >
+                {source.title}
+              </a>
+              {(source.sourceType || source.tier) && (
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {source.sourceType && (
+                    <Badge variant="outline" className="text-xs font-normal">
+                      {SOURCE_TYPE_LABELS[source.sourceType]}
+                    </Badge>
+                  )}
+                  {source.tier && (
+                    <Badge className={`text-xs font-normal ${getTierColor(source.tier)}`}>
+                      {CREDIBILITY_TIER_LABELS[source.tier]}
+                    </Badge>
+                  )}
+                </div>
+              )}
+              <p className={unverified ? 'text-sm text-gray-500 leading-relaxed' : 'text-gray-600 leading-relaxed'}>{source.summary}</p>
+              {unverified && (
+                <p className="mt-2 flex items-center text-xs text-amber-700">
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  Link não verificado: {describeCheckFailure(source)}
+                </p>
+              )}
+              {source.verified === true && (
+                <p className="mt-2 flex items-center text-xs text-green-700">
+                  <ShieldCheck className="w-3 h-3 mr-1" />
+                  Link verificado
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default SourceList;
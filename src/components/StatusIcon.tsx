@@ -0,0 +1,22 @@
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StatusIconProps {
+  status: string;
+  className?: string;
+}
+
+const StatusIcon = ({ status, className }: StatusIconProps) => {
+  switch (status) {
+    case 'real':
+      return <CheckCircle className={cn('w-6 h-6 text-green-600', className)} />;
+    case 'fake':
+      return <XCircle className={cn('w-6 h-6 text-red-600', className)} />;
+    case 'uncertain':
+      return <AlertTriangle className={cn('w-6 h-6 text-yellow-600', className)} />;
+    default:
+      return null;
+  }
+};
+
+export default StatusIcon;
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Send, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { getFeedbackSummary, submitFeedback, type FeedbackVote } from '@/services/feedback';
+
+interface VerdictFeedbackProps {
+  factCheckId: string;
+}
+
+// Thumbs up/down on a verdict; a thumbs down can carry a link that
+// contradicts it. Heavily disputed checks are flagged for human review.
+const VerdictFeedback = ({ factCheckId }: VerdictFeedbackProps) => {
+  const [vote, setVote] = useState<FeedbackVote | null>(null);
+  const [counterSourceUrl, setCounterSourceUrl] = useState('');
+  const [submitted, setSubmitted] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: summary } = useQuery({
+    queryKey: ['feedback-summary', factCheckId],
+    queryFn: () => getFeedbackSummary(factCheckId),
+  });
+
+  const mutation = useMutation({
+    mutationFn: submitFeedback,
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['feedback-summary', factCheckId], updated);
+      setSubmitted(true);
+      toast({
+        title: "Obrigado pela avaliação",
+        description: "Sua opinião ajuda a melhorar as verificações.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const send = (selected: FeedbackVote, url?: string) => {
+    mutation.mutate({ factCheckId, vote: selected, counterSourceUrl: url });
+  };
+
+  const handleVote = (selected: FeedbackVote) => {
+    setVote(selected);
+    setSubmitted(false);
+    // Thumbs up is sent right away; thumbs down waits for an optional source
+    if (selected === 'up') {
+      send('up');
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-lg border border-gray-200 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700 mr-auto">Esta verificação está correta?</span>
+        <Button
+          variant={vote === 'up' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => handleVote('up')}
+          disabled={mutation.isPending}
+        >
+          <ThumbsUp className="w-4 h-4 mr-1" />
+          Sim
+        </Button>
+        <Button
+          variant={vote === 'down' ? 'destructive' : 'outline'}
+          size="sm"
+          onClick={() => handleVote('down')}
+          disabled={mutation.isPending}
+        >
+          <ThumbsDown className="w-4 h-4 mr-1" />
+          Não
+        </Button>
+      </div>
+
+      {vote === 'down' && !submitted && (
+        <form
+          className="mt-3 flex flex-col gap-2 sm:flex-row"
+          onSubmit={(event) => {
+            event.preventDefault();
+            send('down', counterSourceUrl);
+          }}
+        >
+          <Input
+            type="url"
+            placeholder="Link de uma fonte que contradiz o resultado (opcional)"
+            value={counterSourceUrl}
+            onChange={(e) => setCounterSourceUrl(e.target.value)}
+            maxLength={2048}
+          />
+          <Button type="submit" size="sm" disabled={mutation.isPending}>
+            <Send className="w-4 h-4 mr-1" />
+            Enviar
+          </Button>
+        </form>
+      )}
+
+      {summary && summary.totalVotes > 0 && (
+        <p className="mt-2 text-xs text-gray-500">
+          {summary.upvotes} concordam · {summary.downvotes} contestam
+          {summary.counterSources > 0 && ` · ${summary.counterSources} fontes contrárias enviadas`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VerdictFeedback;
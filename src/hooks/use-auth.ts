@@ -0,0 +1,25 @@
+import * as React from "react"
+import type { Session } from "@supabase/supabase-js"
+import { supabase } from "@/integrations/supabase/client"
+
+// Current Supabase Auth session, kept in sync with sign-in/sign-out events
+export function useAuth() {
+  const [session, setSession] = React.useState<Session | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession)
+      setIsLoading(false)
+    })
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setIsLoading(false)
+    })
+
+    return () => subscription.unsubscribe()
+  }, [])
+
+  return { session, user: session?.user ?? null, isLoading }
+}
@@ -0,0 +1,27 @@
+import * as React from "react"
+
+// Seconds remaining until a deadline, ticking once per second
+export function useCountdown() {
+  const [deadline, setDeadline] = React.useState<number | null>(null)
+  const [secondsLeft, setSecondsLeft] = React.useState(0)
+
+  React.useEffect(() => {
+    if (deadline === null) return
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((deadline - Date.now()) / 1000))
+      setSecondsLeft(remaining)
+      if (remaining === 0) setDeadline(null)
+    }
+
+    tick()
+    const interval = window.setInterval(tick, 1000)
+    return () => window.clearInterval(interval)
+  }, [deadline])
+
+  const start = React.useCallback((seconds: number) => {
+    setDeadline(Date.now() + seconds * 1000)
+  }, [])
+
+  return { secondsLeft, start }
+}
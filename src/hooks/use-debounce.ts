@@ -0,0 +1,12 @@
+import * as React from "react"
+
+export function useDebounce<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = React.useState(value)
+
+  React.useEffect(() => {
+    const timeout = window.setTimeout(() => setDebounced(value), delay)
+    return () => window.clearTimeout(timeout)
+  }, [value, delay])
+
+  return debounced
+}
@@ -0,0 +1,38 @@
+import * as React from "react"
+
+interface PageMeta {
+  title: string
+  description?: string
+}
+
+function setMetaTag(attribute: "name" | "property", key: string, content: string) {
+  let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`)
+  if (!element) {
+    element = document.createElement("meta")
+    element.setAttribute(attribute, key)
+    document.head.appendChild(element)
+  }
+  element.setAttribute("content", content)
+}
+
+// Keeps the document title and description/Open Graph tags in sync with the
+// current page, for crawlers that execute JavaScript. Callers memoize meta:
+// a new object on every render would rewrite the tags each time.
+export function usePageMeta(meta: PageMeta | null) {
+  React.useEffect(() => {
+    if (!meta) return
+
+    const previousTitle = document.title
+    document.title = meta.title
+    setMetaTag("property", "og:title", meta.title)
+    if (meta.description) {
+      setMetaTag("name", "description", meta.description)
+      setMetaTag("property", "og:description", meta.description)
+    }
+    setMetaTag("property", "og:url", window.location.href)
+
+    return () => {
+      document.title = previousTitle
+    }
+  }, [meta])
+}
@@ -9,51 +9,827 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      api_key_checks: {
+        Row: {
+          api_key_id: string
+          created_at: string
+          fact_check_id: string
+          id: string
+          last_submitted_at: string
+        }
+        Insert: {
+          api_key_id: string
+          created_at?: string
+          fact_check_id: string
+          id?: string
+          last_submitted_at?: string
+        }
+        Update: {
+          api_key_id?: string
+          created_at?: string
+          fact_check_id?: string
+          id?: string
+          last_submitted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_key_checks_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "api_key_checks_fact_check_id_fkey"
+            columns: ["fact_check_id"]
+            isOneToOne: false
+            referencedRelation: "fact_checks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_key_usage: {
+        Row: {
+          api_key_id: string
+          day: string
+          request_count: number
+        }
+        Insert: {
+          api_key_id: string
+          day: string
+          request_count?: number
+        }
+        Update: {
+          api_key_id?: string
+          day?: string
+          request_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_key_usage_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_keys: {
+        Row: {
+          created_at: string
+          daily_quota: number
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          daily_quota?: number
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          daily_quota?: number
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+        }
+        Relationships: []
+      }
+      check_jobs: {
+        Row: {
+          created_at: string
+          error: string | null
+          fact_check_id: string | null
+          finished_at: string | null
+          id: string
+          kind: string
+          result: Json | null
+          started_at: string | null
+          status: string
+          user_id: string | null
+          webhook_attempts: number
+          webhook_delivered_at: string | null
+          webhook_last_error: string | null
+          webhook_secret: string | null
+          webhook_url: string | null
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          fact_check_id?: string | null
+          finished_at?: string | null
+          id?: string
+          kind: string
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          user_id?: string | null
+          webhook_attempts?: number
+          webhook_delivered_at?: string | null
+          webhook_last_error?: string | null
+          webhook_secret?: string | null
+          webhook_url?: string | null
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          fact_check_id?: string | null
+          finished_at?: string | null
+          id?: string
+          kind?: string
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          user_id?: string | null
+          webhook_attempts?: number
+          webhook_delivered_at?: string | null
+          webhook_last_error?: string | null
+          webhook_secret?: string | null
+          webhook_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_jobs_fact_check_id_fkey"
+            columns: ["fact_check_id"]
+            isOneToOne: false
+            referencedRelation: "fact_checks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      check_submissions: {
+        Row: {
+          cached: boolean
+          fact_check_id: string
+          id: number
+          submitted_at: string
+        }
+        Insert: {
+          cached?: boolean
+          fact_check_id: string
+          id?: number
+          submitted_at?: string
+        }
+        Update: {
+          cached?: boolean
+          fact_check_id?: string
+          id?: number
+          submitted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_submissions_fact_check_id_fkey"
+            columns: ["fact_check_id"]
+            isOneToOne: false
+            referencedRelation: "fact_checks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      claim_reviews: {
+        Row: {
+          best_rating: number | null
+          claim_date: string | null
+          claim_normalized: string
+          claim_text: string
+          claimant: string | null
+          created_at: string
+          headline: string | null
+          id: string
+          language: string | null
+          publisher_name: string
+          publisher_url: string | null
+          rating_text: string | null
+          rating_value: number | null
+          raw: Json
+          review_date: string | null
+          review_url: string
+          status: string
+          updated_at: string
+          worst_rating: number | null
+        }
+        Insert: {
+          best_rating?: number | null
+          claim_date?: string | null
+          claim_normalized: string
+          claim_text: string
+          claimant?: string | null
+          created_at?: string
+          headline?: string | null
+          id?: string
+          language?: string | null
+          publisher_name: string
+          publisher_url?: string | null
+          rating_text?: string | null
+          rating_value?: number | null
+          raw: Json
+          review_date?: string | null
+          review_url: string
+          status: string
+          updated_at?: string
+          worst_rating?: number | null
+        }
+        Update: {
+          best_rating?: number | null
+          claim_date?: string | null
+          claim_normalized?: string
+          claim_text?: string
+          claimant?: string | null
+          created_at?: string
+          headline?: string | null
+          id?: string
+          language?: string | null
+          publisher_name?: string
+          publisher_url?: string | null
+          rating_text?: string | null
+          rating_value?: number | null
+          raw?: Json
+          review_date?: string | null
+          review_url?: string
+          status?: string
+          updated_at?: string
+          worst_rating?: number | null
+        }
+        Relationships: []
+      }
+      confidence_calibrations: {
+        Row: {
+          brier_calibrated: number
+          brier_raw: number
+          created_at: string
+          curves: Json
+          id: string
+          method: string
+          sample_count: number
+          sampling: string
+        }
+        Insert: {
+          brier_calibrated: number
+          brier_raw: number
+          created_at?: string
+          curves: Json
+          id?: string
+          method: string
+          sample_count: number
+          sampling: string
+        }
+        Update: {
+          brier_calibrated?: number
+          brier_raw?: number
+          created_at?: string
+          curves?: Json
+          id?: string
+          method?: string
+          sample_count?: number
+          sampling?: string
+        }
+        Relationships: []
+      }
       fact_checks: {
         Row: {
+          article: Json | null
+          cache_key_version: number
+          cache_scope: string | null
+          calibration_id: string | null
+          claims: Json | null
           confidence: number
           created_at: string
+          embedding: string | null
+          embedding_failed_at: string | null
+          embedding_model: string | null
+          expires_at: string | null
+          flag_reason: string | null
+          flagged_at: string | null
           id: string
           input_text: string
           justification: string
+          narrative_id: string | null
+          raw_confidence: number | null
           search_results: Json | null
           sources: Json | null
           status: string
           text_hash: string
+          topic: string | null
           updated_at: string
+          verified_at: string
         }
         Insert: {
+          article?: Json | null
+          cache_key_version?: number
+          cache_scope?: string | null
+          calibration_id?: string | null
+          claims?: Json | null
           confidence: number
           created_at?: string
+          embedding?: string | null
+          embedding_failed_at?: string | null
+          embedding_model?: string | null
+          expires_at?: string | null
+          flag_reason?: string | null
+          flagged_at?: string | null
           id?: string
           input_text: string
           justification: string
+          narrative_id?: string | null
+          raw_confidence?: number | null
           search_results?: Json | null
           sources?: Json | null
           status: string
           text_hash: string
+          topic?: string | null
           updated_at?: string
+          verified_at?: string
         }
         Update: {
+          article?: Json | null
+          cache_key_version?: number
+          cache_scope?: string | null
+          calibration_id?: string | null
+          claims?: Json | null
           confidence?: number
           created_at?: string
+          embedding?: string | null
+          embedding_failed_at?: string | null
+          embedding_model?: string | null
+          expires_at?: string | null
+          flag_reason?: string | null
+          flagged_at?: string | null
           id?: string
           input_text?: string
           justification?: string
+          narrative_id?: string | null
+          raw_confidence?: number | null
           search_results?: Json | null
           sources?: Json | null
           status?: string
           text_hash?: string
+          topic?: string | null
+          updated_at?: string
+          verified_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fact_checks_calibration_id_fkey"
+            columns: ["calibration_id"]
+            isOneToOne: false
+            referencedRelation: "confidence_calibrations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fact_checks_narrative_id_fkey"
+            columns: ["narrative_id"]
+            isOneToOne: false
+            referencedRelation: "narratives"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      narratives: {
+        Row: {
+          canonical_check_id: string | null
+          canonical_claim: string
+          centroid: string
+          created_at: string
+          embedding_model: string
+          first_seen_at: string
+          id: string
+          last_seen_at: string
+          member_count: number
+          status: string
+          submission_count: number
+          updated_at: string
+          verdict_counts: Json
+        }
+        Insert: {
+          canonical_check_id?: string | null
+          canonical_claim: string
+          centroid: string
+          created_at?: string
+          embedding_model: string
+          first_seen_at: string
+          id?: string
+          last_seen_at: string
+          member_count?: number
+          status?: string
+          submission_count?: number
+          updated_at?: string
+          verdict_counts?: Json
+        }
+        Update: {
+          canonical_check_id?: string | null
+          canonical_claim?: string
+          centroid?: string
+          created_at?: string
+          embedding_model?: string
+          first_seen_at?: string
+          id?: string
+          last_seen_at?: string
+          member_count?: number
+          status?: string
+          submission_count?: number
+          updated_at?: string
+          verdict_counts?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "narratives_canonical_check_id_fkey"
+            columns: ["canonical_check_id"]
+            isOneToOne: false
+            referencedRelation: "fact_checks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_limit_hits: {
+        Row: {
+          bucket: string
+          hit_at: string
+          id: number
+        }
+        Insert: {
+          bucket: string
+          hit_at?: string
+          id?: number
+        }
+        Update: {
+          bucket?: string
+          hit_at?: string
+          id?: number
+        }
+        Relationships: []
+      }
+      reviewers: {
+        Row: {
+          created_at: string
+          display_name: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          display_name?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      source_domains: {
+        Row: {
+          created_at: string
+          domain: string
+          id: string
+          name: string
+          ownership_notes: string | null
+          source_type: string
+          tier: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          domain: string
+          id?: string
+          name: string
+          ownership_notes?: string | null
+          source_type: string
+          tier: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          domain?: string
+          id?: string
+          name?: string
+          ownership_notes?: string | null
+          source_type?: string
+          tier?: string
           updated_at?: string
+          updated_by?: string | null
         }
         Relationships: []
       }
+      user_checks: {
+        Row: {
+          created_at: string
+          fact_check_id: string
+          id: string
+          last_submitted_at: string
+          submission_count: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          fact_check_id: string
+          id?: string
+          last_submitted_at?: string
+          submission_count?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          fact_check_id?: string
+          id?: string
+          last_submitted_at?: string
+          submission_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_checks_fact_check_id_fkey"
+            columns: ["fact_check_id"]
+            isOneToOne: false
+            referencedRelation: "fact_checks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      verdict_feedback: {
+        Row: {
+          counter_source_url: string | null
+          created_at: string
+          fact_check_id: string
+          id: string
+          updated_at: string
+          vote: string
+          voter_hash: string
+        }
+        Insert: {
+          counter_source_url?: string | null
+          created_at?: string
+          fact_check_id: string
+          id?: string
+          updated_at?: string
+          vote: string
+          voter_hash: string
+        }
+        Update: {
+          counter_source_url?: string | null
+          created_at?: string
+          fact_check_id?: string
+          id?: string
+          updated_at?: string
+          vote?: string
+          voter_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verdict_feedback_fact_check_id_fkey"
+            columns: ["fact_check_id"]
+            isOneToOne: false
+            referencedRelation: "fact_checks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      verdict_overrides: {
+        Row: {
+          action: string
+          confidence: number
+          created_at: string
+          fact_check_id: string
+          id: string
+          justification: string
+          model_raw_confidence: number | null
+          model_status: string | null
+          reviewer_id: string
+          sources: Json
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          action: string
+          confidence: number
+          created_at?: string
+          fact_check_id: string
+          id?: string
+          justification: string
+          model_raw_confidence?: number | null
+          model_status?: string | null
+          reviewer_id: string
+          sources?: Json
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          confidence?: number
+          created_at?: string
+          fact_check_id?: string
+          id?: string
+          justification?: string
+          model_raw_confidence?: number | null
+          model_status?: string | null
+          reviewer_id?: string
+          sources?: Json
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verdict_overrides_fact_check_id_fkey"
+            columns: ["fact_check_id"]
+            isOneToOne: true
+            referencedRelation: "fact_checks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      review_queue: {
+        Row: {
+          confidence: number | null
+          counter_sources: number | null
+          created_at: string | null
+          downvotes: number | null
+          flag_reason: string | null
+          flagged_at: string | null
+          id: string | null
+          input_text: string | null
+          status: string | null
+          topic: string | null
+          upvotes: number | null
+        }
+        Relationships: []
+      }
+      verdict_feedback_summary: {
+        Row: {
+          counter_sources: number | null
+          dispute_rate: number | null
+          downvotes: number | null
+          fact_check_id: string | null
+          last_feedback_at: string | null
+          total_votes: number | null
+          upvotes: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      check_rate_limit: {
+        Args: {
+          p_bucket: string
+          p_limit: number
+          p_window_seconds: number
+        }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          retry_after: number
+          reset_at: string
+        }[]
+      }
+      confidence_by_status: {
+        Args: {
+          p_days?: number
+        }
+        Returns: {
+          status: string
+          checks: number
+          avg_confidence: number
+        }[]
+      }
+      consume_api_quota: {
+        Args: {
+          p_api_key_id: string
+        }
+        Returns: {
+          allowed: boolean
+          quota: number
+          used: number
+          reset_at: string
+        }[]
+      }
+      create_api_key: {
+        Args: {
+          p_daily_quota?: number
+          p_name: string
+        }
+        Returns: {
+          id: string
+          api_key: string
+        }[]
+      }
+      daily_check_stats: {
+        Args: {
+          p_days?: number
+        }
+        Returns: {
+          day: string
+          checks: number
+          real_count: number
+          fake_count: number
+          uncertain_count: number
+          fallbacks: number
+          submissions: number
+          cache_hits: number
+        }[]
+      }
+      is_reviewer: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      match_claim_reviews: {
+        Args: {
+          p_claim: string
+          p_limit?: number
+          p_min_similarity?: number
+        }
+        Returns: {
+          id: string
+          review_url: string
+          claim_text: string
+          claimant: string
+          publisher_name: string
+          publisher_url: string
+          review_date: string
+          headline: string
+          rating_text: string
+          status: string
+          similarity: number
+        }[]
+      }
+      match_similar_checks: {
+        Args: {
+          p_embedding: string
+          p_limit?: number
+          p_min_similarity?: number
+          p_model: string
+          p_scope: string
+        }
+        Returns: {
+          id: string
+          input_text: string
+          similarity: number
+        }[]
+      }
+      purge_rate_limit_hits: {
+        Args: {
+          p_older_than?: unknown
+        }
+        Returns: undefined
+      }
+      record_user_check: {
+        Args: {
+          p_fact_check_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      refresh_narrative_stats: {
+        Args: {
+          p_narrative_ids?: string[]
+        }
+        Returns: undefined
+      }
+      top_source_domains: {
+        Args: {
+          p_days?: number
+          p_limit?: number
+        }
+        Returns: {
+          domain: string
+          citations: number
+          checks: number
+          name: string
+          tier: string
+        }[]
+      }
+      trending_narratives: {
+        Args: {
+          p_limit?: number
+          p_since: string
+          p_status?: string
+        }
+        Returns: {
+          id: string
+          canonical_claim: string
+          canonical_check_id: string
+          status: string
+          verdict_counts: Json
+          member_count: number
+          submission_count: number
+          first_seen_at: string
+          last_seen_at: string
+          recent_submissions: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
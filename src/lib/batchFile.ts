@@ -0,0 +1,125 @@
+// Parsing of batch upload files (CSV or JSONL) into items to verify, and
+// CSV export of the results.
+
+export interface BatchItem {
+  text?: string;
+  url?: string;
+}
+
+const TEXT_COLUMNS = ['text', 'texto', 'mensagem', 'message', 'conteudo', 'conteúdo'];
+const URL_COLUMNS = ['url', 'link'];
+
+// RFC 4180 CSV: quoted fields may contain separators, quotes ("") and newlines
+export function parseCsv(content: string, separator = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+// Spreadsheets exported in pt-BR locales use ';' as the separator
+function detectSeparator(firstLine: string): string {
+  return (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+}
+
+function toItem(text: string | undefined, url: string | undefined): BatchItem | null {
+  const cleanUrl = url?.trim();
+  const cleanText = text?.trim();
+  if (cleanUrl) return { url: cleanUrl };
+  if (cleanText) return { text: cleanText };
+  return null;
+}
+
+export function parseCsvItems(content: string): BatchItem[] {
+  const clean = content.replace(/^\uFEFF/, '');
+  const rows = parseCsv(clean, detectSeparator(clean.split(/\r?\n/, 1)[0]));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const textColumn = header.findIndex((cell) => TEXT_COLUMNS.includes(cell));
+  const urlColumn = header.findIndex((cell) => URL_COLUMNS.includes(cell));
+
+  // Without a recognizable header, every row's first column is the text
+  if (textColumn === -1 && urlColumn === -1) {
+    return rows.map((cells) => toItem(cells[0], undefined)).filter((item): item is BatchItem => item !== null);
+  }
+
+  return rows.slice(1)
+    .map((cells) => toItem(textColumn >= 0 ? cells[textColumn] : undefined, urlColumn >= 0 ? cells[urlColumn] : undefined))
+    .filter((item): item is BatchItem => item !== null);
+}
+
+// One JSON value per line: a string, or an object with text/url fields
+export function parseJsonlItems(content: string): BatchItem[] {
+  return content
+    .split(/\r?\n/)
+    .map((line, index) => {
+      if (!line.trim()) return null;
+
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        throw new Error(`Linha ${index + 1} não é um JSON válido`);
+      }
+
+      if (typeof value === 'string') return toItem(value, undefined);
+      if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        const text = TEXT_COLUMNS.map((key) => record[key]).find((field) => typeof field === 'string') as string | undefined;
+        const url = URL_COLUMNS.map((key) => record[key]).find((field) => typeof field === 'string') as string | undefined;
+        return toItem(text, url);
+      }
+      return null;
+    })
+    .filter((item): item is BatchItem => item !== null);
+}
+
+export function parseBatchFile(name: string, content: string): BatchItem[] {
+  return /\.jsonl?$/i.test(name) ? parseJsonlItems(content) : parseCsvItems(content);
+}
+
+function escapeCsvField(value: string | number | boolean | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The BOM makes Excel open the file as UTF-8, keeping accents intact
+export function toCsv(header: string[], rows: Array<Array<string | number | boolean | null | undefined>>): string {
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(escapeCsvField).join(',')).join('\r\n');
+}
@@ -0,0 +1,57 @@
+import type { AnalysisProgress, VerdictStatus } from '@/services/fakeNewsDetector';
+
+export interface ClaimProgress {
+  claim: string;
+  phase: 'pending' | 'searching' | 'verified';
+  // Documents the search found; undefined when no search backend is configured
+  sourcesFound?: number;
+  // Justification as streamed so far, replaced by the final one once verified
+  justification: string;
+  status?: VerdictStatus;
+  confidence?: number;
+}
+
+export interface ProgressState {
+  claimsExtracted: boolean;
+  claims: ClaimProgress[];
+  verdict: { status: VerdictStatus; confidence: number } | null;
+}
+
+export const INITIAL_PROGRESS: ProgressState = {
+  claimsExtracted: false,
+  claims: [],
+  verdict: null,
+};
+
+const updateClaim = (state: ProgressState, index: number, update: (claim: ClaimProgress) => ClaimProgress): ProgressState => ({
+  ...state,
+  claims: state.claims.map((claim, i) => (i === index ? update(claim) : claim)),
+});
+
+// Folds streamed verification events into the timeline shown while waiting
+export const applyProgress = (state: ProgressState, event: AnalysisProgress): ProgressState => {
+  switch (event.type) {
+    case 'claims_extracted':
+      return {
+        ...state,
+        claimsExtracted: true,
+        claims: event.claims.map(({ claim }) => ({ claim, phase: 'pending', justification: '' })),
+      };
+    case 'searching_sources':
+      return updateClaim(state, event.claimIndex, (claim) => ({ ...claim, phase: 'searching' }));
+    case 'sources_found':
+      return updateClaim(state, event.claimIndex, (claim) => ({ ...claim, sourcesFound: event.sources.length }));
+    case 'justification_delta':
+      return updateClaim(state, event.claimIndex, (claim) => ({ ...claim, justification: claim.justification + event.text }));
+    case 'claim_verified':
+      return updateClaim(state, event.claimIndex, (claim) => ({
+        ...claim,
+        phase: 'verified',
+        justification: event.claim.justification,
+        status: event.claim.status,
+        confidence: event.claim.confidence,
+      }));
+    case 'verdict_drafted':
+      return { ...state, verdict: { status: event.status, confidence: event.confidence } };
+  }
+};
@@ -0,0 +1,21 @@
+import { getStatusText } from '@/lib/verdict';
+import type { VerdictStatus } from '@/services/fakeNewsDetector';
+
+// Shared links go through the `share` edge function when configured so that
+// chat apps get Open Graph previews; otherwise straight to the SPA permalink.
+export const getShareUrl = (id: string) => {
+  const shareBase = import.meta.env.VITE_SHARE_BASE_URL;
+  return shareBase
+    ? `${shareBase.replace(/\/+$/, '')}/${id}`
+    : `${window.location.origin}/verificacao/${id}`;
+};
+
+export const getPermalinkPath = (id: string) => `/verificacao/${id}`;
+
+export const buildShareText = (status: VerdictStatus, confidence: number, text: string, url: string) => {
+  const excerpt = text.length > 120 ? `${text.substring(0, 117).trimEnd()}...` : text;
+  return `🔎 ${getStatusText(status)} (${confidence}% de confiança)\n\n"${excerpt}"\n\nVeja a verificação completa: ${url}`;
+};
+
+export const getWhatsAppShareUrl = (message: string) =>
+  `https://wa.me/?text=${encodeURIComponent(message)}`;
@@ -0,0 +1,31 @@
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'real':
+      return 'bg-green-50 border-green-200';
+    case 'fake':
+      return 'bg-red-50 border-red-200';
+    case 'uncertain':
+      return 'bg-yellow-50 border-yellow-200';
+    default:
+      return 'bg-gray-50 border-gray-200';
+  }
+};
+
+export const getStatusText = (status: string) => {
+  switch (status) {
+    case 'real':
+      return 'Informação Verdadeira';
+    case 'fake':
+      return 'Possível Fake News';
+    case 'uncertain':
+      return 'Verificação Incerta';
+    default:
+      return '';
+  }
+};
+
+export const getConfidenceColor = (confidence: number) => {
+  if (confidence >= 80) return 'text-green-600 bg-green-100';
+  if (confidence >= 60) return 'text-yellow-600 bg-yellow-100';
+  return 'text-red-600 bg-red-100';
+};
@@ -0,0 +1,246 @@
+import { useRef, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Download, FileUp, Layers, Play, Square } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import SiteNav from '@/components/SiteNav';
+import StatusIcon from '@/components/StatusIcon';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { parseBatchFile, toCsv, type BatchItem } from '@/lib/batchFile';
+import { getPermalinkPath } from '@/lib/share';
+import { getConfidenceColor, getStatusText } from '@/lib/verdict';
+import { runBatchVerification, type BatchProgress, type BatchResult } from '@/services/batch';
+
+const MAX_ITEMS = 500;
+
+const describeItem = (item: BatchItem) => item.url ?? item.text ?? '';
+
+const downloadCsv = (results: BatchResult[]) => {
+  const header = ['linha', 'texto', 'url', 'status', 'resultado', 'confianca', 'justificativa', 'fontes', 'link_verificacao', 'duplicado_da_linha', 'erro'];
+  const rows = results.map(({ index, item, result, error, duplicateOf }) => [
+    index + 1,
+    item.text ?? '',
+    item.url ?? '',
+    result?.status ?? '',
+    result ? getStatusText(result.status) : '',
+    result?.confidence ?? '',
+    result?.justification ?? '',
+    (result?.sources ?? []).map((source) => source.url).join(' '),
+    result?.id ? `${window.location.origin}${getPermalinkPath(result.id)}` : '',
+    duplicateOf !== null ? duplicateOf + 1 : '',
+    error ?? '',
+  ]);
+
+  const blob = new Blob([toCsv(header, rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `verificacoes-${new Date().toISOString().slice(0, 10)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const Batch = () => {
+  const { session, isLoading: isLoadingSession } = useAuth();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  if (!isLoadingSession && !session) {
+    return <Navigate to="/entrar" replace />;
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = parseBatchFile(file.name, await file.text());
+      if (parsed.length === 0) {
+        throw new Error('Nenhum texto ou link encontrado no arquivo.');
+      }
+      if (parsed.length > MAX_ITEMS) {
+        toast({
+          title: "Arquivo muito grande",
+          description: `Apenas os primeiros ${MAX_ITEMS} itens serão verificados.`,
+        });
+      }
+
+      setFileName(file.name);
+      setItems(parsed.slice(0, MAX_ITEMS));
+      setResults([]);
+      setProgress(null);
+    } catch (error) {
+      toast({
+        title: "Não foi possível ler o arquivo",
+        description: error instanceof Error ? error.message : 'Formato de arquivo inválido.',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setResults([]);
+    setProgress({ done: 0, total: items.length, waitingFor: 0 });
+
+    try {
+      const finished = await runBatchVerification(items, {
+        signal: controller.signal,
+        onProgress: (nextProgress, partial) => {
+          setProgress(nextProgress);
+          setResults(partial);
+        },
+      });
+
+      toast({
+        title: controller.signal.aborted ? "Verificação interrompida" : "Verificação concluída",
+        description: `${finished.length} de ${items.length} itens verificados.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro na verificação em lote",
+        description: error instanceof Error ? error.message : 'Tente novamente em alguns instantes.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+  const counts = results.reduce<Record<string, number>>((acc, { result, error }) => {
+    const key = result ? result.status : error ? 'error' : 'pending';
+    acc[key] = (acc[key] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <SiteNav />
+
+        <div className="flex items-center mb-6">
+          <Layers className="w-8 h-8 text-blue-600 mr-3" />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Verificação em lote</h1>
+            <p className="text-gray-500">Envie um arquivo com várias mensagens e baixe os resultados em CSV</p>
+          </div>
+        </div>
+
+        <Card className="mb-6 shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-lg">Arquivo</CardTitle>
+            <CardDescription>
+              CSV com uma coluna "texto" (ou "link"), ou JSONL com um objeto {'{"texto": "..."}'} por linha. Até {MAX_ITEMS} itens.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+              <Input
+                type="file"
+                accept=".csv,.jsonl,.json,.txt,text/csv"
+                onChange={handleFile}
+                disabled={isRunning}
+                className="sm:max-w-sm"
+              />
+              {fileName && (
+                <span className="text-sm text-gray-600">
+                  <FileUp className="inline w-4 h-4 mr-1" />
+                  {fileName}: {items.length} itens
+                </span>
+              )}
+              <div className="flex gap-2 sm:ml-auto">
+                {isRunning ? (
+                  <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                    <Square className="w-4 h-4 mr-2" />
+                    Interromper
+                  </Button>
+                ) : (
+                  <Button onClick={handleStart} disabled={items.length === 0}>
+                    <Play className="w-4 h-4 mr-2" />
+                    Verificar {items.length > 0 ? `${items.length} itens` : ''}
+                  </Button>
+                )}
+                <Button variant="outline" onClick={() => downloadCsv(results)} disabled={results.length === 0}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Baixar CSV
+                </Button>
+              </div>
+            </div>
+
+            {progress && (
+              <div className="space-y-2">
+                <Progress value={percent} />
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                  <span className="mr-auto">
+                    {progress.done} de {progress.total} verificados ({percent}%)
+                    {progress.waitingFor > 0 && ` · limite de requisições atingido, continuando em ${progress.waitingFor}s`}
+                  </span>
+                  {(['fake', 'real', 'uncertain'] as const).map((status) => counts[status] ? (
+                    <Badge key={status} variant="secondary">{getStatusText(status)}: {counts[status]}</Badge>
+                  ) : null)}
+                  {counts.error ? <Badge variant="destructive">Erros: {counts.error}</Badge> : null}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {results.length > 0 && (
+          <Card className="shadow-sm">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Texto</TableHead>
+                  <TableHead>Resultado</TableHead>
+                  <TableHead>Confiança</TableHead>
+                  <TableHead>Observação</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map(({ index, item, result, error, duplicateOf }) => (
+                  <TableRow key={index}>
+                    <TableCell className="text-gray-500">{index + 1}</TableCell>
+                    <TableCell className="max-w-md">
+                      <p className="line-clamp-2 text-gray-800">{describeItem(item)}</p>
+                    </TableCell>
+                    <TableCell>
+                      {result && (
+                        <div className="flex items-center gap-2">
+                          <StatusIcon status={result.status} className="w-4 h-4" />
+                          <span className="text-sm">{getStatusText(result.status)}</span>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {result && <Badge className={getConfidenceColor(result.confidence)}>{result.confidence}%</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {error ?? (duplicateOf !== null ? `Igual à linha ${duplicateOf + 1}` : result?.cached ? 'Resultado em cache' : '')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Batch;
@@ -0,0 +1,309 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ExternalLink, History as HistoryIcon, Search, UserCheck } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import SiteNav from '@/components/SiteNav';
+import StatusIcon from '@/components/StatusIcon';
+import FactCheckDetail from '@/components/FactCheckDetail';
+import ShareButton from '@/components/ShareButton';
+import { useDebounce } from '@/hooks/use-debounce';
+import { getPermalinkPath } from '@/lib/share';
+import { getConfidenceColor, getStatusText } from '@/lib/verdict';
+import { getFactCheck, listFactChecks, type FactCheckFilters } from '@/services/factChecks';
+
+const PAGE_SIZE = 20;
+
+const DEFAULT_FILTERS: Omit<FactCheckFilters, 'page' | 'pageSize'> = {
+  status: 'all',
+  minConfidence: 0,
+  maxConfidence: 100,
+  from: '',
+  to: '',
+  search: '',
+};
+
+// Page numbers to show around the current page, with null marking a gap
+const getPageNumbers = (current: number, total: number): Array<number | null> => {
+  const pages = new Set([1, total, current - 1, current, current + 1]);
+  const sorted = [...pages].filter((page) => page >= 1 && page <= total).sort((a, b) => a - b);
+
+  return sorted.flatMap((page, index) => (
+    index > 0 && page - sorted[index - 1] > 1 ? [null, page] : [page]
+  ));
+};
+
+const clampConfidence = (value: string, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.min(100, Math.max(0, Math.round(parsed))) : fallback;
+};
+
+const History = () => {
+  const [filters, setFilters] = useState(DEFAULT_FILTERS);
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const debouncedFilters = useDebounce(filters, 300);
+
+  const updateFilters = (changes: Partial<typeof DEFAULT_FILTERS>) => {
+    setFilters((current) => ({ ...current, ...changes }));
+    setPage(1);
+  };
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['fact-checks', debouncedFilters, page],
+    queryFn: () => listFactChecks({ ...debouncedFilters, page, pageSize: PAGE_SIZE }),
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: selected, isLoading: isLoadingDetail } = useQuery({
+    queryKey: ['fact-check', selectedId],
+    queryFn: () => getFactCheck(selectedId as string),
+    enabled: selectedId !== null,
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  const goToPage = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= totalPages) {
+      setPage(target);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <SiteNav />
+
+        <div className="flex items-center mb-6">
+          <HistoryIcon className="w-8 h-8 text-blue-600 mr-3" />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Histórico de verificações</h1>
+            <p className="text-gray-500">
+              {data ? `${data.total} verificações encontradas` : 'Consulte verificações feitas anteriormente'}
+            </p>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6 shadow-sm">
+          <CardContent className="p-4 grid gap-4 md:grid-cols-6">
+            <div className="md:col-span-2 space-y-1">
+              <Label htmlFor="history-search">Buscar no texto</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <Input
+                  id="history-search"
+                  placeholder="Ex.: vacina, eleição..."
+                  value={filters.search}
+                  onChange={(e) => updateFilters({ search: e.target.value })}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Resultado</Label>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => updateFilters({ status: value as FactCheckFilters['status'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  <SelectItem value="real">Verdadeiro</SelectItem>
+                  <SelectItem value="fake">Falso</SelectItem>
+                  <SelectItem value="uncertain">Incerto</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Confiança (%)</Label>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  aria-label="Confiança mínima"
+                  value={filters.minConfidence}
+                  onChange={(e) => updateFilters({ minConfidence: clampConfidence(e.target.value, 0) })}
+                />
+                <span className="text-gray-400">–</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  aria-label="Confiança máxima"
+                  value={filters.maxConfidence}
+                  onChange={(e) => updateFilters({ maxConfidence: clampConfidence(e.target.value, 100) })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-from">De</Label>
+              <Input
+                id="history-from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilters({ from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-to">Até</Label>
+              <Input
+                id="history-to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilters({ to: e.target.value })}
+              />
+            </div>
+            <div className="md:col-span-6 flex justify-end">
+              <Button variant="ghost" size="sm" onClick={() => updateFilters(DEFAULT_FILTERS)}>
+                Limpar filtros
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Texto</TableHead>
+                  <TableHead className="w-48">Resultado</TableHead>
+                  <TableHead className="w-28">Confiança</TableHead>
+                  <TableHead className="w-40">Data</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && Array.from({ length: 5 }).map((_, index) => (
+                  <TableRow key={index}>
+                    <TableCell colSpan={4}><Skeleton className="h-6 w-full" /></TableCell>
+                  </TableRow>
+                ))}
+                {isError && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-red-600 py-8">
+                      Não foi possível carregar o histórico. Tente novamente mais tarde.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {data && data.items.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-gray-500 py-8">
+                      Nenhuma verificação encontrada com esses filtros.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {data?.items.map((item) => (
+                  <TableRow
+                    key={item.id}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedId(item.id)}
+                  >
+                    <TableCell className="max-w-md">
+                      <p className="line-clamp-2 text-gray-800">{item.inputText}</p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <StatusIcon status={item.status} className="w-4 h-4" />
+                        <span className="text-sm">{getStatusText(item.status)}</span>
+                        {item.reviewed && <UserCheck className="w-4 h-4 text-blue-600" aria-label="Revisado por checador" />}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={getConfidenceColor(item.confidence)}>{item.confidence}%</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {format(new Date(item.createdAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {totalPages > 1 && (
+          <Pagination className="mt-6">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious href="#" onClick={goToPage(page - 1)} />
+              </PaginationItem>
+              {getPageNumbers(page, totalPages).map((pageNumber, index) => (
+                <PaginationItem key={index}>
+                  {pageNumber === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink href="#" isActive={pageNumber === page} onClick={goToPage(pageNumber)}>
+                      {pageNumber}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext href="#" onClick={goToPage(page + 1)} />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+
+        {/* Detail */}
+        <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Detalhes da verificação</DialogTitle>
+            </DialogHeader>
+            {isLoadingDetail && <Skeleton className="h-40 w-full" />}
+            {selected && (
+              <>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <Link to={getPermalinkPath(selected.id)}>
+                      <ExternalLink className="w-4 h-4 mr-1" />
+                      Abrir página
+                    </Link>
+                  </Button>
+                  <ShareButton
+                    id={selected.id}
+                    status={selected.result.status}
+                    confidence={selected.result.confidence}
+                    text={selected.inputText}
+                  />
+                </div>
+                <FactCheckDetail check={selected} />
+              </>
+            )}
+            {!isLoadingDetail && selectedId && selected === null && (
+              <p className="text-gray-500">Verificação não encontrada.</p>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+};
+
+export default History;
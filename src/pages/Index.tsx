@@ -1,33 +1,59 @@
 
 import React, { useState } from 'react';
-import { Search, Shield, AlertTriangle, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Search, Shield, Clock, RefreshCw, Link as LinkIcon, FileText, Copy } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { analyzeText } from '@/services/fakeNewsDetector';
+import { useCountdown } from '@/hooks/use-countdown';
+import StatusIcon from '@/components/StatusIcon';
+import SourceList from '@/components/SourceList';
+import ClaimCard from '@/components/ClaimCard';
+import ArticleCard from '@/components/ArticleCard';
+import SiteNav from '@/components/SiteNav';
+import ShareButton from '@/components/ShareButton';
+import VerdictFeedback from '@/components/VerdictFeedback';
+import ReviewedBadge from '@/components/ReviewedBadge';
+import AnalysisTimeline from '@/components/AnalysisTimeline';
+import { applyProgress, INITIAL_PROGRESS, type ProgressState } from '@/lib/progress';
+import { getConfidenceColor, getStatusColor, getStatusText } from '@/lib/verdict';
+import { analyzeText, analyzeUrl, RateLimitError, type AnalysisProgress, type AnalysisResult } from '@/services/fakeNewsDetector';
 
-interface AnalysisResult {
-  status: 'real' | 'fake' | 'uncertain';
-  confidence: number;
-  justification: string;
-  sources?: Array<{
-    title: string;
-    url: string;
-    summary: string;
-  }>;
-  cached?: boolean;
-}
+type InputMode = 'text' | 'url';
 
 const Index = () => {
+  const [inputMode, setInputMode] = useState<InputMode>('text');
   const [inputText, setInputText] = useState('');
+  const [inputUrl, setInputUrl] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [progress, setProgress] = useState<ProgressState | null>(null);
   const { toast } = useToast();
+  const { secondsLeft: retryIn, start: startRetryCountdown } = useCountdown();
 
-  const handleAnalyze = async () => {
-    if (!inputText.trim()) {
+  const hasMultipleClaims = Boolean(result?.claims && result.claims.length > 1);
+
+  const canSubmit = inputMode === 'url'
+    ? inputUrl.trim().length > 0
+    : inputText.trim().length >= 10;
+
+  const handleAnalyze = async (refresh = false) => {
+    if (inputMode === 'url' && !inputUrl.trim()) {
+      toast({
+        title: "Erro",
+        description: "Por favor, cole o link da notícia que deseja verificar.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (inputMode === 'text' && !inputText.trim()) {
       toast({
         title: "Erro",
         description: "Por favor, insira um texto para análise.",
@@ -36,7 +62,7 @@ const Index = () => {
       return;
     }
 
-    if (inputText.trim().length < 10) {
+    if (inputMode === 'text' && inputText.trim().length < 10) {
       toast({
         title: "Texto muito curto",
         description: "Por favor, insira um texto mais longo para uma análise precisa.",
@@ -46,11 +72,25 @@ const Index = () => {
     }
 
     setIsLoading(true);
+    setProgress(INITIAL_PROGRESS);
     try {
-      const analysisResult = await analyzeText(inputText);
+      const onProgress = (event: AnalysisProgress) => setProgress((current) => applyProgress(current ?? INITIAL_PROGRESS, event));
+      const analysisResult = inputMode === 'url'
+        ? await analyzeUrl(inputUrl, { refresh, onProgress })
+        : await analyzeText(inputText, { refresh, onProgress });
       setResult(analysisResult);
       
-      if (analysisResult.cached) {
+      if (analysisResult.similarTo) {
+        toast({
+          title: "Verificação semelhante encontrada",
+          description: "Um texto parecido já foi verificado; mostramos o resultado dele.",
+        });
+      } else if (analysisResult.cached && analysisResult.stale) {
+        toast({
+          title: "Resultado possivelmente desatualizado",
+          description: "Esta análise foi recuperada do cache e já expirou. Você pode verificar novamente.",
+        });
+      } else if (analysisResult.cached) {
         toast({
           title: "Resultado encontrado",
           description: "Esta análise foi recuperada do cache para resposta mais rápida.",
@@ -69,6 +109,17 @@ const Index = () => {
       }
     } catch (error) {
       console.error('Error analyzing text:', error);
+
+      if (error instanceof RateLimitError) {
+        startRetryCountdown(error.retryAfter);
+        toast({
+          title: "Muitas tentativas",
+          description: `Aguarde ${error.retryAfter} segundos antes de verificar novamente.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
       toast({
         title: "Erro na verificação",
         description: "Erro ao analisar o texto. Verifique sua conexão e tente novamente.",
@@ -76,57 +127,15 @@ const Index = () => {
       });
     } finally {
       setIsLoading(false);
+      setProgress(null);
     }
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'real':
-        return <CheckCircle className="w-6 h-6 text-green-600" />;
-      case 'fake':
-        return <XCircle className="w-6 h-6 text-red-600" />;
-      case 'uncertain':
-        return <AlertTriangle className="w-6 h-6 text-yellow-600" />;
-      default:
-        return null;
-    }
-  };
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'real':
-        return 'bg-green-50 border-green-200';
-      case 'fake':
-        return 'bg-red-50 border-red-200';
-      case 'uncertain':
-        return 'bg-yellow-50 border-yellow-200';
-      default:
-        return 'bg-gray-50 border-gray-200';
-    }
-  };
-
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'real':
-        return 'Informação Verdadeira';
-      case 'fake':
-        return 'Possível Fake News';
-      case 'uncertain':
-        return 'Verificação Incerta';
-      default:
-        return '';
-    }
-  };
-
-  const getConfidenceColor = (confidence: number) => {
-    if (confidence >= 80) return 'text-green-600 bg-green-100';
-    if (confidence >= 60) return 'text-yellow-600 bg-yellow-100';
-    return 'text-red-600 bg-red-100';
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
       <div className="container mx-auto px-4 py-8">
+        <SiteNav />
+
         {/* Header */}
         <div className="text-center mb-12">
           <div className="flex items-center justify-center mb-4">
@@ -170,20 +179,43 @@ const Index = () => {
         <div className="max-w-4xl mx-auto mb-8">
           <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
             <CardContent className="p-6">
-              <div className="space-y-4">
-                <Textarea
-                  placeholder="Cole aqui o texto, notícia ou informação que você deseja verificar... (mínimo 10 caracteres)"
-                  value={inputText}
-                  onChange={(e) => setInputText(e.target.value)}
-                  className="min-h-[120px] text-lg border-gray-200 focus:border-blue-500 focus:ring-blue-500 resize-none"
-                />
+              <Tabs value={inputMode} onValueChange={(value) => setInputMode(value as InputMode)} className="space-y-4">
+                <TabsList>
+                  <TabsTrigger value="text">
+                    <FileText className="w-4 h-4 mr-1" />
+                    Texto
+                  </TabsTrigger>
+                  <TabsTrigger value="url">
+                    <LinkIcon className="w-4 h-4 mr-1" />
+                    Link
+                  </TabsTrigger>
+                </TabsList>
+                <TabsContent value="text">
+                  <Textarea
+                    placeholder="Cole aqui o texto, notícia ou informação que você deseja verificar... (mínimo 10 caracteres)"
+                    value={inputText}
+                    onChange={(e) => setInputText(e.target.value)}
+                    className="min-h-[120px] text-lg border-gray-200 focus:border-blue-500 focus:ring-blue-500 resize-none"
+                  />
+                </TabsContent>
+                <TabsContent value="url">
+                  <Input
+                    type="url"
+                    placeholder="https://exemplo.com.br/noticia"
+                    value={inputUrl}
+                    onChange={(e) => setInputUrl(e.target.value)}
+                    className="text-lg h-12 border-gray-200 focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </TabsContent>
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-gray-500">
-                    {inputText.length} caracteres
+                    {inputMode === 'url'
+                      ? 'O conteúdo da página será extraído e verificado'
+                      : `${inputText.length} caracteres`}
                   </span>
                   <Button
-                    onClick={handleAnalyze}
-                    disabled={isLoading || inputText.trim().length < 10}
+                    onClick={() => handleAnalyze()}
+                    disabled={isLoading || retryIn > 0 || !canSubmit}
                     className="px-8 py-3 text-lg font-semibold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300"
                   >
                     {isLoading ? (
@@ -191,6 +223,11 @@ const Index = () => {
                         <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-2" />
                         Verificando com IA...
                       </>
+                    ) : retryIn > 0 ? (
+                      <>
+                        <Clock className="w-5 h-5 mr-2" />
+                        Aguarde {retryIn}s
+                      </>
                     ) : (
                       <>
                         <Search className="w-5 h-5 mr-2" />
@@ -199,18 +236,25 @@ const Index = () => {
                     )}
                   </Button>
                 </div>
-              </div>
+              </Tabs>
             </CardContent>
           </Card>
         </div>
 
+        {/* Progress of the running verification */}
+        {isLoading && progress && (
+          <div className="max-w-4xl mx-auto mb-8 animate-fade-in">
+            <AnalysisTimeline progress={progress} />
+          </div>
+        )}
+
         {/* Results Section */}
-        {result && (
+        {result && !isLoading && (
           <div className="max-w-4xl mx-auto animate-fade-in">
             <Card className={`shadow-lg border-2 ${getStatusColor(result.status)}`}>
               <CardContent className="p-6">
                 <div className="flex items-center mb-4">
-                  {getStatusIcon(result.status)}
+                  <StatusIcon status={result.status} />
                   <h2 className="text-2xl font-bold ml-3 text-gray-900">
                     {getStatusText(result.status)}
                   </h2>
@@ -218,45 +262,79 @@ const Index = () => {
                     <Badge className={`text-lg py-1 px-3 ${getConfidenceColor(result.confidence)}`}>
                       {result.confidence}% confiança
                     </Badge>
-                    {result.cached && (
+                    {result.reviewed && <ReviewedBadge action={result.reviewAction} className="text-sm py-1 px-2" />}
+                    {result.cached && !result.reviewed && (
                       <Badge variant="secondary" className="text-sm py-1 px-2">
                         <Clock className="w-3 h-3 mr-1" />
                         Cache
                       </Badge>
                     )}
+                    {result.id && (
+                      <ShareButton
+                        id={result.id}
+                        status={result.status}
+                        confidence={result.confidence}
+                        text={result.article?.title ?? (inputMode === 'url' ? inputUrl : inputText)}
+                      />
+                    )}
                   </div>
                 </div>
 
+                {result.article && <ArticleCard article={result.article} />}
+
+                {result.similarTo && (
+                  <div className="mb-4 rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-900">
+                    <p className="flex items-center font-medium mb-1">
+                      <Copy className="w-4 h-4 mr-2" />
+                      Verificação semelhante encontrada ({Math.round(result.similarTo.similarity * 100)}% de similaridade)
+                    </p>
+                    <p className="italic text-blue-800 line-clamp-3">“{result.similarTo.inputText}”</p>
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                      <Button variant="outline" size="sm" asChild>
+                        <Link to={`/verificacao/${result.similarTo.id}`}>Ver verificação original</Link>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleAnalyze(true)}
+                        disabled={isLoading || retryIn > 0}
+                      >
+                        <RefreshCw className="w-4 h-4 mr-1" />
+                        Verificar este texto
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {result.cached && !result.reviewed && !result.similarTo && result.checkedAt && (
+                  <div className={`mb-4 flex flex-wrap items-center justify-between gap-2 rounded-lg p-3 text-sm ${result.stale ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-600'}`}>
+                    <span>
+                      Verificado {formatDistanceToNow(new Date(result.checkedAt), { addSuffix: true, locale: ptBR })}
+                      {result.stale && ' — esta verificação pode estar desatualizada'}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleAnalyze(true)}
+                      disabled={isLoading || retryIn > 0}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-1" />
+                      Verificar novamente
+                    </Button>
+                  </div>
+                )}
+
                 <div className="mb-6">
-                  <h3 className="text-lg font-semibold mb-2 text-gray-800">Análise da IA:</h3>
+                  <h3 className="text-lg font-semibold mb-2 text-gray-800">{result.reviewed ? 'Análise do checador:' : 'Análise da IA:'}</h3>
                   <p className="text-gray-700 leading-relaxed text-base">{result.justification}</p>
                 </div>
 
-                {result.sources && result.sources.length > 0 && (
-                  <div>
-                    <h3 className="text-lg font-semibold mb-4 text-gray-800">
-                      Fontes de Verificação ({result.sources.length}):
-                    </h3>
-                    <div className="space-y-3">
-                      {result.sources.map((source, index) => (
-                        <Card key={index} className="border border-gray-200 hover:border-gray-300 transition-colors">
-                          <CardContent className="p-4">
-                            <a
-                              href={source.url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-blue-600 hover:text-blue-800 font-medium text-lg mb-2 block hover:underline"
-                            >
-                              {source.title}
-                            </a>
-                            <p className="text-gray-600 leading-relaxed">{source.summary}</p>
-                          </CardContent>
-                        </Card>
-                      ))}
-                    </div>
-                  </div>
+                {!hasMultipleClaims && result.sources && result.sources.length > 0 && (
+                  <SourceList sources={result.sources} />
                 )}
 
+                {result.id && <VerdictFeedback key={result.id} factCheckId={result.id} />}
+
                 <div className="mt-6 p-4 bg-gray-50 rounded-lg">
                   <p className="text-sm text-gray-600">
                     💡 <strong>Dica:</strong> Sempre consulte múltiplas fontes confiáveis e veículos de imprensa respeitados para verificar informações importantes.
@@ -264,6 +342,17 @@ const Index = () => {
                 </div>
               </CardContent>
             </Card>
+
+            {hasMultipleClaims && (
+              <div className="mt-6 space-y-4">
+                <h3 className="text-xl font-semibold text-gray-800">
+                  Afirmações analisadas ({result.claims.length}):
+                </h3>
+                {result.claims.map((claim, index) => (
+                  <ClaimCard key={index} claim={claim} index={index} />
+                ))}
+              </div>
+            )}
           </div>
         )}
 
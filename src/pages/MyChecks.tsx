@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ExternalLink, ListChecks, Trash2, UserCheck } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import SiteNav from '@/components/SiteNav';
+import StatusIcon from '@/components/StatusIcon';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { getPermalinkPath } from '@/lib/share';
+import { getConfidenceColor, getStatusText } from '@/lib/verdict';
+import { listMyChecks, removeMyCheck } from '@/services/userChecks';
+
+const PAGE_SIZE = 20;
+
+const MyChecks = () => {
+  const { session, user, isLoading: isLoadingSession } = useAuth();
+  const [page, setPage] = useState(1);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['my-checks', user?.id, page],
+    queryFn: () => listMyChecks(page, PAGE_SIZE),
+    enabled: Boolean(session),
+    placeholderData: keepPreviousData,
+  });
+
+  const removal = useMutation({
+    mutationFn: removeMyCheck,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['my-checks'] }),
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isLoadingSession && !session) {
+    return <Navigate to="/entrar" replace />;
+  }
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <SiteNav />
+
+        <div className="flex items-center mb-6">
+          <ListChecks className="w-8 h-8 text-blue-600 mr-3" />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Minhas verificações</h1>
+            <p className="text-gray-500">
+              {user?.email ? `Verificações feitas por ${user.email}` : 'Verificações feitas com a sua conta'}
+            </p>
+          </div>
+        </div>
+
+        <Card className="shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Texto</TableHead>
+                <TableHead>Resultado</TableHead>
+                <TableHead>Confiança</TableHead>
+                <TableHead>Última verificação</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(isLoadingSession || isLoading) && Array.from({ length: 5 }).map((_, index) => (
+                <TableRow key={index}>
+                  <TableCell colSpan={5}><Skeleton className="h-6 w-full" /></TableCell>
+                </TableRow>
+              ))}
+              {isError && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-gray-500 py-8">
+                    Não foi possível carregar suas verificações.
+                  </TableCell>
+                </TableRow>
+              )}
+              {data && data.items.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-gray-500 py-8">
+                    Você ainda não fez verificações com esta conta. <Link to="/" className="text-blue-600 hover:underline">Verificar um texto</Link>
+                  </TableCell>
+                </TableRow>
+              )}
+              {data?.items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="max-w-md">
+                    <p className="line-clamp-2 text-gray-800">{item.inputText}</p>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <StatusIcon status={item.status} className="w-4 h-4" />
+                      <span className="text-sm">{getStatusText(item.status)}</span>
+                      {item.reviewed && <UserCheck className="w-4 h-4 text-blue-600" aria-label="Revisado por checador" />}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={getConfidenceColor(item.confidence)}>{item.confidence}%</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-500 whitespace-nowrap">
+                    {format(new Date(item.lastSubmittedAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+                    {item.submissionCount > 1 && ` (${item.submissionCount}x)`}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="icon" asChild>
+                        <Link to={getPermalinkPath(item.factCheckId)} aria-label="Abrir verificação">
+                          <ExternalLink className="w-4 h-4" />
+                        </Link>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removal.mutate(item.id)}
+                        disabled={removal.isPending}
+                        aria-label="Remover da minha lista"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+
+        {totalPages > 1 && (
+          <div className="mt-4 flex items-center justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Anterior
+            </Button>
+            <span className="text-sm text-gray-600">Página {page} de {totalPages}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              Próxima
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyChecks;
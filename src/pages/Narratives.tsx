@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowRight, TrendingUp } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import SiteNav from '@/components/SiteNav';
+import StatusIcon from '@/components/StatusIcon';
+import { getPermalinkPath } from '@/lib/share';
+import { getStatusText } from '@/lib/verdict';
+import type { VerdictStatus } from '@/services/fakeNewsDetector';
+import {
+  listTrendingNarratives,
+  NARRATIVE_PERIOD_LABELS,
+  type Narrative,
+  type NarrativePeriod,
+} from '@/services/narratives';
+
+const VERDICT_BAR_COLORS: Record<VerdictStatus, string> = {
+  fake: 'bg-red-500',
+  uncertain: 'bg-yellow-400',
+  real: 'bg-green-500',
+};
+
+const VERDICT_LABELS: Record<VerdictStatus, string> = {
+  fake: 'Falso',
+  uncertain: 'Incerto',
+  real: 'Verdadeiro',
+};
+
+const formatRelative = (date: string) => formatDistanceToNow(new Date(date), { addSuffix: true, locale: ptBR });
+
+// How the checks in a narrative were judged, as a stacked bar
+const VerdictBar = ({ counts }: { counts: Narrative['verdictCounts'] }) => {
+  const total = counts.real + counts.fake + counts.uncertain;
+  const statuses = (Object.keys(VERDICT_BAR_COLORS) as VerdictStatus[]).filter((status) => counts[status] > 0);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-gray-100">
+        {statuses.map((status) => (
+          <div
+            key={status}
+            className={VERDICT_BAR_COLORS[status]}
+            style={{ width: `${(counts[status] / total) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex gap-3 text-xs text-gray-500">
+        {statuses.map((status) => (
+          <span key={status} className="flex items-center gap-1">
+            <span className={`inline-block w-2 h-2 rounded-full ${VERDICT_BAR_COLORS[status]}`} />
+            {VERDICT_LABELS[status]}: {counts[status]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const NarrativeCard = ({ narrative }: { narrative: Narrative }) => (
+  <Card className="shadow-sm">
+    <CardContent className="p-5 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-gray-800 line-clamp-3">"{narrative.canonicalClaim}"</p>
+        <Badge variant="outline" className="shrink-0 flex items-center gap-1">
+          <StatusIcon status={narrative.status} className="w-3 h-3" />
+          {getStatusText(narrative.status)}
+        </Badge>
+      </div>
+
+      <VerdictBar counts={narrative.verdictCounts} />
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-500">
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          <span>
+            <strong className="text-gray-900">{narrative.recentSubmissions}</strong> envios no período
+          </span>
+          <span>{narrative.submissionCount} envios no total</span>
+          <span>{narrative.memberCount} {narrative.memberCount === 1 ? 'variação' : 'variações'}</span>
+          <span>Visto pela primeira vez {formatRelative(narrative.firstSeenAt)}</span>
+          <span>Último envio {formatRelative(narrative.lastSeenAt)}</span>
+        </div>
+        {narrative.canonicalCheckId && (
+          <Link
+            to={getPermalinkPath(narrative.canonicalCheckId)}
+            className="flex items-center text-blue-600 hover:underline"
+          >
+            Ver verificação
+            <ArrowRight className="w-4 h-4 ml-1" />
+          </Link>
+        )}
+      </div>
+    </CardContent>
+  </Card>
+);
+
+const Narratives = () => {
+  const [period, setPeriod] = useState<NarrativePeriod>('7d');
+  const [onlyFake, setOnlyFake] = useState(false);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['trending-narratives', period, onlyFake],
+    queryFn: () => listTrendingNarratives(period, onlyFake ? 'fake' : 'all'),
+    placeholderData: keepPreviousData,
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <SiteNav />
+
+        <div className="flex items-center mb-6">
+          <TrendingUp className="w-8 h-8 text-blue-600 mr-3" />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Narrativas em circulação</h1>
+            <p className="text-gray-500">
+              Mensagens semelhantes enviadas para verificação, agrupadas pelo mesmo boato
+            </p>
+          </div>
+        </div>
+
+        <Card className="mb-6 shadow-sm">
+          <CardContent className="p-4 flex flex-wrap items-end justify-between gap-4">
+            <div className="space-y-1 w-56">
+              <Label>Período</Label>
+              <Select value={period} onValueChange={(value) => setPeriod(value as NarrativePeriod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(NARRATIVE_PERIOD_LABELS) as NarrativePeriod[]).map((value) => (
+                    <SelectItem key={value} value={value}>{NARRATIVE_PERIOD_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="narratives-only-fake" checked={onlyFake} onCheckedChange={setOnlyFake} />
+              <Label htmlFor="narratives-only-fake">Somente possíveis fake news</Label>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4">
+          {isLoading && Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-36 w-full" />
+          ))}
+          {isError && (
+            <p className="text-center text-red-600 py-8">
+              Não foi possível carregar as narrativas. Tente novamente mais tarde.
+            </p>
+          )}
+          {data && data.length === 0 && (
+            <p className="text-center text-gray-500 py-8">
+              Nenhuma narrativa com envios neste período.
+            </p>
+          )}
+          {data?.map((narrative) => (
+            <NarrativeCard key={narrative.id} narrative={narrative} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Narratives;
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ClipboardCheck, Flag, Globe, LogOut, ShieldAlert } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import SiteNav from '@/components/SiteNav';
+import StatusIcon from '@/components/StatusIcon';
+import SignInForm from '@/components/SignInForm';
+import ReviewPanel from '@/components/ReviewPanel';
+import { useAuth } from '@/hooks/use-auth';
+import { supabase } from '@/integrations/supabase/client';
+import { getConfidenceColor, getStatusText } from '@/lib/verdict';
+import { getReviewDetail, isCurrentUserReviewer, listReviewQueue } from '@/services/reviews';
+
+const PAGE_SIZE = 20;
+
+// Reviewer console: checks flagged by readers or with low confidence,
+// awaiting an editorial decision
+const Review = () => {
+  const { session, user, isLoading: isLoadingSession } = useAuth();
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: isReviewer, isLoading: isLoadingRole } = useQuery({
+    queryKey: ['is-reviewer', user?.id],
+    queryFn: isCurrentUserReviewer,
+    enabled: Boolean(session),
+  });
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['review-queue', page],
+    queryFn: () => listReviewQueue(page, PAGE_SIZE),
+    enabled: Boolean(isReviewer),
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: detail, isLoading: isLoadingDetail } = useQuery({
+    queryKey: ['review-detail', selectedId],
+    queryFn: () => getReviewDetail(selectedId as string),
+    enabled: selectedId !== null,
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  const renderGate = () => {
+    if (isLoadingSession || (session && isLoadingRole)) {
+      return <Skeleton className="h-40 w-full" />;
+    }
+
+    if (!session) {
+      return (
+        <Card className="max-w-md mx-auto shadow-sm">
+          <CardHeader>
+            <CardTitle>Acesso da equipe de checagem</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SignInForm />
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (!isReviewer) {
+      return (
+        <Card className="max-w-md mx-auto shadow-sm">
+          <CardContent className="p-6 text-center space-y-4">
+            <ShieldAlert className="w-10 h-10 text-amber-500 mx-auto" />
+            <p className="text-gray-700">
+              Sua conta ({user?.email}) não tem permissão de revisão.
+            </p>
+            <Button variant="outline" onClick={() => supabase.auth.signOut()}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sair
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return null;
+  };
+
+  const gate = renderGate();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <SiteNav />
+
+        <div className="flex items-center mb-6">
+          <ClipboardCheck className="w-8 h-8 text-blue-600 mr-3" />
+          <div className="mr-auto">
+            <h1 className="text-3xl font-bold text-gray-900">Fila de revisão</h1>
+            <p className="text-gray-500">
+              {data ? `${data.total} verificações aguardando revisão` : 'Verificações contestadas ou com baixa confiança'}
+            </p>
+          </div>
+          {session && isReviewer && (
+            <Button variant="outline" size="sm" className="mr-2" asChild>
+              <Link to="/fontes">
+                <Globe className="w-4 h-4 mr-1" />
+                Cadastro de fontes
+              </Link>
+            </Button>
+          )}
+          {session && isReviewer && (
+            <Button variant="ghost" size="sm" onClick={() => supabase.auth.signOut()}>
+              <LogOut className="w-4 h-4 mr-1" />
+              Sair
+            </Button>
+          )}
+        </div>
+
+        {gate ?? (
+          <>
+            <Card className="shadow-sm">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Texto</TableHead>
+                    <TableHead>Resultado do modelo</TableHead>
+                    <TableHead>Confiança</TableHead>
+                    <TableHead>Avaliações</TableHead>
+                    <TableHead>Data</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading && Array.from({ length: 5 }).map((_, index) => (
+                    <TableRow key={index}>
+                      <TableCell colSpan={5}><Skeleton className="h-6 w-full" /></TableCell>
+                    </TableRow>
+                  ))}
+                  {isError && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-gray-500 py-8">
+                        Não foi possível carregar a fila de revisão.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {data && data.items.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-gray-500 py-8">
+                        Nenhuma verificação aguardando revisão.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {data?.items.map((item) => (
+                    <TableRow
+                      key={item.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedId(item.id)}
+                    >
+                      <TableCell className="max-w-md">
+                        <p className="line-clamp-2 text-gray-800">{item.inputText}</p>
+                        {item.flaggedAt && (
+                          <Badge variant="destructive" className="mt-1">
+                            <Flag className="w-3 h-3 mr-1" />
+                            Contestada pelos leitores
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <StatusIcon status={item.status} className="w-4 h-4" />
+                          <span className="text-sm">{getStatusText(item.status)}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getConfidenceColor(item.confidence)}>{item.confidence}%</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600 whitespace-nowrap">
+                        👍 {item.upvotes} · 👎 {item.downvotes}
+                        {item.counterSources > 0 && ` · ${item.counterSources} fontes`}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-500 whitespace-nowrap">
+                        {format(new Date(item.createdAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+
+            {totalPages > 1 && (
+              <div className="mt-4 flex items-center justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  Anterior
+                </Button>
+                <span className="text-sm text-gray-600">Página {page} de {totalPages}</span>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                  Próxima
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Revisar verificação</DialogTitle>
+            </DialogHeader>
+            {isLoadingDetail && <Skeleton className="h-40 w-full" />}
+            {detail && <ReviewPanel key={detail.check.id} detail={detail} onSaved={() => setSelectedId(null)} />}
+            {!isLoadingDetail && selectedId && detail === null && (
+              <p className="text-gray-500">Verificação não encontrada.</p>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+};
+
+export default Review;
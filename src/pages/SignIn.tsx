@@ -0,0 +1,40 @@
+import { Navigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import SiteNav from '@/components/SiteNav';
+import MagicLinkForm from '@/components/MagicLinkForm';
+import { useAuth } from '@/hooks/use-auth';
+
+const SignIn = () => {
+  const { session, isLoading } = useAuth();
+
+  if (session) {
+    return <Navigate to="/minhas-verificacoes" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <SiteNav />
+
+        {isLoading ? (
+          <Skeleton className="h-48 max-w-md mx-auto" />
+        ) : (
+          <Card className="max-w-md mx-auto shadow-lg border-0 bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle>Entrar</CardTitle>
+              <CardDescription>
+                Entre para guardar as verificações que você fizer e consultá-las depois. Não é preciso criar senha.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MagicLinkForm />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SignIn;
@@ -0,0 +1,383 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Globe, LogOut, Pencil, Plus, Search, ShieldAlert, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import SiteNav from '@/components/SiteNav';
+import SignInForm from '@/components/SignInForm';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { isCurrentUserReviewer } from '@/services/reviews';
+import {
+  CREDIBILITY_TIER_LABELS,
+  deleteSourceDomain,
+  getTierColor,
+  listSourceDomains,
+  normalizeDomain,
+  saveSourceDomain,
+  SOURCE_TYPE_LABELS,
+  type SourceDomain,
+  type SourceDomainInput,
+} from '@/services/sourceDomains';
+import type { CredibilityTier, SourceType } from '@/services/fakeNewsDetector';
+
+const EMPTY_FORM: SourceDomainInput = {
+  domain: '',
+  name: '',
+  tier: 'medium',
+  sourceType: 'press',
+  ownershipNotes: null,
+};
+
+// Registry of source domains and their credibility tiers, maintained by the
+// fact-checking team. The edge function tags each cited source with its
+// domain's tier and weighs it into the verdict confidence.
+const SourceDomains = () => {
+  const { session, user, isLoading: isLoadingSession } = useAuth();
+  const [search, setSearch] = useState('');
+  const [form, setForm] = useState<SourceDomainInput | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<SourceDomain | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: isReviewer, isLoading: isLoadingRole } = useQuery({
+    queryKey: ['is-reviewer', user?.id],
+    queryFn: isCurrentUserReviewer,
+    enabled: Boolean(session),
+  });
+
+  const { data: domains, isLoading, isError } = useQuery({
+    queryKey: ['source-domains'],
+    queryFn: listSourceDomains,
+    enabled: Boolean(isReviewer),
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Erro",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: saveSourceDomain,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['source-domains'] });
+      toast({
+        title: "Domínio salvo",
+        description: "As próximas verificações já usam a nova classificação.",
+      });
+      setForm(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteSourceDomain,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['source-domains'] });
+      setPendingDelete(null);
+    },
+    onError,
+  });
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!domains || !term) return domains ?? [];
+    return domains.filter((entry) =>
+      entry.domain.includes(term) || entry.name.toLowerCase().includes(term)
+    );
+  }, [domains, search]);
+
+  const handleSave = () => {
+    if (!form) return;
+
+    const domain = normalizeDomain(form.domain);
+    const problem = !domain
+      ? 'Informe um domínio válido, como exemplo.com.br.'
+      : !form.name.trim()
+        ? 'Informe o nome da fonte.'
+        : null;
+
+    if (problem) {
+      toast({ title: "Cadastro incompleto", description: problem, variant: "destructive" });
+      return;
+    }
+
+    saveMutation.mutate({
+      ...form,
+      domain: domain as string,
+      name: form.name.trim(),
+      ownershipNotes: form.ownershipNotes?.trim() || null,
+    });
+  };
+
+  const renderGate = () => {
+    if (isLoadingSession || (session && isLoadingRole)) {
+      return <Skeleton className="h-40 w-full" />;
+    }
+
+    if (!session) {
+      return (
+        <Card className="max-w-md mx-auto shadow-sm">
+          <CardHeader>
+            <CardTitle>Acesso da equipe de checagem</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SignInForm />
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (!isReviewer) {
+      return (
+        <Card className="max-w-md mx-auto shadow-sm">
+          <CardContent className="p-6 text-center space-y-4">
+            <ShieldAlert className="w-10 h-10 text-amber-500 mx-auto" />
+            <p className="text-gray-700">
+              Sua conta ({user?.email}) não tem permissão para editar o cadastro de fontes.
+            </p>
+            <Button variant="outline" onClick={() => supabase.auth.signOut()}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sair
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return null;
+  };
+
+  const gate = renderGate();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <SiteNav />
+
+        <div className="flex items-center mb-6">
+          <Globe className="w-8 h-8 text-blue-600 mr-3" />
+          <div className="mr-auto">
+            <h1 className="text-3xl font-bold text-gray-900">Cadastro de fontes</h1>
+            <p className="text-gray-500">
+              {domains ? `${domains.length} domínios cadastrados` : 'Credibilidade dos domínios citados nas verificações'}
+            </p>
+          </div>
+          {session && isReviewer && (
+            <Button onClick={() => setForm(EMPTY_FORM)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Novo domínio
+            </Button>
+          )}
+        </div>
+
+        {gate ?? (
+          <>
+            <div className="relative mb-4 max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <Input
+                placeholder="Buscar por domínio ou nome"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+
+            <Card className="shadow-sm">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Domínio</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Credibilidade</TableHead>
+                    <TableHead>Propriedade</TableHead>
+                    <TableHead>Atualizado</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading && Array.from({ length: 5 }).map((_, index) => (
+                    <TableRow key={index}>
+                      <TableCell colSpan={6}><Skeleton className="h-6 w-full" /></TableCell>
+                    </TableRow>
+                  ))}
+                  {isError && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                        Não foi possível carregar o cadastro de fontes.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {domains && filtered.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                        Nenhum domínio encontrado.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {filtered.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <p className="font-medium text-gray-900">{entry.domain}</p>
+                        <p className="text-sm text-gray-500">{entry.name}</p>
+                      </TableCell>
+                      <TableCell className="text-sm">{SOURCE_TYPE_LABELS[entry.sourceType]}</TableCell>
+                      <TableCell>
+                        <Badge className={getTierColor(entry.tier)}>{CREDIBILITY_TIER_LABELS[entry.tier]}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-xs text-sm text-gray-600">
+                        <p className="line-clamp-2">{entry.ownershipNotes ?? '—'}</p>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-500 whitespace-nowrap">
+                        {format(new Date(entry.updatedAt), 'dd/MM/yyyy', { locale: ptBR })}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Editar"
+                          onClick={() => setForm({
+                            id: entry.id,
+                            domain: entry.domain,
+                            name: entry.name,
+                            tier: entry.tier,
+                            sourceType: entry.sourceType,
+                            ownershipNotes: entry.ownershipNotes,
+                          })}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" aria-label="Remover" onClick={() => setPendingDelete(entry)}>
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          </>
+        )}
+
+        <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{form?.id ? 'Editar domínio' : 'Novo domínio'}</DialogTitle>
+            </DialogHeader>
+            {form && (
+              <div className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="domain-domain">Domínio</Label>
+                    <Input
+                      id="domain-domain"
+                      placeholder="exemplo.com.br"
+                      value={form.domain}
+                      onChange={(e) => setForm({ ...form, domain: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="domain-name">Nome</Label>
+                    <Input
+                      id="domain-name"
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Tipo</Label>
+                    <Select value={form.sourceType} onValueChange={(value) => setForm({ ...form, sourceType: value as SourceType })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SOURCE_TYPE_LABELS) as SourceType[]).map((option) => (
+                          <SelectItem key={option} value={option}>{SOURCE_TYPE_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Credibilidade</Label>
+                    <Select value={form.tier} onValueChange={(value) => setForm({ ...form, tier: value as CredibilityTier })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(CREDIBILITY_TIER_LABELS) as CredibilityTier[]).map((option) => (
+                          <SelectItem key={option} value={option}>{CREDIBILITY_TIER_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="domain-notes">Notas sobre propriedade</Label>
+                  <Textarea
+                    id="domain-notes"
+                    placeholder="Grupo controlador, financiamento, conflitos de interesse conhecidos"
+                    value={form.ownershipNotes ?? ''}
+                    onChange={(e) => setForm({ ...form, ownershipNotes: e.target.value })}
+                    maxLength={1000}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setForm(null)}>Cancelar</Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Remover {pendingDelete?.domain}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                As fontes deste domínio passam a ser tratadas como não classificadas nas próximas verificações.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                Remover
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+};
+
+export default SourceDomains;
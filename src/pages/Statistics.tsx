@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { BarChart3 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import SiteNav from '@/components/SiteNav';
+import { getStatusText } from '@/lib/verdict';
+import { CREDIBILITY_TIER_LABELS } from '@/services/sourceDomains';
+import {
+  getCheckStatistics,
+  STATISTICS_PERIOD_LABELS,
+  type StatisticsPeriod,
+} from '@/services/statistics';
+
+const VERDICT_COLORS = {
+  real: '#16a34a',
+  fake: '#dc2626',
+  uncertain: '#eab308',
+};
+
+const volumeConfig = {
+  submissions: { label: 'Pedidos de verificação', color: '#2563eb' },
+  checks: { label: 'Novas verificações', color: '#7c3aed' },
+} satisfies ChartConfig;
+
+const verdictConfig = {
+  real: { label: 'Verdadeiro', color: VERDICT_COLORS.real },
+  fake: { label: 'Falso', color: VERDICT_COLORS.fake },
+  uncertain: { label: 'Incerto', color: VERDICT_COLORS.uncertain },
+} satisfies ChartConfig;
+
+const confidenceConfig = {
+  averageConfidence: { label: 'Confiança média (%)', color: '#2563eb' },
+} satisfies ChartConfig;
+
+const domainsConfig = {
+  citations: { label: 'Citações', color: '#2563eb' },
+} satisfies ChartConfig;
+
+const formatDay = (day: string) => format(parseISO(day), 'dd/MM', { locale: ptBR });
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${(value * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`;
+
+const SummaryCard = ({ label, value, hint }: { label: string; value: string; hint: string }) => (
+  <Card className="shadow-sm">
+    <CardContent className="p-4">
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="text-2xl font-bold text-gray-900">{value}</p>
+      <p className="text-xs text-gray-400 mt-1">{hint}</p>
+    </CardContent>
+  </Card>
+);
+
+const ChartCard = ({ title, description, children }: { title: string; description: string; children: React.ReactNode }) => (
+  <Card className="shadow-sm">
+    <CardHeader>
+      <CardTitle className="text-lg">{title}</CardTitle>
+      <CardDescription>{description}</CardDescription>
+    </CardHeader>
+    <CardContent>{children}</CardContent>
+  </Card>
+);
+
+const Statistics = () => {
+  const [period, setPeriod] = useState<StatisticsPeriod>(30);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['check-statistics', period],
+    queryFn: () => getCheckStatistics(period),
+    placeholderData: keepPreviousData,
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <SiteNav />
+
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+          <div className="flex items-center">
+            <BarChart3 className="w-8 h-8 text-blue-600 mr-3" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Estatísticas</h1>
+              <p className="text-gray-500">Como o detector tem sido usado e o que ele tem concluído</p>
+            </div>
+          </div>
+          <div className="space-y-1 w-56">
+            <Label>Período</Label>
+            <Select value={String(period)} onValueChange={(value) => setPeriod(Number(value) as StatisticsPeriod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(STATISTICS_PERIOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading && (
+          <div className="grid gap-4 md:grid-cols-2">
+            {Array.from({ length: 4 }).map((_, index) => (
+              <Skeleton key={index} className="h-72 w-full" />
+            ))}
+          </div>
+        )}
+
+        {isError && (
+          <p className="text-center text-red-600 py-8">
+            Não foi possível carregar as estatísticas. Tente novamente mais tarde.
+          </p>
+        )}
+
+        {data && (
+          <div className="space-y-6">
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+              <SummaryCard
+                label="Pedidos de verificação"
+                value={data.totals.submissions.toLocaleString('pt-BR')}
+                hint="Inclui respostas servidas do cache"
+              />
+              <SummaryCard
+                label="Novas verificações"
+                value={data.totals.checks.toLocaleString('pt-BR')}
+                hint="Textos verificados pela primeira vez"
+              />
+              <SummaryCard
+                label="Taxa de acerto do cache"
+                value={formatPercent(data.totals.cacheHitRatio)}
+                hint="Pedidos respondidos com uma verificação já feita"
+              />
+              <SummaryCard
+                label="Taxa de falha do modelo"
+                value={formatPercent(data.totals.fallbackRate)}
+                hint="Verificações que caíram na resposta de contingência"
+              />
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <ChartCard title="Verificações por dia" description="Pedidos recebidos e textos verificados pela primeira vez">
+                <ChartContainer config={volumeConfig} className="h-64 w-full aspect-auto">
+                  <LineChart data={data.daily}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="submissions" type="monotone" stroke="var(--color-submissions)" strokeWidth={2} dot={false} />
+                    <Line dataKey="checks" type="monotone" stroke="var(--color-checks)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </ChartCard>
+
+              <ChartCard title="Resultados ao longo do tempo" description="Veredito das novas verificações; revisões de checadores prevalecem">
+                <ChartContainer config={verdictConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={data.daily}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="fake" stackId="verdict" fill="var(--color-fake)" />
+                    <Bar dataKey="uncertain" stackId="verdict" fill="var(--color-uncertain)" />
+                    <Bar dataKey="real" stackId="verdict" fill="var(--color-real)" />
+                  </BarChart>
+                </ChartContainer>
+              </ChartCard>
+
+              <ChartCard title="Confiança média por resultado" description="Confiança informada pelo modelo, sem revisões">
+                {data.confidenceByStatus.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8">Nenhuma verificação no período.</p>
+                ) : (
+                  <ChartContainer config={confidenceConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={data.confidenceByStatus}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="status" tickFormatter={getStatusText} tickLine={false} axisLine={false} />
+                      <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent labelFormatter={getStatusText} />} />
+                      <Bar dataKey="averageConfidence" radius={4}>
+                        {data.confidenceByStatus.map((item) => (
+                          <Cell key={item.status} fill={VERDICT_COLORS[item.status]} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </ChartCard>
+
+              <ChartCard title="Domínios mais citados" description="Fontes mais usadas nas justificativas do período">
+                {data.topDomains.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8">Nenhuma fonte citada no período.</p>
+                ) : (
+                  <ChartContainer config={domainsConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={data.topDomains} layout="vertical" margin={{ left: 8 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="domain" tickLine={false} axisLine={false} width={140} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={(domain: string) => {
+                              const entry = data.topDomains.find((item) => item.domain === domain);
+                              return entry?.tier ? `${domain} · ${CREDIBILITY_TIER_LABELS[entry.tier]}` : domain;
+                            }}
+                          />
+                        }
+                      />
+                      <Bar dataKey="citations" fill="var(--color-citations)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </ChartCard>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Statistics;
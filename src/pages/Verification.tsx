@@ -0,0 +1,104 @@
+import { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Search } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import SiteNav from '@/components/SiteNav';
+import ShareButton from '@/components/ShareButton';
+import FactCheckDetail from '@/components/FactCheckDetail';
+import VerdictFeedback from '@/components/VerdictFeedback';
+import { usePageMeta } from '@/hooks/use-page-meta';
+import { getStatusText } from '@/lib/verdict';
+import { getFactCheck } from '@/services/factChecks';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Public, read-only permalink for a stored verification
+const Verification = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const isValidId = UUID_PATTERN.test(id);
+
+  const { data: check, isLoading, isError } = useQuery({
+    queryKey: ['fact-check', id],
+    queryFn: () => getFactCheck(id),
+    enabled: isValidId,
+  });
+
+  const meta = useMemo(() => check ? {
+    title: `${getStatusText(check.result.status)} (${check.result.confidence}%) | Detector de Fake News`,
+    description: check.result.justification.substring(0, 200),
+  } : null, [check]);
+  usePageMeta(meta);
+
+  const notFound = !isValidId || (!isLoading && !isError && !check);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <SiteNav />
+
+        <div className="flex items-center justify-between mb-6">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Verificar outro texto
+            </Link>
+          </Button>
+          {check && (
+            <ShareButton
+              id={check.id}
+              status={check.result.status}
+              confidence={check.result.confidence}
+              text={check.inputText}
+            />
+          )}
+        </div>
+
+        <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
+          <CardContent className="p-6">
+            {isValidId && isLoading && (
+              <div className="space-y-4">
+                <Skeleton className="h-10 w-1/2" />
+                <Skeleton className="h-24 w-full" />
+                <Skeleton className="h-40 w-full" />
+              </div>
+            )}
+
+            {isError && (
+              <p className="text-gray-600">
+                Não foi possível carregar a verificação. Tente novamente em alguns instantes.
+              </p>
+            )}
+
+            {notFound && (
+              <div className="text-center py-8">
+                <Search className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+                <h1 className="text-xl font-semibold text-gray-900 mb-2">Verificação não encontrada</h1>
+                <p className="text-gray-600">
+                  O link pode estar incorreto ou a verificação pode ter sido removida.
+                </p>
+              </div>
+            )}
+
+            {check && (
+              <>
+                <FactCheckDetail check={check} />
+                <VerdictFeedback factCheckId={check.id} />
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="mt-6 text-center text-sm text-gray-500">
+          <p>
+            Esta verificação foi gerada automaticamente por IA. Sempre consulte fontes oficiais antes de compartilhar informações.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Verification;
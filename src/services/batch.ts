@@ -0,0 +1,116 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { parseAnalysisResult, RateLimitError, type AnalysisResult } from '@/services/fakeNewsDetector';
+import { waitForCheckJob } from '@/services/jobs';
+import type { BatchItem } from '@/lib/batchFile';
+
+export interface BatchResult {
+  index: number;
+  item: BatchItem;
+  result: AnalysisResult | null;
+  error: string | null;
+  // Index of an earlier item with the same text whose verdict was reused
+  duplicateOf: number | null;
+}
+
+export interface BatchProgress {
+  done: number;
+  total: number;
+  // Seconds until the next chunk is sent when the rate limit was hit
+  waitingFor: number;
+}
+
+export interface BatchRunOptions {
+  chunkSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: BatchProgress, results: BatchResult[]) => void;
+}
+
+// Server-side maximum per request; larger files are sent in chunks
+export const DEFAULT_CHUNK_SIZE = 10;
+
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+async function readRetryAfter(response: Response): Promise<number> {
+  const header = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(header) && header > 0 ? Math.ceil(header) : DEFAULT_RETRY_AFTER_SECONDS;
+}
+
+const wait = (seconds: number, signal?: AbortSignal) => new Promise<void>((resolve) => {
+  const timeout = window.setTimeout(resolve, seconds * 1000);
+  signal?.addEventListener('abort', () => {
+    window.clearTimeout(timeout);
+    resolve();
+  }, { once: true });
+});
+
+// Chunks run as async jobs so slow items cannot hit the request timeout
+export const verifyBatchChunk = async (items: BatchItem[], offset = 0, signal?: AbortSignal): Promise<BatchResult[]> => {
+  const { data, error } = await supabase.functions.invoke('batch-check', { body: { items, async: true } });
+
+  if (error) {
+    console.error('Erro na verificação em lote:', error);
+
+    if (error instanceof FunctionsHttpError && error.context instanceof Response) {
+      if (error.context.status === 429) {
+        throw new RateLimitError(await readRetryAfter(error.context));
+      }
+      if (error.context.status === 401) {
+        throw new Error('Sua sessão expirou. Entre novamente para continuar.');
+      }
+    }
+
+    throw new Error('Falha temporária na verificação em lote. Tente novamente em alguns instantes.');
+  }
+
+  if (typeof data?.job_id !== 'string') {
+    throw new Error('Falha temporária na verificação em lote. Tente novamente em alguns instantes.');
+  }
+
+  const job = await waitForCheckJob(data.job_id, { signal });
+  if (job.status === 'failed') {
+    throw new Error(job.error ?? 'Falha temporária na verificação em lote. Tente novamente em alguns instantes.');
+  }
+
+  const output = job.result as { results?: unknown } | null;
+  const results: unknown[] = Array.isArray(output?.results) ? output.results : [];
+
+  return items.map((item, index) => {
+    const entry = results.find((candidate): candidate is Record<string, unknown> =>
+      Boolean(candidate) && typeof candidate === 'object' && (candidate as Record<string, unknown>).index === index
+    );
+
+    return {
+      index: offset + index,
+      item,
+      result: entry?.check && typeof entry.check === 'object' ? parseAnalysisResult(entry.check as Record<string, unknown>) : null,
+      error: typeof entry?.error === 'string' ? entry.error : entry ? null : 'Item sem resposta do servidor',
+      duplicateOf: typeof entry?.duplicate_of === 'number' ? offset + entry.duplicate_of : null,
+    };
+  });
+};
+
+// Sends the items chunk by chunk, reporting progress after each one and
+// waiting out rate limits. Resolves with whatever finished if aborted.
+export const runBatchVerification = async (items: BatchItem[], options: BatchRunOptions = {}): Promise<BatchResult[]> => {
+  const { chunkSize = DEFAULT_CHUNK_SIZE, signal, onProgress } = options;
+  const results: BatchResult[] = [];
+
+  for (let offset = 0; offset < items.length && !signal?.aborted;) {
+    const chunk = items.slice(offset, offset + chunkSize);
+
+    try {
+      results.push(...await verifyBatchChunk(chunk, offset, signal));
+      offset += chunk.length;
+      onProgress?.({ done: results.length, total: items.length, waitingFor: 0 }, [...results]);
+    } catch (error) {
+      if (signal?.aborted) break;
+      if (!(error instanceof RateLimitError)) throw error;
+
+      onProgress?.({ done: results.length, total: items.length, waitingFor: error.retryAfter }, [...results]);
+      await wait(error.retryAfter, signal);
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,141 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { parseAnalysisResult, type AnalysisResult, type VerdictStatus } from '@/services/fakeNewsDetector';
+
+export interface FactCheckFilters {
+  status: VerdictStatus | 'all';
+  minConfidence: number;
+  maxConfidence: number;
+  // Inclusive calendar dates, yyyy-MM-dd
+  from?: string;
+  to?: string;
+  search?: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface FactCheckSummary {
+  id: string;
+  inputText: string;
+  status: VerdictStatus;
+  confidence: number;
+  topic: string | null;
+  createdAt: string;
+  reviewed: boolean;
+}
+
+export interface StoredFactCheck {
+  id: string;
+  inputText: string;
+  topic: string | null;
+  createdAt: string;
+  verifiedAt: string;
+  expiresAt: string | null;
+  result: AnalysisResult;
+}
+
+const SUMMARY_COLUMNS = 'id, input_text, status, confidence, topic, created_at, verdict_overrides(status, confidence)';
+
+// Escape LIKE wildcards so user input is matched literally
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString();
+}
+
+// A reviewer's override replaces the model verdict; overridden checks drop
+// the per-claim model verdicts, which may contradict it
+export function toStoredFactCheck(row: Tables<'fact_checks'>, override: Tables<'verdict_overrides'> | null = null): StoredFactCheck {
+  const verdict = override
+    ? {
+        ...row,
+        status: override.status,
+        confidence: override.confidence,
+        justification: override.justification,
+        sources: override.sources,
+        claims: override.action === 'confirmed' ? row.claims : [],
+        reviewed: true,
+        review_action: override.action,
+        checked_at: override.updated_at,
+      }
+    : { ...row, checked_at: row.verified_at };
+
+  return {
+    id: row.id,
+    inputText: row.input_text,
+    topic: row.topic,
+    createdAt: row.created_at,
+    verifiedAt: override?.updated_at ?? row.verified_at,
+    expiresAt: row.expires_at,
+    result: parseAnalysisResult(verdict),
+  };
+}
+
+export const listFactChecks = async (filters: FactCheckFilters): Promise<{ items: FactCheckSummary[]; total: number }> => {
+  const from = (filters.page - 1) * filters.pageSize;
+
+  let query = supabase
+    .from('fact_checks')
+    .select(SUMMARY_COLUMNS, { count: 'exact' })
+    .gte('confidence', filters.minConfidence)
+    .lte('confidence', filters.maxConfidence)
+    .order('created_at', { ascending: false })
+    .range(from, from + filters.pageSize - 1);
+
+  if (filters.status !== 'all') {
+    query = query.eq('status', filters.status);
+  }
+  if (filters.from) {
+    query = query.gte('created_at', `${filters.from}T00:00:00Z`);
+  }
+  if (filters.to) {
+    query = query.lt('created_at', nextDay(filters.to));
+  }
+  if (filters.search?.trim()) {
+    query = query.ilike('input_text', `%${escapeLike(filters.search.trim())}%`);
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    console.error('Erro ao carregar histórico:', error);
+    throw new Error('Não foi possível carregar o histórico de verificações.');
+  }
+
+  return {
+    // Reviewed checks show the reviewer's verdict; filters still apply to
+    // the model verdict stored on the row
+    items: (data || []).map(({ verdict_overrides: override, ...row }) => ({
+      id: row.id,
+      inputText: row.input_text,
+      status: parseAnalysisResult(override ?? row).status,
+      confidence: override?.confidence ?? row.confidence,
+      topic: row.topic,
+      createdAt: row.created_at,
+      reviewed: Boolean(override),
+    })),
+    total: count ?? 0,
+  };
+};
+
+export const getFactCheck = async (id: string): Promise<StoredFactCheck | null> => {
+  const { data, error } = await supabase
+    .from('fact_checks')
+    .select('*, verdict_overrides(*)')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Erro ao carregar verificação:', error);
+    throw new Error('Não foi possível carregar a verificação.');
+  }
+
+  if (!data) return null;
+
+  const { verdict_overrides: override, ...row } = data;
+  return toStoredFactCheck(row, override);
+};
@@ -1,16 +1,124 @@
 
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { readServerSentEvents } from '@/lib/sse';
 
-interface AnalysisResult {
-  status: 'real' | 'fake' | 'uncertain';
+export type VerdictStatus = 'real' | 'fake' | 'uncertain';
+
+export type SourceCheckFailure = 'invalid_url' | 'blocked_domain' | 'unreachable' | 'http_error' | 'content_mismatch';
+
+export type CredibilityTier = 'high' | 'medium' | 'low' | 'unreliable';
+
+export type SourceType = 'official' | 'press' | 'academic' | 'fact_checker' | 'social' | 'other';
+
+export interface Source {
+  title: string;
+  url: string;
+  summary: string;
+  // Result of the server-side link check; undefined for unchecked sources
+  verified?: boolean;
+  httpStatus?: number | null;
+  checkFailure?: SourceCheckFailure | null;
+  // From the source domain registry; null for domains not registered
+  tier?: CredibilityTier | null;
+  sourceType?: SourceType | null;
+}
+
+export interface ClaimResult {
+  claim: string;
+  start: number | null;
+  end: number | null;
+  status: VerdictStatus;
+  confidence: number;
+  justification: string;
+  sources: Source[];
+}
+
+export interface ArticleMetadata {
+  url: string;
+  title: string | null;
+  byline: string | null;
+  publishedAt: string | null;
+  siteName: string | null;
+}
+
+export type ReviewAction = 'confirmed' | 'overridden';
+
+// Earlier submission saying the same thing in other words, whose verdict
+// was reused
+export interface SimilarCheck {
+  id: string;
+  inputText: string;
+  similarity: number;
+}
+
+export interface AnalysisResult {
+  // fact_checks row id; absent when the result could not be stored
+  id?: string;
+  status: VerdictStatus;
   confidence: number;
   justification: string;
-  sources?: Array<{
-    title: string;
-    url: string;
-    summary: string;
-  }>;
+  sources?: Source[];
+  claims?: ClaimResult[];
+  article?: ArticleMetadata | null;
   cached?: boolean;
+  stale?: boolean;
+  // Set when a fact-checker confirmed or replaced the model verdict
+  reviewed?: boolean;
+  reviewAction?: ReviewAction;
+  checkedAt?: string;
+  similarTo?: SimilarCheck;
+}
+
+// Verification steps streamed by the fact-check function while it works
+export type AnalysisProgress =
+  | { type: 'claims_extracted'; claims: Array<{ claim: string; start: number | null; end: number | null }> }
+  | { type: 'searching_sources'; claimIndex: number; claim: string }
+  | { type: 'sources_found'; claimIndex: number; sources: Array<{ title: string; url: string }> }
+  | { type: 'justification_delta'; claimIndex: number; text: string }
+  | { type: 'claim_verified'; claimIndex: number; claim: ClaimResult }
+  | { type: 'verdict_drafted'; status: VerdictStatus; confidence: number; justification: string };
+
+export interface AnalyzeOptions {
+  // Skip the cache and re-verify with the model
+  refresh?: boolean;
+  // Called for each step while the verification runs; the result still
+  // arrives through the returned promise
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+const VERDICT_STATUSES: VerdictStatus[] = ['real', 'fake', 'uncertain'];
+
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+// Thrown instead of returning a fallback result so the UI can show a countdown
+export class RateLimitError extends Error {
+  retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super('Muitas tentativas. Aguarde um momento antes de tentar novamente.');
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Prefer the Retry-After header, then the body's retryAfter field
+async function readRetryAfter(response: Response): Promise<number> {
+  const header = Number(response.headers.get('Retry-After'));
+  if (Number.isFinite(header) && header > 0) {
+    return Math.ceil(header);
+  }
+
+  try {
+    const body = await response.json();
+    if (typeof body.retryAfter === 'number' && body.retryAfter > 0) {
+      return Math.ceil(body.retryAfter);
+    }
+  } catch {
+    // Body is not JSON; fall through to the default
+  }
+
+  return DEFAULT_RETRY_AFTER_SECONDS;
 }
 
 // Input sanitization on client side as well
@@ -26,40 +134,211 @@ function sanitizeClientInput(text: string): string {
     .substring(0, 2000); // Limit length
 }
 
-export const analyzeText = async (text: string): Promise<AnalysisResult> => {
-  if (!text || text.trim().length === 0) {
-    throw new Error('Texto não pode estar vazio');
-  }
+function sanitizeStatus(status: unknown): VerdictStatus {
+  return VERDICT_STATUSES.includes(status as VerdictStatus) ? status as VerdictStatus : 'uncertain';
+}
 
-  // Client-side input validation and sanitization
-  let cleanText: string;
+function sanitizeConfidence(confidence: unknown): number {
+  return typeof confidence === 'number' && confidence >= 0 && confidence <= 100 ? confidence : 50;
+}
+
+function sanitizeArticle(article: unknown): ArticleMetadata | null {
+  if (!article || typeof article !== 'object') return null;
+
+  const record = article as Record<string, unknown>;
+  const text = (value: unknown, max: number) => typeof value === 'string' ? value.substring(0, max) : null;
+
+  if (typeof record.url !== 'string') return null;
+
+  return {
+    url: record.url.substring(0, 2048),
+    title: text(record.title, 300),
+    byline: text(record.byline, 200),
+    publishedAt: text(record.publishedAt, 40),
+    siteName: text(record.siteName, 100)
+  };
+}
+
+// Error messages the function returns for bad links are safe to show as-is
+async function readErrorMessage(response: Response): Promise<string | null> {
   try {
-    cleanText = sanitizeClientInput(text);
-  } catch (error) {
-    throw new Error('Texto contém caracteres inválidos ou é muito longo');
+    const body = await response.json();
+    return typeof body.error === 'string' ? body.error : null;
+  } catch {
+    return null;
   }
+}
 
-  if (cleanText.length < 10) {
-    throw new Error('Texto muito curto para análise (mínimo 10 caracteres)');
+const SOURCE_CHECK_FAILURES: SourceCheckFailure[] = ['invalid_url', 'blocked_domain', 'unreachable', 'http_error', 'content_mismatch'];
+const CREDIBILITY_TIERS: CredibilityTier[] = ['high', 'medium', 'low', 'unreliable'];
+const SOURCE_TYPES: SourceType[] = ['official', 'press', 'academic', 'fact_checker', 'social', 'other'];
+
+export function sanitizeSources(sources: unknown): Source[] {
+  if (!Array.isArray(sources)) return [];
+
+  return sources
+    .filter((source): source is Record<string, unknown> => Boolean(source) && typeof source === 'object' && typeof source.url === 'string')
+    .slice(0, 5)
+    .map(source => ({
+      title: typeof source.title === 'string' ? source.title : 'Fonte não identificada',
+      url: source.url as string,
+      summary: typeof source.summary === 'string' ? source.summary : '',
+      verified: typeof source.verified === 'boolean' ? source.verified : undefined,
+      httpStatus: typeof source.http_status === 'number' ? source.http_status : null,
+      checkFailure: SOURCE_CHECK_FAILURES.includes(source.check_failure as SourceCheckFailure)
+        ? source.check_failure as SourceCheckFailure
+        : null,
+      tier: CREDIBILITY_TIERS.includes(source.tier as CredibilityTier) ? source.tier as CredibilityTier : null,
+      sourceType: SOURCE_TYPES.includes(source.source_type as SourceType) ? source.source_type as SourceType : null
+    }));
+}
+
+function sanitizeClaims(claims: unknown): ClaimResult[] {
+  if (!Array.isArray(claims)) return [];
+
+  return claims
+    .filter(claim => claim && typeof claim === 'object' && typeof claim.claim === 'string')
+    .slice(0, 5)
+    .map(claim => ({
+      claim: claim.claim.substring(0, 500),
+      start: typeof claim.start === 'number' ? claim.start : null,
+      end: typeof claim.end === 'number' ? claim.end : null,
+      status: sanitizeStatus(claim.status),
+      confidence: sanitizeConfidence(claim.confidence),
+      justification: typeof claim.justification === 'string'
+        ? claim.justification.substring(0, 1000)
+        : 'Análise não disponível',
+      sources: sanitizeSources(claim.sources)
+    }));
+}
+
+function sanitizeSimilarCheck(similar: unknown): SimilarCheck | undefined {
+  if (!similar || typeof similar !== 'object') return undefined;
+
+  const { id, input_text, similarity } = similar as Record<string, unknown>;
+  if (typeof id !== 'string' || typeof input_text !== 'string' || typeof similarity !== 'number') {
+    return undefined;
   }
+  return { id, inputText: input_text.substring(0, 500), similarity: Math.max(0, Math.min(1, similarity)) };
+}
+
+// Validate and sanitize a verification payload, whether it comes from the
+// fact-check function or straight from a stored fact_checks row
+export function parseAnalysisResult(data: Record<string, unknown>): AnalysisResult {
+  return {
+    id: typeof data.id === 'string' ? data.id : undefined,
+    status: sanitizeStatus(data.status),
+    confidence: sanitizeConfidence(data.confidence),
+    justification: typeof data.justification === 'string' 
+      ? data.justification.substring(0, 1000) 
+      : 'Análise não disponível',
+    sources: sanitizeSources(data.sources),
+    claims: sanitizeClaims(data.claims),
+    article: sanitizeArticle(data.article),
+    cached: Boolean(data.cached),
+    stale: Boolean(data.stale),
+    reviewed: Boolean(data.reviewed),
+    reviewAction: data.review_action === 'confirmed' || data.review_action === 'overridden' ? data.review_action : undefined,
+    checkedAt: typeof data.checked_at === 'string' ? data.checked_at : undefined,
+    similarTo: sanitizeSimilarCheck(data.similar_to)
+  };
+}
+
+function parseProgress(event: string, data: Record<string, unknown>): AnalysisProgress | null {
+  const claimIndex = typeof data.claim_index === 'number' ? data.claim_index : 0;
+
+  switch (event) {
+    case 'claims_extracted':
+      return { type: event, claims: sanitizeClaims(data.claims).map(({ claim, start, end }) => ({ claim, start, end })) };
+    case 'searching_sources':
+      return typeof data.claim === 'string' ? { type: event, claimIndex, claim: data.claim.substring(0, 500) } : null;
+    case 'sources_found':
+      return {
+        type: event,
+        claimIndex,
+        sources: Array.isArray(data.sources)
+          ? data.sources
+            .filter((source): source is { title: string; url: string } => typeof source?.title === 'string' && typeof source?.url === 'string')
+            .slice(0, 10)
+          : [],
+      };
+    case 'justification_delta':
+      return typeof data.text === 'string' ? { type: event, claimIndex, text: data.text } : null;
+    case 'claim_verified': {
+      const [claim] = sanitizeClaims([data.verdict]);
+      return claim ? { type: event, claimIndex, claim } : null;
+    }
+    case 'verdict_drafted':
+      return {
+        type: event,
+        status: sanitizeStatus(data.status),
+        confidence: sanitizeConfidence(data.confidence),
+        justification: typeof data.justification === 'string' ? data.justification.substring(0, 1000) : '',
+      };
+    default:
+      return null;
+  }
+}
+
+// Relays progress events until the final `done` event carrying the result
+async function readProgressStream(response: Response, onProgress: (progress: AnalysisProgress) => void): Promise<Record<string, unknown>> {
+  for await (const { event, data } of readServerSentEvents(response)) {
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      continue;
+    }
+
+    if (event === 'done') {
+      return payload;
+    }
+
+    if (event === 'error') {
+      throw new Error(typeof payload.error === 'string' ? payload.error : 'Falha na verificação');
+    }
+
+    const progress = parseProgress(event, payload);
+    if (progress) {
+      onProgress(progress);
+    }
+  }
+
+  throw new Error('Conexão encerrada antes do fim da verificação');
+}
 
+// Shared call to the fact-check function for both text and link input.
+// fallbackQuery seeds the manual search link if verification fails. With
+// onProgress the function streams its steps as server-sent events.
+async function invokeFactCheck(
+  body: Record<string, unknown>,
+  fallbackQuery: string,
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<AnalysisResult> {
   try {
-    console.log('Enviando texto para verificação (primeiros 50 chars):', cleanText.substring(0, 50) + '...');
-    
     const { data, error } = await supabase.functions.invoke('fact-check', {
-      body: { text: cleanText }
+      body: onProgress ? { ...body, stream: true } : body
     });
 
     if (error) {
       console.error('Erro na função fact-check:', error);
       
       // Handle specific error types
-      if (error.message?.includes('429')) {
-        throw new Error('Muitas tentativas. Aguarde um momento antes de tentar novamente.');
-      }
-      
-      if (error.message?.includes('413')) {
-        throw new Error('Texto muito longo para análise.');
+      if (error instanceof FunctionsHttpError && error.context instanceof Response) {
+        if (error.context.status === 429) {
+          throw new RateLimitError(await readRetryAfter(error.context));
+        }
+        
+        if (error.context.status === 413) {
+          throw new Error('Texto muito longo para análise.');
+        }
+
+        if (error.context.status === 400 || error.context.status === 422) {
+          const message = await readErrorMessage(error.context);
+          if (message) {
+            throw new Error(message);
+          }
+        }
       }
       
       throw new Error('Falha temporária na verificação. Tente novamente em alguns instantes.');
@@ -69,24 +348,20 @@ export const analyzeText = async (text: string): Promise<AnalysisResult> => {
       throw new Error('Nenhum dado retornado da verificação');
     }
 
-    console.log('Resposta recebida da verificação');
+    if (data instanceof Response && onProgress) {
+      return parseAnalysisResult(await readProgressStream(data, onProgress));
+    }
 
-    // Validate and sanitize response
-    const result: AnalysisResult = {
-      status: ['real', 'fake', 'uncertain'].includes(data.status) ? data.status : 'uncertain',
-      confidence: typeof data.confidence === 'number' && data.confidence >= 0 && data.confidence <= 100 
-        ? data.confidence : 50,
-      justification: typeof data.justification === 'string' 
-        ? data.justification.substring(0, 1000) 
-        : 'Análise não disponível',
-      sources: Array.isArray(data.sources) ? data.sources.slice(0, 5) : [],
-      cached: Boolean(data.cached)
-    };
+    console.log('Resposta recebida da verificação');
 
-    return result;
+    return parseAnalysisResult(data);
 
   } catch (error) {
-    console.error('Erro em analyzeText:', error);
+    console.error('Erro na verificação:', error);
+
+    if (error instanceof RateLimitError) {
+      throw error;
+    }
     
     // Return a user-friendly error response without exposing internal details
     const errorMessage = error.message || 'Erro desconhecido';
@@ -98,7 +373,7 @@ export const analyzeText = async (text: string): Promise<AnalysisResult> => {
       sources: [
         {
           title: "Google - Pesquisa sobre o assunto",
-          url: `https://www.google.com/search?q=${encodeURIComponent(cleanText.substring(0, 100))}`,
+          url: `https://www.google.com/search?q=${encodeURIComponent(fallbackQuery.substring(0, 100))}`,
           summary: "Faça uma pesquisa no Google para encontrar informações atualizadas sobre este assunto"
         },
         {
@@ -109,4 +384,43 @@ export const analyzeText = async (text: string): Promise<AnalysisResult> => {
       ]
     };
   }
+}
+
+export const analyzeText = async (text: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  if (!text || text.trim().length === 0) {
+    throw new Error('Texto não pode estar vazio');
+  }
+
+  // Client-side input validation and sanitization
+  let cleanText: string;
+  try {
+    cleanText = sanitizeClientInput(text);
+  } catch (error) {
+    throw new Error('Texto contém caracteres inválidos ou é muito longo');
+  }
+
+  if (cleanText.length < 10) {
+    throw new Error('Texto muito curto para análise (mínimo 10 caracteres)');
+  }
+
+  console.log('Enviando texto para verificação (primeiros 50 chars):', cleanText.substring(0, 50) + '...');
+
+  return invokeFactCheck({ text: cleanText, refresh: Boolean(options.refresh) }, cleanText, options.onProgress);
+};
+
+export const analyzeUrl = async (url: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error('Link inválido');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Informe um link começando com http:// ou https://');
+  }
+
+  console.log('Enviando link para verificação:', parsed.toString());
+
+  return invokeFactCheck({ url: parsed.toString(), refresh: Boolean(options.refresh) }, parsed.toString(), options.onProgress);
 };
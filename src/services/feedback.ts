@@ -0,0 +1,103 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export type FeedbackVote = 'up' | 'down';
+
+export interface FeedbackSummary {
+  upvotes: number;
+  downvotes: number;
+  totalVotes: number;
+  // Share of thumbs-down votes, 0-1
+  disputeRate: number;
+  counterSources: number;
+}
+
+export interface FeedbackInput {
+  factCheckId: string;
+  vote: FeedbackVote;
+  counterSourceUrl?: string;
+}
+
+const EMPTY_SUMMARY: FeedbackSummary = {
+  upvotes: 0,
+  downvotes: 0,
+  totalVotes: 0,
+  disputeRate: 0,
+  counterSources: 0,
+};
+
+const count = (value: unknown) => typeof value === 'number' && value >= 0 ? value : 0;
+
+function toFeedbackSummary(data: Record<string, unknown> | null): FeedbackSummary {
+  if (!data) return EMPTY_SUMMARY;
+
+  return {
+    upvotes: count(data.upvotes),
+    downvotes: count(data.downvotes),
+    totalVotes: count(data.total_votes),
+    disputeRate: Math.min(1, count(Number(data.dispute_rate))),
+    counterSources: count(data.counter_sources),
+  };
+}
+
+async function readErrorMessage(response: Response): Promise<string | null> {
+  try {
+    const body = await response.json();
+    return typeof body.error === 'string' ? body.error : null;
+  } catch {
+    return null;
+  }
+}
+
+export const getFeedbackSummary = async (factCheckId: string): Promise<FeedbackSummary> => {
+  const { data, error } = await supabase
+    .from('verdict_feedback_summary')
+    .select('*')
+    .eq('fact_check_id', factCheckId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Erro ao carregar avaliações:', error);
+    throw new Error('Não foi possível carregar as avaliações.');
+  }
+
+  return toFeedbackSummary(data);
+};
+
+export const submitFeedback = async (input: FeedbackInput): Promise<FeedbackSummary> => {
+  const counterSourceUrl = input.counterSourceUrl?.trim() || null;
+
+  if (counterSourceUrl) {
+    try {
+      const parsed = new URL(counterSourceUrl);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error('Invalid protocol');
+      }
+    } catch {
+      throw new Error('Informe um link começando com http:// ou https://');
+    }
+  }
+
+  const { data, error } = await supabase.functions.invoke('feedback', {
+    body: {
+      fact_check_id: input.factCheckId,
+      vote: input.vote,
+      counter_source_url: counterSourceUrl,
+    },
+  });
+
+  if (error) {
+    console.error('Erro ao enviar avaliação:', error);
+
+    if (error instanceof FunctionsHttpError && error.context instanceof Response) {
+      const message = await readErrorMessage(error.context);
+      if (message) {
+        throw new Error(message);
+      }
+    }
+
+    throw new Error('Não foi possível enviar sua avaliação. Tente novamente.');
+  }
+
+  return toFeedbackSummary(data?.summary ?? null);
+};
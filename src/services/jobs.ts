@@ -0,0 +1,51 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface CheckJob {
+  jobId: string;
+  status: JobStatus;
+  result: unknown;
+  error: string | null;
+}
+
+export interface WaitForJobOptions {
+  intervalMs?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+export const getCheckJob = async (jobId: string): Promise<CheckJob> => {
+  const { data, error } = await supabase.functions.invoke(`check-jobs?id=${encodeURIComponent(jobId)}`, { method: 'GET' });
+
+  if (error || !data) {
+    console.error('Erro ao consultar tarefa:', error);
+    throw new Error('Não foi possível consultar o andamento da verificação.');
+  }
+
+  return {
+    jobId: data.job_id,
+    status: data.status,
+    result: data.result ?? null,
+    error: typeof data.error === 'string' ? data.error : null,
+  };
+};
+
+// Polls until the job is done or failed. Rejects if aborted.
+export const waitForCheckJob = async (jobId: string, options: WaitForJobOptions = {}): Promise<CheckJob> => {
+  const { intervalMs = DEFAULT_POLL_INTERVAL_MS, signal } = options;
+
+  for (;;) {
+    if (signal?.aborted) {
+      throw new DOMException('Verificação interrompida', 'AbortError');
+    }
+
+    const job = await getCheckJob(jobId);
+    if (job.status === 'done' || job.status === 'failed') {
+      return job;
+    }
+
+    await new Promise((resolve) => window.setTimeout(resolve, intervalMs));
+  }
+};
@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { VerdictStatus } from '@/services/fakeNewsDetector';
+
+export type NarrativePeriod = '24h' | '7d' | '30d';
+
+export interface Narrative {
+  id: string;
+  canonicalClaim: string;
+  // Null once the canonical check has been deleted
+  canonicalCheckId: string | null;
+  status: VerdictStatus;
+  verdictCounts: Record<VerdictStatus, number>;
+  memberCount: number;
+  submissionCount: number;
+  recentSubmissions: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export const NARRATIVE_PERIOD_LABELS: Record<NarrativePeriod, string> = {
+  '24h': 'Últimas 24 horas',
+  '7d': 'Últimos 7 dias',
+  '30d': 'Últimos 30 dias',
+};
+
+const PERIOD_HOURS: Record<NarrativePeriod, number> = {
+  '24h': 24,
+  '7d': 24 * 7,
+  '30d': 24 * 30,
+};
+
+const toCount = (value: unknown) => (typeof value === 'number' && value > 0 ? value : 0);
+
+// Narratives with the most submissions in the period, most active first
+export const listTrendingNarratives = async (period: NarrativePeriod, status: VerdictStatus | 'all'): Promise<Narrative[]> => {
+  const since = new Date(Date.now() - PERIOD_HOURS[period] * 60 * 60 * 1000);
+
+  const { data, error } = await supabase.rpc('trending_narratives', {
+    p_since: since.toISOString(),
+    p_status: status === 'all' ? undefined : status,
+    p_limit: 30,
+  });
+
+  if (error) {
+    console.error('Erro ao carregar narrativas:', error);
+    throw new Error('Não foi possível carregar as narrativas.');
+  }
+
+  return (data ?? []).map((row) => {
+    const counts = (row.verdict_counts ?? {}) as Record<string, unknown>;
+    return {
+      id: row.id,
+      canonicalClaim: row.canonical_claim,
+      canonicalCheckId: row.canonical_check_id ?? null,
+      status: row.status as VerdictStatus,
+      verdictCounts: {
+        real: toCount(counts.real),
+        fake: toCount(counts.fake),
+        uncertain: toCount(counts.uncertain),
+      },
+      memberCount: row.member_count,
+      submissionCount: row.submission_count,
+      recentSubmissions: row.recent_submissions,
+      firstSeenAt: row.first_seen_at,
+      lastSeenAt: row.last_seen_at,
+    };
+  });
+};
@@ -0,0 +1,171 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { parseAnalysisResult, type ReviewAction, type Source, type VerdictStatus } from '@/services/fakeNewsDetector';
+import { toStoredFactCheck, type StoredFactCheck } from '@/services/factChecks';
+
+export interface ReviewQueueItem {
+  id: string;
+  inputText: string;
+  status: VerdictStatus;
+  confidence: number;
+  topic: string | null;
+  flaggedAt: string | null;
+  flagReason: string | null;
+  createdAt: string;
+  upvotes: number;
+  downvotes: number;
+  counterSources: number;
+}
+
+export interface CounterSource {
+  url: string;
+  createdAt: string;
+}
+
+export interface VerdictOverride {
+  action: ReviewAction;
+  status: VerdictStatus;
+  confidence: number;
+  justification: string;
+  sources: Source[];
+  reviewerId: string;
+  updatedAt: string;
+}
+
+export interface ReviewDetail {
+  // Model output as stored in fact_checks, without any override applied
+  check: StoredFactCheck;
+  override: VerdictOverride | null;
+  counterSources: CounterSource[];
+}
+
+export interface OverrideInput {
+  factCheckId: string;
+  action: ReviewAction;
+  status: VerdictStatus;
+  confidence: number;
+  justification: string;
+  sources: Source[];
+}
+
+function toOverride(row: Tables<'verdict_overrides'>): VerdictOverride {
+  const parsed = parseAnalysisResult(row);
+  return {
+    action: row.action === 'overridden' ? 'overridden' : 'confirmed',
+    status: parsed.status,
+    confidence: parsed.confidence,
+    justification: parsed.justification,
+    sources: parsed.sources ?? [],
+    reviewerId: row.reviewer_id,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const isCurrentUserReviewer = async (): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('is_reviewer');
+
+  if (error) {
+    console.error('Erro ao verificar permissão de revisão:', error);
+    return false;
+  }
+
+  return Boolean(data);
+};
+
+// Flagged checks first, then the least confident
+export const listReviewQueue = async (page: number, pageSize: number): Promise<{ items: ReviewQueueItem[]; total: number }> => {
+  const from = (page - 1) * pageSize;
+
+  const { data, error, count } = await supabase
+    .from('review_queue')
+    .select('*', { count: 'exact' })
+    .order('flagged_at', { ascending: false, nullsFirst: false })
+    .order('confidence', { ascending: true })
+    .range(from, from + pageSize - 1);
+
+  if (error) {
+    console.error('Erro ao carregar fila de revisão:', error);
+    throw new Error('Não foi possível carregar a fila de revisão.');
+  }
+
+  return {
+    items: (data || []).map((row) => ({
+      id: row.id ?? '',
+      inputText: row.input_text ?? '',
+      status: parseAnalysisResult(row).status,
+      confidence: row.confidence ?? 0,
+      topic: row.topic,
+      flaggedAt: row.flagged_at,
+      flagReason: row.flag_reason,
+      createdAt: row.created_at ?? '',
+      upvotes: row.upvotes ?? 0,
+      downvotes: row.downvotes ?? 0,
+      counterSources: row.counter_sources ?? 0,
+    })),
+    total: count ?? 0,
+  };
+};
+
+export const getReviewDetail = async (factCheckId: string): Promise<ReviewDetail | null> => {
+  const [checkResponse, overrideResponse, feedbackResponse] = await Promise.all([
+    supabase.from('fact_checks').select('*').eq('id', factCheckId).maybeSingle(),
+    supabase.from('verdict_overrides').select('*').eq('fact_check_id', factCheckId).maybeSingle(),
+    supabase
+      .from('verdict_feedback')
+      .select('counter_source_url, created_at')
+      .eq('fact_check_id', factCheckId)
+      .not('counter_source_url', 'is', null)
+      .order('created_at', { ascending: false }),
+  ]);
+
+  const error = checkResponse.error || overrideResponse.error || feedbackResponse.error;
+  if (error) {
+    console.error('Erro ao carregar verificação para revisão:', error);
+    throw new Error('Não foi possível carregar a verificação.');
+  }
+
+  if (!checkResponse.data) return null;
+
+  return {
+    check: toStoredFactCheck(checkResponse.data),
+    override: overrideResponse.data ? toOverride(overrideResponse.data) : null,
+    counterSources: (feedbackResponse.data || []).map((row) => ({
+      url: row.counter_source_url ?? '',
+      createdAt: row.created_at,
+    })),
+  };
+};
+
+export const saveOverride = async (input: OverrideInput): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('Faça login para revisar verificações.');
+  }
+
+  const { error } = await supabase
+    .from('verdict_overrides')
+    .upsert({
+      fact_check_id: input.factCheckId,
+      action: input.action,
+      status: input.status,
+      confidence: input.confidence,
+      justification: input.justification,
+      // Same shape the edge function stores, so link checks and credibility tiers survive a confirmation
+      sources: input.sources.map(({ title, url, summary, verified, httpStatus, checkFailure, tier, sourceType }) => ({
+        title,
+        url,
+        summary,
+        verified,
+        http_status: httpStatus,
+        check_failure: checkFailure,
+        tier,
+        source_type: sourceType,
+      })) as unknown as Json,
+      reviewer_id: user.id,
+    }, { onConflict: 'fact_check_id' });
+
+  if (error) {
+    console.error('Erro ao salvar revisão:', error);
+    throw new Error('Não foi possível salvar a revisão.');
+  }
+};
@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { CredibilityTier, SourceType } from '@/services/fakeNewsDetector';
+
+export interface SourceDomain {
+  id: string;
+  domain: string;
+  name: string;
+  tier: CredibilityTier;
+  sourceType: SourceType;
+  ownershipNotes: string | null;
+  updatedAt: string;
+}
+
+export interface SourceDomainInput {
+  // Absent when registering a new domain
+  id?: string;
+  domain: string;
+  name: string;
+  tier: CredibilityTier;
+  sourceType: SourceType;
+  ownershipNotes: string | null;
+}
+
+export const CREDIBILITY_TIER_LABELS: Record<CredibilityTier, string> = {
+  high: 'Alta credibilidade',
+  medium: 'Credibilidade média',
+  low: 'Baixa credibilidade',
+  unreliable: 'Não confiável',
+};
+
+export const SOURCE_TYPE_LABELS: Record<SourceType, string> = {
+  official: 'Fonte oficial',
+  press: 'Imprensa',
+  academic: 'Acadêmica',
+  fact_checker: 'Agência de checagem',
+  social: 'Rede social',
+  other: 'Outra',
+};
+
+export const getTierColor = (tier: CredibilityTier) => {
+  switch (tier) {
+    case 'high':
+      return 'text-green-700 bg-green-100';
+    case 'medium':
+      return 'text-blue-700 bg-blue-100';
+    case 'low':
+      return 'text-yellow-700 bg-yellow-100';
+    case 'unreliable':
+      return 'text-red-700 bg-red-100';
+  }
+};
+
+// Same rule as the table's check constraint: lowercase host without scheme
+// or path, at least two labels
+export const normalizeDomain = (value: string): string | null => {
+  const domain = value.trim().toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/^www\./, '');
+
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : null;
+};
+
+function toSourceDomain(row: Tables<'source_domains'>): SourceDomain {
+  return {
+    id: row.id,
+    domain: row.domain,
+    name: row.name,
+    tier: row.tier as CredibilityTier,
+    sourceType: row.source_type as SourceType,
+    ownershipNotes: row.ownership_notes,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const listSourceDomains = async (): Promise<SourceDomain[]> => {
+  const { data, error } = await supabase
+    .from('source_domains')
+    .select('*')
+    .order('domain');
+
+  if (error) {
+    console.error('Erro ao buscar domínios:', error);
+    throw new Error('Não foi possível carregar o cadastro de fontes.');
+  }
+
+  return (data ?? []).map(toSourceDomain);
+};
+
+// Writes go through RLS, which only lets reviewers change the registry
+export const saveSourceDomain = async (input: SourceDomainInput): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('Entre com sua conta para editar o cadastro de fontes.');
+  }
+
+  const row = {
+    domain: input.domain,
+    name: input.name,
+    tier: input.tier,
+    source_type: input.sourceType,
+    ownership_notes: input.ownershipNotes,
+    updated_by: user.id,
+  };
+
+  const { error } = input.id
+    ? await supabase.from('source_domains').update(row).eq('id', input.id)
+    : await supabase.from('source_domains').insert(row);
+
+  if (error) {
+    console.error('Erro ao salvar domínio:', error);
+    throw new Error(error.code === '23505'
+      ? 'Este domínio já está cadastrado.'
+      : 'Não foi possível salvar o domínio.');
+  }
+};
+
+export const deleteSourceDomain = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('source_domains')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Erro ao remover domínio:', error);
+    throw new Error('Não foi possível remover o domínio.');
+  }
+};
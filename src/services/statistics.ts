@@ -0,0 +1,103 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CredibilityTier, VerdictStatus } from '@/services/fakeNewsDetector';
+
+export type StatisticsPeriod = 7 | 30 | 90;
+
+export interface DailyStats {
+  // yyyy-MM-dd, Brasília time
+  day: string;
+  checks: number;
+  real: number;
+  fake: number;
+  uncertain: number;
+  fallbacks: number;
+  submissions: number;
+  cacheHits: number;
+}
+
+export interface StatusConfidence {
+  status: VerdictStatus;
+  checks: number;
+  averageConfidence: number;
+}
+
+export interface DomainCitations {
+  domain: string;
+  citations: number;
+  checks: number;
+  // Set when the domain is in the source registry
+  name: string | null;
+  tier: CredibilityTier | null;
+}
+
+export interface CheckStatistics {
+  daily: DailyStats[];
+  confidenceByStatus: StatusConfidence[];
+  topDomains: DomainCitations[];
+  totals: {
+    checks: number;
+    submissions: number;
+    // Fractions from 0 to 1; null when there is nothing to divide by
+    cacheHitRatio: number | null;
+    fallbackRate: number | null;
+  };
+}
+
+export const STATISTICS_PERIOD_LABELS: Record<StatisticsPeriod, string> = {
+  7: 'Últimos 7 dias',
+  30: 'Últimos 30 dias',
+  90: 'Últimos 90 dias',
+};
+
+const sum = (items: DailyStats[], key: keyof Omit<DailyStats, 'day'>) =>
+  items.reduce((total, item) => total + item[key], 0);
+
+export const getCheckStatistics = async (days: StatisticsPeriod): Promise<CheckStatistics> => {
+  const [dailyResult, confidenceResult, domainsResult] = await Promise.all([
+    supabase.rpc('daily_check_stats', { p_days: days }),
+    supabase.rpc('confidence_by_status', { p_days: days }),
+    supabase.rpc('top_source_domains', { p_days: days, p_limit: 10 }),
+  ]);
+
+  const error = dailyResult.error ?? confidenceResult.error ?? domainsResult.error;
+  if (error) {
+    console.error('Erro ao carregar estatísticas:', error);
+    throw new Error('Não foi possível carregar as estatísticas.');
+  }
+
+  const daily = (dailyResult.data ?? []).map((row) => ({
+    day: row.day,
+    checks: row.checks,
+    real: row.real_count,
+    fake: row.fake_count,
+    uncertain: row.uncertain_count,
+    fallbacks: row.fallbacks,
+    submissions: row.submissions,
+    cacheHits: row.cache_hits,
+  }));
+
+  const checks = sum(daily, 'checks');
+  const submissions = sum(daily, 'submissions');
+
+  return {
+    daily,
+    confidenceByStatus: (confidenceResult.data ?? []).map((row) => ({
+      status: row.status as VerdictStatus,
+      checks: row.checks,
+      averageConfidence: Number(row.avg_confidence),
+    })),
+    topDomains: (domainsResult.data ?? []).map((row) => ({
+      domain: row.domain,
+      citations: row.citations,
+      checks: row.checks,
+      name: row.name ?? null,
+      tier: (row.tier as CredibilityTier | null) ?? null,
+    })),
+    totals: {
+      checks,
+      submissions,
+      cacheHitRatio: submissions > 0 ? sum(daily, 'cacheHits') / submissions : null,
+      fallbackRate: checks > 0 ? sum(daily, 'fallbacks') / checks : null,
+    },
+  };
+};
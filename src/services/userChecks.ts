@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+import { parseAnalysisResult, type VerdictStatus } from '@/services/fakeNewsDetector';
+
+export interface UserCheck {
+  id: string;
+  factCheckId: string;
+  inputText: string;
+  status: VerdictStatus;
+  confidence: number;
+  reviewed: boolean;
+  submissionCount: number;
+  lastSubmittedAt: string;
+}
+
+// RLS limits user_checks to the signed-in user's own rows
+export const listMyChecks = async (page: number, pageSize: number): Promise<{ items: UserCheck[]; total: number }> => {
+  const from = (page - 1) * pageSize;
+
+  const { data, error, count } = await supabase
+    .from('user_checks')
+    .select('id, fact_check_id, submission_count, last_submitted_at, fact_checks(input_text, status, confidence, verdict_overrides(status, confidence))', { count: 'exact' })
+    .order('last_submitted_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) {
+    console.error('Erro ao carregar minhas verificações:', error);
+    throw new Error('Não foi possível carregar suas verificações.');
+  }
+
+  return {
+    items: (data || []).flatMap((row) => {
+      if (!row.fact_checks) return [];
+
+      const { verdict_overrides: override, ...check } = row.fact_checks;
+      return [{
+        id: row.id,
+        factCheckId: row.fact_check_id,
+        inputText: check.input_text,
+        status: parseAnalysisResult(override ?? check).status,
+        confidence: override?.confidence ?? check.confidence,
+        reviewed: Boolean(override),
+        submissionCount: row.submission_count,
+        lastSubmittedAt: row.last_submitted_at,
+      }];
+    }),
+    total: count ?? 0,
+  };
+};
+
+// Removes the entry from the user's list; the shared verification remains
+export const removeMyCheck = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('user_checks')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Erro ao remover verificação:', error);
+    throw new Error('Não foi possível remover a verificação.');
+  }
+};
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Public URL of the `share` edge function, e.g. https://<project>.supabase.co/functions/v1/share
+  readonly VITE_SHARE_BASE_URL?: string
+}
@@ -0,0 +1,88 @@
+import { VERDICT_STATUSES, VerdictStatus } from '../functions/_shared/types.ts';
+import { EvaluationMetrics, Prediction } from './metrics.ts';
+
+// Everything a run produced; saved as the baseline later runs are diffed
+// against
+export interface EvaluationReport {
+  dataset: { name: string; sha256: string; size: number };
+  provider: { name: string; model: string };
+  // The confidence calibration applied to verdicts, if any
+  calibration: { id: string; method: string } | null;
+  mode: RunMode;
+  created_at: string;
+  metrics: EvaluationMetrics;
+  predictions: Prediction[];
+}
+
+export type RunMode = 'replay' | 'record' | 'live';
+
+export interface MetricChange {
+  name: string;
+  baseline: number | null;
+  current: number | null;
+  // For error rates a drop is an improvement
+  lowerIsBetter: boolean;
+}
+
+export interface VerdictChange {
+  id: string;
+  label: VerdictStatus;
+  baseline: VerdictStatus;
+  current: VerdictStatus;
+}
+
+export interface BaselineDiff {
+  // The dataset file differs from the one the baseline was run on
+  datasetChanged: boolean;
+  metrics: MetricChange[];
+  // Items the baseline got wrong and this run got right, and the reverse
+  fixed: VerdictChange[];
+  broken: VerdictChange[];
+  regressed: boolean;
+}
+
+function flattenMetrics(metrics: EvaluationMetrics): Array<[string, number | null, boolean]> {
+  return [
+    ['accuracy', metrics.accuracy, false],
+    ...VERDICT_STATUSES.flatMap((status): Array<[string, number | null, boolean]> => [
+      [`${status}.precision`, metrics.per_class[status].precision, false],
+      [`${status}.recall`, metrics.per_class[status].recall, false],
+    ]),
+    ['ece', metrics.ece, true],
+    ['ece_raw', metrics.ece_raw ?? null, true],
+    ['uncertain_rate', metrics.uncertain_rate, true],
+    ['fallback_rate', metrics.fallback_rate, true],
+  ];
+}
+
+// A run regresses when it gets fewer items right than the baseline did
+export function compareToBaseline(current: EvaluationReport, baseline: EvaluationReport): BaselineDiff {
+  const baselineMetrics = new Map(flattenMetrics(baseline.metrics).map(([name, value]) => [name, value]));
+  const metrics = flattenMetrics(current.metrics).map(([name, value, lowerIsBetter]) => ({
+    name,
+    baseline: baselineMetrics.get(name) ?? null,
+    current: value,
+    lowerIsBetter,
+  }));
+
+  const baselinePredictions = new Map(baseline.predictions.map(prediction => [prediction.id, prediction]));
+  const fixed: VerdictChange[] = [];
+  const broken: VerdictChange[] = [];
+
+  for (const prediction of current.predictions) {
+    const previous = baselinePredictions.get(prediction.id);
+    if (!previous || previous.predicted === prediction.predicted) continue;
+
+    const change = { id: prediction.id, label: prediction.label, baseline: previous.predicted, current: prediction.predicted };
+    if (prediction.predicted === prediction.label) fixed.push(change);
+    if (previous.predicted === previous.label) broken.push(change);
+  }
+
+  return {
+    datasetChanged: current.dataset.sha256 !== baseline.dataset.sha256,
+    metrics,
+    fixed,
+    broken,
+    regressed: current.metrics.accuracy < baseline.metrics.accuracy,
+  };
+}
@@ -0,0 +1,53 @@
+import { VERDICT_STATUSES, VerdictStatus } from '../functions/_shared/types.ts';
+
+// One line of an evaluation dataset: a message as a user would paste it
+// and the verdict a fact-checker would give it
+export interface LabeledClaim {
+  id: string;
+  text: string;
+  label: VerdictStatus;
+}
+
+export class DatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetError';
+  }
+}
+
+// Datasets are JSONL, one claim per line. Blank lines are skipped; anything
+// else that is not a valid claim fails the whole dataset, with its line.
+export function parseDataset(content: string): LabeledClaim[] {
+  const claims: LabeledClaim[] = [];
+  const ids = new Set<string>();
+
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    const lineNumber = index + 1;
+
+    let entry: Partial<LabeledClaim>;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new DatasetError(`Line ${lineNumber}: invalid JSON`);
+    }
+
+    if (typeof entry.id !== 'string' || !entry.id) {
+      throw new DatasetError(`Line ${lineNumber}: missing id`);
+    }
+    if (ids.has(entry.id)) {
+      throw new DatasetError(`Line ${lineNumber}: duplicate id ${entry.id}`);
+    }
+    if (typeof entry.text !== 'string' || entry.text.trim().length < 10) {
+      throw new DatasetError(`Line ${lineNumber}: text must have at least 10 characters`);
+    }
+    if (!VERDICT_STATUSES.includes(entry.label as VerdictStatus)) {
+      throw new DatasetError(`Line ${lineNumber}: label must be one of ${VERDICT_STATUSES.join(', ')}`);
+    }
+
+    ids.add(entry.id);
+    claims.push({ id: entry.id, text: entry.text, label: entry.label as VerdictStatus });
+  });
+
+  return claims;
+}
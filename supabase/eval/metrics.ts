@@ -0,0 +1,79 @@
+import { VERDICT_STATUSES, VerdictStatus } from '../functions/_shared/types.ts';
+
+export interface Prediction {
+  id: string;
+  label: VerdictStatus;
+  predicted: VerdictStatus;
+  confidence: number;
+  // Before calibration; equal to confidence when none was applied
+  raw_confidence: number;
+  // The pipeline gave its safe answer because the model failed
+  fallback: boolean;
+}
+
+export interface ClassMetrics {
+  // Null when the class was never predicted / never labeled
+  precision: number | null;
+  recall: number | null;
+  support: number;
+}
+
+export interface EvaluationMetrics {
+  total: number;
+  accuracy: number;
+  per_class: Record<VerdictStatus, ClassMetrics>;
+  // Expected calibration error: gap between confidence and accuracy,
+  // averaged over confidence bins weighted by their size
+  ece: number;
+  // The same over the uncalibrated confidence
+  ece_raw: number;
+  uncertain_rate: number;
+  fallback_rate: number;
+}
+
+const ECE_BINS = 10;
+
+const ratio = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+export function expectedCalibrationError(predictions: Prediction[], bins = ECE_BINS): number {
+  const buckets = Array.from({ length: bins }, () => ({ count: 0, correct: 0, confidence: 0 }));
+
+  for (const prediction of predictions) {
+    const confidence = Math.max(0, Math.min(1, prediction.confidence / 100));
+    const bucket = buckets[Math.min(bins - 1, Math.floor(confidence * bins))];
+    bucket.count++;
+    bucket.correct += Number(prediction.predicted === prediction.label);
+    bucket.confidence += confidence;
+  }
+
+  return buckets.reduce((sum, bucket) => bucket.count === 0
+    ? sum
+    : sum + (bucket.count / predictions.length) * Math.abs(bucket.correct / bucket.count - bucket.confidence / bucket.count), 0);
+}
+
+export function computeMetrics(predictions: Prediction[]): EvaluationMetrics {
+  const total = predictions.length;
+  const correct = predictions.filter(prediction => prediction.predicted === prediction.label).length;
+
+  const perClass = Object.fromEntries(VERDICT_STATUSES.map(status => {
+    const labeled = predictions.filter(prediction => prediction.label === status);
+    const predicted = predictions.filter(prediction => prediction.predicted === status);
+    const truePositives = labeled.filter(prediction => prediction.predicted === status).length;
+
+    return [status, {
+      precision: predicted.length > 0 ? truePositives / predicted.length : null,
+      recall: labeled.length > 0 ? truePositives / labeled.length : null,
+      support: labeled.length,
+    }];
+  })) as Record<VerdictStatus, ClassMetrics>;
+
+  return {
+    total,
+    accuracy: ratio(correct, total),
+    per_class: perClass,
+    ece: expectedCalibrationError(predictions),
+    ece_raw: expectedCalibrationError(predictions.map(prediction => ({ ...prediction, confidence: prediction.raw_confidence }))),
+    uncertain_rate: ratio(predictions.filter(prediction => prediction.predicted === 'uncertain').length, total),
+    fallback_rate: ratio(predictions.filter(prediction => prediction.fallback).length, total),
+  };
+}
@@ -0,0 +1,67 @@
+import { LLMProvider, ProviderError } from '../functions/_shared/providers/index.ts';
+import { sha256Hex } from '../functions/_shared/crypto.ts';
+
+// Model responses keyed by a hash of the prompt, so an evaluation can be
+// replayed without the network and with the exact same answers. Changing a
+// prompt changes its key: replays then report the prompt as missing and
+// the dataset has to be recorded again.
+
+export interface RecordedResponse {
+  key: string;
+  provider: string;
+  model: string;
+  response: string;
+}
+
+export interface Recordings {
+  responses: Map<string, RecordedResponse>;
+  // Prompts a replay had no response for
+  misses: number;
+}
+
+export function parseRecordings(content: string): Recordings {
+  const responses = new Map<string, RecordedResponse>();
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    const entry = JSON.parse(line) as RecordedResponse;
+    responses.set(entry.key, entry);
+  }
+  return { responses, misses: 0 };
+}
+
+export function serializeRecordings(recordings: Recordings): string {
+  return [...recordings.responses.values()].map(entry => JSON.stringify(entry)).join('\n') + '\n';
+}
+
+// Answers from the recordings only; a prompt without a response fails like
+// an unreachable model would
+export function createReplayProvider(recordings: Recordings): LLMProvider {
+  const [first] = recordings.responses.values();
+
+  return {
+    name: first?.provider ?? 'replay',
+    model: first?.model ?? 'unknown',
+    async complete(prompt: string): Promise<string> {
+      const recorded = recordings.responses.get(await sha256Hex(prompt));
+      if (!recorded) {
+        recordings.misses++;
+        throw new ProviderError('replay', 'No recorded response for prompt');
+      }
+      return recorded.response;
+    },
+  };
+}
+
+// Passes prompts to a live provider and keeps what it answers
+export function createRecordingProvider(provider: LLMProvider, recordings: Recordings): LLMProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(prompt, options): Promise<string> {
+      const response = await provider.complete(prompt, options);
+      const key = await sha256Hex(prompt);
+      recordings.responses.set(key, { key, provider: provider.name, model: provider.model, response });
+      return response;
+    },
+  };
+}
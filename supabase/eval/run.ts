@@ -0,0 +1,253 @@
+import { getProvider, LLMProvider } from '../functions/_shared/providers/index.ts';
+import { createStubProvider } from '../functions/_shared/providers/stub.ts';
+import { verifyText } from '../functions/_shared/verify.ts';
+import { sanitizeInput } from '../functions/_shared/pipeline.ts';
+import { sha256Hex } from '../functions/_shared/crypto.ts';
+import { VERDICT_STATUSES } from '../functions/_shared/types.ts';
+import { applyCalibration, ConfidenceCalibration } from '../functions/_shared/calibration/index.ts';
+import { parseDataset } from './dataset.ts';
+import { computeMetrics, Prediction } from './metrics.ts';
+import { createRecordingProvider, createReplayProvider, parseRecordings, Recordings, serializeRecordings } from './recorded.ts';
+import { BaselineDiff, compareToBaseline, EvaluationReport, RunMode } from './baseline.ts';
+
+// Offline evaluation of the verification pipeline against a labeled dataset:
+//
+//   deno run -A supabase/eval/run.ts [options]
+//
+//   --dataset <path>       JSONL dataset (default: datasets/claims-pt.v1.jsonl)
+//   --mode <mode>          replay (default): answer from recorded responses,
+//                          or from the stub provider when none were recorded
+//                          record: ask the provider from LLM_PROVIDER and save its answers
+//                          live: ask the provider without saving
+//   --recordings <path>    default: recordings/<dataset name>.jsonl
+//   --baseline <path>      default: baselines/<dataset name>.json
+//   --calibration <path>   JSON { id, method, curves } of a confidence_calibrations
+//                          row, applied to every verdict as the pipeline would
+//   --save-baseline        store this run as the new baseline
+//   --report <path>        also write this run's report as JSON
+//   --fail-on-regression   exit with 1 when accuracy is below the baseline's
+//
+// Claims are checked without search, link checking or the source registry,
+// so a run depends on nothing but the model's answers. Recordings and
+// baselines live next to this file; record again and store a new baseline
+// whenever a prompt or model change is accepted. Until a dataset has been
+// recorded, replay runs against the stub provider: that checks the harness
+// itself, not the model.
+
+interface Options {
+  dataset: string;
+  mode: RunMode;
+  recordings: string | null;
+  baseline: string | null;
+  calibration: string | null;
+  saveBaseline: boolean;
+  report: string | null;
+  failOnRegression: boolean;
+}
+
+const MODES: RunMode[] = ['replay', 'record', 'live'];
+
+const defaultPath = (relative: string) => new URL(relative, import.meta.url).pathname;
+
+function parseArgs(args: string[]): Options {
+  const options: Options = {
+    dataset: defaultPath('./datasets/claims-pt.v1.jsonl'),
+    mode: 'replay',
+    recordings: null,
+    baseline: null,
+    calibration: null,
+    saveBaseline: false,
+    report: null,
+    failOnRegression: false,
+  };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    const value = () => {
+      const next = args[++index];
+      if (next === undefined) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--dataset': options.dataset = value(); break;
+      case '--mode': options.mode = value() as RunMode; break;
+      case '--recordings': options.recordings = value(); break;
+      case '--baseline': options.baseline = value(); break;
+      case '--calibration': options.calibration = value(); break;
+      case '--report': options.report = value(); break;
+      case '--save-baseline': options.saveBaseline = true; break;
+      case '--fail-on-regression': options.failOnRegression = true; break;
+      default: throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  if (!MODES.includes(options.mode)) {
+    throw new Error(`--mode must be one of ${MODES.join(', ')}`);
+  }
+  return options;
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return null;
+    throw e;
+  }
+}
+
+async function writeFile(path: string, content: string): Promise<void> {
+  const directory = path.substring(0, path.lastIndexOf('/'));
+  if (directory) await Deno.mkdir(directory, { recursive: true });
+  await Deno.writeTextFile(path, content);
+}
+
+const percent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+// ECE is an error measure, not a share of items
+const isError = (name: string) => name.startsWith('ece');
+const formatMetric = (name: string, value: number) => (isError(name) ? value.toFixed(3) : percent(value));
+
+function printReport(report: EvaluationReport, misses: number): void {
+  const { metrics } = report;
+  console.log('');
+  console.log(`Dataset:  ${report.dataset.name} (${report.dataset.size} claims, sha256 ${report.dataset.sha256.substring(0, 12)})`);
+  console.log(`Provider: ${report.provider.name} / ${report.provider.model} (${report.mode})`);
+  if (report.calibration) {
+    console.log(`Calibration: ${report.calibration.method} (${report.calibration.id})`);
+  }
+  if (misses > 0) {
+    console.log(`Warning:  ${misses} prompt(s) had no recorded response; record the dataset again`);
+  }
+  console.log('');
+  console.log(`Accuracy        ${percent(metrics.accuracy)}`);
+  console.log(`ECE             ${metrics.ece.toFixed(3)}`);
+  if (report.calibration) {
+    console.log(`ECE before cal. ${metrics.ece_raw.toFixed(3)}`);
+  }
+  console.log(`Uncertain rate  ${percent(metrics.uncertain_rate)}`);
+  console.log(`Fallback rate   ${percent(metrics.fallback_rate)}`);
+  console.log('');
+  console.log('Class       Precision  Recall   Support');
+  for (const status of VERDICT_STATUSES) {
+    const { precision, recall, support } = metrics.per_class[status];
+    console.log(`${status.padEnd(11)} ${percent(precision).padStart(9)}  ${percent(recall).padStart(6)}   ${support}`);
+  }
+}
+
+function printDiff(diff: BaselineDiff): void {
+  console.log('');
+  console.log('Compared with baseline:');
+  if (diff.datasetChanged) {
+    console.log('  Warning: the dataset changed since the baseline was stored');
+  }
+
+  for (const { name, baseline, current, lowerIsBetter } of diff.metrics) {
+    if (baseline === null || current === null || baseline === current) continue;
+    const delta = current - baseline;
+    const better = lowerIsBetter ? delta < 0 : delta > 0;
+    const sign = delta > 0 ? '+' : '';
+    const change = isError(name) ? delta.toFixed(3) : `${(delta * 100).toFixed(1)} pts`;
+    console.log(`  ${name.padEnd(20)} ${formatMetric(name, baseline).padStart(7)} -> ${formatMetric(name, current).padStart(7)}  (${sign}${change}, ${better ? 'better' : 'worse'})`);
+  }
+
+  for (const change of diff.fixed) {
+    console.log(`  fixed   ${change.id}: ${change.baseline} -> ${change.current} (label ${change.label})`);
+  }
+  for (const change of diff.broken) {
+    console.log(`  broken  ${change.id}: ${change.baseline} -> ${change.current} (label ${change.label})`);
+  }
+  if (diff.metrics.every(({ baseline, current }) => baseline === current) && diff.fixed.length === 0 && diff.broken.length === 0) {
+    console.log('  No changes');
+  }
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs(Deno.args);
+  const datasetName = options.dataset.substring(options.dataset.lastIndexOf('/') + 1).replace(/\.jsonl$/, '');
+  const recordingsPath = options.recordings ?? defaultPath(`./recordings/${datasetName}.jsonl`);
+  const baselinePath = options.baseline ?? defaultPath(`./baselines/${datasetName}.json`);
+
+  const datasetContent = await Deno.readTextFile(options.dataset);
+  const claims = parseDataset(datasetContent);
+
+  let recordings: Recordings = { responses: new Map(), misses: 0 };
+  let provider: LLMProvider;
+  if (options.mode === 'replay') {
+    const content = await readOptional(recordingsPath);
+    if (content === null) {
+      console.log(`No recordings at ${recordingsPath}; replaying with the stub provider (run with --mode record to evaluate a model)`);
+      provider = createStubProvider();
+    } else {
+      recordings = parseRecordings(content);
+      provider = createReplayProvider(recordings);
+    }
+  } else {
+    provider = getProvider();
+    if (options.mode === 'record') {
+      provider = createRecordingProvider(provider, recordings);
+    }
+  }
+
+  const calibrationContent = options.calibration ? await Deno.readTextFile(options.calibration) : null;
+  const calibration = calibrationContent ? JSON.parse(calibrationContent) as ConfidenceCalibration : null;
+
+  const predictions: Prediction[] = [];
+  for (const [index, claim] of claims.entries()) {
+    const { result, raw_confidence } = applyCalibration(await verifyText(sanitizeInput(claim.text), provider), calibration);
+    predictions.push({
+      id: claim.id,
+      label: claim.label,
+      predicted: result.status,
+      confidence: result.confidence,
+      raw_confidence,
+      fallback: result.search_results.fallback === true,
+    });
+    console.log(`[${index + 1}/${claims.length}] ${claim.id}: ${result.status} (${result.confidence}%), expected ${claim.label}`);
+  }
+
+  const report: EvaluationReport = {
+    dataset: { name: datasetName, sha256: await sha256Hex(datasetContent), size: claims.length },
+    provider: { name: provider.name, model: provider.model },
+    calibration: calibration ? { id: calibration.id, method: calibration.method } : null,
+    mode: options.mode,
+    created_at: new Date().toISOString(),
+    metrics: computeMetrics(predictions),
+    predictions,
+  };
+
+  printReport(report, recordings.misses);
+
+  if (options.mode === 'record') {
+    await writeFile(recordingsPath, serializeRecordings(recordings));
+    console.log(`\nRecorded ${recordings.responses.size} response(s) to ${recordingsPath}`);
+  }
+
+  const baselineContent = await readOptional(baselinePath);
+  const diff = baselineContent ? compareToBaseline(report, JSON.parse(baselineContent)) : null;
+  if (diff) {
+    printDiff(diff);
+  } else {
+    console.log(`\nNo baseline at ${baselinePath}`);
+  }
+
+  if (options.report) {
+    await writeFile(options.report, JSON.stringify(report, null, 2) + '\n');
+  }
+  if (options.saveBaseline) {
+    await writeFile(baselinePath, JSON.stringify(report, null, 2) + '\n');
+    console.log(`Saved baseline to ${baselinePath}`);
+  }
+
+  return options.failOnRegression && diff?.regressed ? 1 : 0;
+}
+
+if (import.meta.main) {
+  try {
+    Deno.exit(await main());
+  } catch (e) {
+    console.error(e.message);
+    Deno.exit(2);
+  }
+}
@@ -0,0 +1,5 @@
+export type { ApiCheck, ApiError, CheckList, CreateCheckRequest } from './schemas.ts';
+export { CHECK_LIST_SCHEMA, CHECK_SCHEMA, CREATE_CHECK_REQUEST_SCHEMA } from './schemas.ts';
+export type { ApiKey, QuotaDecision } from './keys.ts';
+export { authenticateApiKey, consumeQuota, quotaHeaders, recordApiKeyCheck, touchApiKey } from './keys.ts';
+export { buildOpenApiDocument, toOpenApiSchema } from './openapi.ts';
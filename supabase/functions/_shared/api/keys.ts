@@ -0,0 +1,88 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sha256Hex } from '../crypto.ts';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  daily_quota: number;
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  quota: number;
+  used: number;
+  // Epoch seconds when the daily quota resets (UTC midnight)
+  resetAt: number;
+}
+
+// Keys are looked up by digest; revoked keys are treated as unknown
+export async function authenticateApiKey(client: SupabaseClient, rawKey: string | null): Promise<ApiKey | null> {
+  if (!rawKey || !rawKey.startsWith('fnk_') || rawKey.length > 200) return null;
+
+  const { data, error } = await client
+    .from('api_keys')
+    .select('id, name, key_prefix, daily_quota')
+    .eq('key_hash', await sha256Hex(rawKey))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`API key lookup failed: ${error.message}`);
+  }
+
+  return data as ApiKey | null;
+}
+
+export async function touchApiKey(client: SupabaseClient, keyId: string): Promise<void> {
+  const { error } = await client
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', keyId);
+
+  if (error) {
+    throw new Error(`Failed to update API key usage: ${error.message}`);
+  }
+}
+
+export async function consumeQuota(client: SupabaseClient, keyId: string): Promise<QuotaDecision> {
+  const { data, error } = await client.rpc('consume_api_quota', { p_api_key_id: keyId });
+
+  if (error) {
+    throw new Error(`Quota check failed: ${error.message}`);
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) {
+    throw new Error('Quota check returned no result');
+  }
+
+  return {
+    allowed: Boolean(row.allowed),
+    quota: Number(row.quota),
+    used: Number(row.used),
+    resetAt: Math.ceil(new Date(row.reset_at).getTime() / 1000),
+  };
+}
+
+export function quotaHeaders(decision: QuotaDecision): Record<string, string> {
+  return {
+    'X-Quota-Limit': String(decision.quota),
+    'X-Quota-Remaining': String(Math.max(0, decision.quota - decision.used)),
+    'X-Quota-Reset': String(decision.resetAt),
+  };
+}
+
+export async function recordApiKeyCheck(client: SupabaseClient, keyId: string, factCheckId: string): Promise<void> {
+  const { error } = await client
+    .from('api_key_checks')
+    .upsert({
+      api_key_id: keyId,
+      fact_check_id: factCheckId,
+      last_submitted_at: new Date().toISOString(),
+    }, { onConflict: 'api_key_id,fact_check_id' });
+
+  if (error) {
+    throw new Error(`Failed to record API key check: ${error.message}`);
+  }
+}
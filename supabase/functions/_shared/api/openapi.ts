@@ -0,0 +1,140 @@
+import { FieldSchema } from '../schema.ts';
+import {
+  API_ERROR_SCHEMA,
+  API_SOURCE_SCHEMA,
+  ARTICLE_SCHEMA,
+  CHECK_LIST_SCHEMA,
+  CHECK_SCHEMA,
+  CLAIM_SCHEMA,
+  CREATE_CHECK_REQUEST_SCHEMA,
+} from './schemas.ts';
+
+type JsonObject = Record<string, unknown>;
+
+// Schemas emitted under components.schemas and referenced by name elsewhere
+const NAMED_SCHEMAS: Array<[string, FieldSchema]> = [
+  ['Source', API_SOURCE_SCHEMA],
+  ['Claim', CLAIM_SCHEMA],
+  ['Article', ARTICLE_SCHEMA],
+  ['Check', CHECK_SCHEMA],
+  ['CheckList', CHECK_LIST_SCHEMA],
+  ['CreateCheckRequest', CREATE_CHECK_REQUEST_SCHEMA],
+  ['Error', API_ERROR_SCHEMA],
+];
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+// Converts a FieldSchema into an OpenAPI 3.0 schema object. Nested schemas
+// that have a component name become $refs.
+export function toOpenApiSchema(schema: FieldSchema, root = true): JsonObject {
+  const named = NAMED_SCHEMAS.find(([, candidate]) => candidate === schema);
+  if (named && !root) {
+    // $ref siblings are ignored in 3.0, so nullability needs a wrapper
+    return schema.nullable ? { allOf: [ref(named[0])], nullable: true } : ref(named[0]);
+  }
+
+  const annotations: JsonObject = {
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.nullable ? { nullable: true } : {}),
+  };
+
+  switch (schema.type) {
+    case 'string':
+      return {
+        type: 'string',
+        ...annotations,
+        ...(schema.enum ? { enum: [...schema.enum] } : {}),
+        ...(schema.minLength !== undefined ? { minLength: schema.minLength } : {}),
+        ...(schema.maxLength !== undefined ? { maxLength: schema.maxLength } : {}),
+        ...(schema.format ? { format: schema.format === 'http-url' ? 'uri' : schema.format } : {}),
+      };
+    case 'number':
+      return {
+        type: 'number',
+        ...annotations,
+        ...(schema.minimum !== undefined ? { minimum: schema.minimum } : {}),
+        ...(schema.maximum !== undefined ? { maximum: schema.maximum } : {}),
+      };
+    case 'boolean':
+      return { type: 'boolean', ...annotations };
+    case 'array':
+      return {
+        type: 'array',
+        ...annotations,
+        items: toOpenApiSchema(schema.items, false),
+        ...(schema.maxItems !== undefined ? { maxItems: schema.maxItems } : {}),
+      };
+    case 'object':
+      return {
+        type: 'object',
+        ...annotations,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toOpenApiSchema(value, false)])
+        ),
+        ...(schema.required.length > 0 ? { required: [...schema.required] } : {}),
+      };
+  }
+}
+
+const jsonContent = (name: string) => ({ 'application/json': { schema: ref(name) } });
+
+const errorResponse = (description: string) => ({ description, content: jsonContent('Error') });
+
+export function buildOpenApiDocument(serverUrl: string): JsonObject {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Detector de Fake News API',
+      version: '1.0.0',
+      description: 'Verificação automatizada de textos e notícias para parceiros. Autentique cada requisição com o cabeçalho x-api-key.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ ApiKey: [] }],
+    paths: {
+      '/v1/checks': {
+        post: {
+          summary: 'Verificar um texto ou link',
+          description: 'Consome uma unidade da cota diária da chave.',
+          requestBody: { required: true, content: jsonContent('CreateCheckRequest') },
+          responses: {
+            200: { description: 'Verificação concluída', content: jsonContent('Check') },
+            400: errorResponse('Requisição inválida'),
+            401: errorResponse('Chave de API ausente ou inválida'),
+            422: errorResponse('Não foi possível acessar o link informado'),
+            429: errorResponse('Limite de requisições ou cota diária excedidos'),
+          },
+        },
+        get: {
+          summary: 'Listar verificações criadas com esta chave',
+          parameters: [
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+            { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0, default: 0 } },
+          ],
+          responses: {
+            200: { description: 'Verificações, da mais recente para a mais antiga', content: jsonContent('CheckList') },
+            401: errorResponse('Chave de API ausente ou inválida'),
+            429: errorResponse('Limite de requisições excedido'),
+          },
+        },
+      },
+      '/v1/checks/{id}': {
+        get: {
+          summary: 'Consultar uma verificação',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }],
+          responses: {
+            200: { description: 'Verificação', content: jsonContent('Check') },
+            401: errorResponse('Chave de API ausente ou inválida'),
+            404: errorResponse('Verificação não encontrada'),
+            429: errorResponse('Limite de requisições excedido'),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        ApiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+      },
+      schemas: Object.fromEntries(NAMED_SCHEMAS.map(([name, schema]) => [name, toOpenApiSchema(schema)])),
+    },
+  };
+}
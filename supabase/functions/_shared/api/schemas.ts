@@ -0,0 +1,157 @@
+import { FieldSchema, ObjectSchemaFor } from '../schema.ts';
+import { ClaimVerdict, Source, VERDICT_STATUSES } from '../types.ts';
+import { ArticleMetadata } from '../article/index.ts';
+import { CheckOutcome } from '../pipeline.ts';
+
+// Request and response types of the public /v1 API. Each has a schema typed
+// against it; the schemas validate requests and generate the OpenAPI document.
+
+export interface CreateCheckRequest {
+  text?: string;
+  url?: string;
+  refresh?: boolean;
+}
+
+export type ApiCheck = CheckOutcome;
+
+export interface CheckList {
+  data: ApiCheck[];
+  pagination: { limit: number; offset: number; total: number };
+}
+
+export interface ApiError {
+  error: string;
+}
+
+const STATUS_SCHEMA: FieldSchema = {
+  type: 'string',
+  enum: VERDICT_STATUSES,
+  description: 'real: informação verdadeira; fake: possível fake news; uncertain: não foi possível confirmar',
+};
+
+const CONFIDENCE_SCHEMA: FieldSchema = { type: 'number', minimum: 0, maximum: 100, description: 'Confiança em %' };
+
+export const API_SOURCE_SCHEMA: ObjectSchemaFor<Source> = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    url: { type: 'string', format: 'http-url' },
+    summary: { type: 'string', minLength: 1 },
+    verified: { type: 'boolean', description: 'O link respondeu e o conteúdo corresponde à descrição; ausente em verificações antigas' },
+    http_status: { type: 'number', nullable: true, description: 'Status HTTP obtido ao verificar o link' },
+    check_failure: {
+      type: 'string',
+      enum: ['invalid_url', 'blocked_domain', 'unreachable', 'http_error', 'content_mismatch'],
+      nullable: true,
+      description: 'Motivo pelo qual o link não foi verificado',
+    },
+    tier: {
+      type: 'string',
+      enum: ['high', 'medium', 'low', 'unreliable'],
+      nullable: true,
+      description: 'Nível de credibilidade do domínio no cadastro de fontes; nulo se o domínio não estiver cadastrado',
+    },
+    source_type: {
+      type: 'string',
+      enum: ['official', 'press', 'academic', 'fact_checker', 'social', 'other'],
+      nullable: true,
+      description: 'Tipo de fonte segundo o cadastro de domínios',
+    },
+  },
+  required: ['title', 'url', 'summary'],
+};
+
+export const CLAIM_SCHEMA: ObjectSchemaFor<ClaimVerdict> = {
+  type: 'object',
+  properties: {
+    claim: { type: 'string', minLength: 1 },
+    start: { type: 'number', minimum: 0, nullable: true, description: 'Posição inicial no texto verificado' },
+    end: { type: 'number', minimum: 0, nullable: true, description: 'Posição final no texto verificado' },
+    status: STATUS_SCHEMA,
+    confidence: CONFIDENCE_SCHEMA,
+    justification: { type: 'string' },
+    sources: { type: 'array', items: API_SOURCE_SCHEMA },
+  },
+  required: ['claim', 'start', 'end', 'status', 'confidence', 'justification', 'sources'],
+};
+
+export const ARTICLE_SCHEMA: ObjectSchemaFor<ArticleMetadata> = {
+  type: 'object',
+  nullable: true,
+  description: 'Metadados da notícia, quando verificada por link',
+  properties: {
+    url: { type: 'string', format: 'http-url' },
+    title: { type: 'string', nullable: true },
+    byline: { type: 'string', nullable: true },
+    publishedAt: { type: 'string', nullable: true },
+    siteName: { type: 'string', nullable: true },
+  },
+  required: ['url', 'title', 'byline', 'publishedAt', 'siteName'],
+};
+
+export const CREATE_CHECK_REQUEST_SCHEMA: ObjectSchemaFor<CreateCheckRequest> = {
+  type: 'object',
+  description: 'Informe text ou url',
+  properties: {
+    text: { type: 'string', minLength: 1, maxLength: 2000, description: 'Texto a verificar (mínimo de 10 caracteres)' },
+    url: { type: 'string', format: 'http-url', maxLength: 2048, description: 'Link de uma notícia a verificar' },
+    refresh: { type: 'boolean', description: 'Ignora o cache e verifica novamente' },
+  },
+  required: [],
+};
+
+export const CHECK_SCHEMA: ObjectSchemaFor<ApiCheck> = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid', nullable: true },
+    status: STATUS_SCHEMA,
+    confidence: CONFIDENCE_SCHEMA,
+    justification: { type: 'string' },
+    sources: { type: 'array', items: API_SOURCE_SCHEMA },
+    claims: { type: 'array', items: CLAIM_SCHEMA },
+    article: ARTICLE_SCHEMA,
+    cached: { type: 'boolean', description: 'Resultado servido do cache' },
+    stale: { type: 'boolean', description: 'Resultado em cache expirado; uma nova verificação já foi agendada' },
+    reviewed: { type: 'boolean', description: 'Veredito confirmado ou corrigido por um checador' },
+    review_action: { type: 'string', enum: ['confirmed', 'overridden'], nullable: true },
+    checked_at: { type: 'string', format: 'date-time' },
+    expires_at: { type: 'string', format: 'date-time', nullable: true },
+    similar_to: {
+      type: 'object',
+      nullable: true,
+      description: 'Verificação anterior de um texto semelhante, cujo veredito foi reaproveitado',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        input_text: { type: 'string' },
+        similarity: { type: 'number', minimum: 0, maximum: 1, description: 'Similaridade de cosseno entre os textos' },
+      },
+      required: ['id', 'input_text', 'similarity'],
+    },
+  },
+  required: ['id', 'status', 'confidence', 'justification', 'sources', 'claims', 'article', 'cached', 'stale', 'reviewed', 'review_action', 'checked_at', 'expires_at', 'similar_to'],
+};
+
+export const CHECK_LIST_SCHEMA: ObjectSchemaFor<CheckList> = {
+  type: 'object',
+  properties: {
+    data: { type: 'array', items: CHECK_SCHEMA },
+    pagination: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', minimum: 1 },
+        offset: { type: 'number', minimum: 0 },
+        total: { type: 'number', minimum: 0 },
+      },
+      required: ['limit', 'offset', 'total'],
+    },
+  },
+  required: ['data', 'pagination'],
+};
+
+export const API_ERROR_SCHEMA: ObjectSchemaFor<ApiError> = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+  },
+  required: ['error'],
+};
@@ -0,0 +1,188 @@
+export interface ArticleMetadata {
+  url: string;
+  title: string | null;
+  byline: string | null;
+  publishedAt: string | null;
+  siteName: string | null;
+}
+
+export interface ExtractedArticle extends ArticleMetadata {
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', hellip: '…', mdash: '—', ndash: '–',
+  laquo: '«', raquo: '»', ldquo: '“', rdquo: '”', lsquo: '‘', rsquo: '’', ordm: 'º', ordf: 'ª',
+  aacute: 'á', agrave: 'à', acirc: 'â', atilde: 'ã', eacute: 'é', ecirc: 'ê', iacute: 'í',
+  oacute: 'ó', ocirc: 'ô', otilde: 'õ', uacute: 'ú', uuml: 'ü', ccedil: 'ç',
+  Aacute: 'Á', Agrave: 'À', Acirc: 'Â', Atilde: 'Ã', Eacute: 'É', Ecirc: 'Ê', Iacute: 'Í',
+  Oacute: 'Ó', Ocirc: 'Ô', Otilde: 'Õ', Uacute: 'Ú', Ccedil: 'Ç',
+};
+
+// Paragraphs that are navigation or promotion rather than article content
+const BOILERPLATE = /^(leia (também|mais)|veja (também|mais)|assine|compartilh|publicidade|cookies?|clique aqui|siga(-nos)? |receba (as )?notícias|todos os direitos reservados)/i;
+
+const MIN_PARAGRAPH_LENGTH = 40;
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code] ?? entity;
+  });
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function removeBlocks(html: string, tags: string[]): string {
+  return tags.reduce(
+    (result, tag) => result.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'), ' '),
+    html,
+  );
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(tag)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[3] ?? match[4] ?? match[5] ?? '');
+  }
+  return attributes;
+}
+
+function readMetaTags(html: string): Map<string, string> {
+  const meta = new Map<string, string>();
+
+  for (const tag of html.match(/<meta\b[^>]*>/gi) || []) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || attributes.itemprop || '').toLowerCase();
+    if (key && attributes.content && !meta.has(key)) {
+      meta.set(key, attributes.content.trim());
+    }
+  }
+  return meta;
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+// Find the first Article-like node in any JSON-LD block, including @graph
+function readJsonLdArticle(html: string): JsonLdNode | null {
+  const blocks = html.match(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>[\s\S]*?<\/script>/gi) || [];
+
+  for (const block of blocks) {
+    const json = block.replace(/^<script\b[^>]*>/i, '').replace(/<\/script>$/i, '');
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      continue;
+    }
+
+    const queue: unknown[] = [parsed];
+    while (queue.length > 0) {
+      const node = queue.shift();
+      if (Array.isArray(node)) {
+        queue.push(...node);
+      } else if (node && typeof node === 'object') {
+        const record = node as JsonLdNode;
+        const types = ([] as unknown[]).concat(record['@type'] ?? []);
+        if (types.some(type => typeof type === 'string' && /Article$/.test(type))) {
+          return record;
+        }
+        if (record['@graph']) {
+          queue.push(record['@graph']);
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function authorName(author: unknown): string | null {
+  if (typeof author === 'string') return author;
+  if (Array.isArray(author)) {
+    const names = author.map(authorName).filter((name): name is string => Boolean(name));
+    return names.length > 0 ? names.join(', ') : null;
+  }
+  if (author && typeof author === 'object' && typeof (author as JsonLdNode).name === 'string') {
+    return (author as JsonLdNode).name as string;
+  }
+  return null;
+}
+
+function toIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function firstMatch(html: string, pattern: RegExp): string | null {
+  const match = html.match(pattern);
+  return match ? stripTags(match[1]) || null : null;
+}
+
+// Pick the most content-rich region: the largest <article>, then <main>, then <body>
+function contentRegion(html: string): string {
+  const articles = html.match(/<article\b[^>]*>[\s\S]*?<\/article>/gi);
+  if (articles && articles.length > 0) {
+    return articles.reduce((largest, candidate) => candidate.length > largest.length ? candidate : largest);
+  }
+  return html.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1]
+    ?? html.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1]
+    ?? html;
+}
+
+function extractBody(html: string): string {
+  const region = contentRegion(html);
+  const paragraphs = (region.match(/<p\b[^>]*>[\s\S]*?<\/p>/gi) || [])
+    .map(stripTags)
+    .filter(paragraph => paragraph.length >= MIN_PARAGRAPH_LENGTH && !BOILERPLATE.test(paragraph));
+
+  return paragraphs.length > 0 ? paragraphs.join('\n') : stripTags(region);
+}
+
+// Heuristic article extraction: metadata from Open Graph / JSON-LD / meta
+// tags, body from paragraphs inside the main content region with page
+// chrome (navigation, headers, footers, sidebars, forms) removed.
+export function extractArticle(html: string, url: string): ExtractedArticle {
+  const withoutComments = html.replace(/<!--[\s\S]*?-->/g, ' ');
+  const meta = readMetaTags(withoutComments);
+  const jsonLd = readJsonLdArticle(withoutComments);
+  const cleaned = removeBlocks(
+    removeBlocks(withoutComments, ['script', 'style', 'noscript', 'svg', 'iframe', 'template']),
+    ['nav', 'header', 'footer', 'aside', 'form'],
+  );
+
+  const title = meta.get('og:title')
+    || (typeof jsonLd?.headline === 'string' ? jsonLd.headline : null)
+    || firstMatch(cleaned, /<h1\b[^>]*>([\s\S]*?)<\/h1>/i)
+    || firstMatch(withoutComments, /<title\b[^>]*>([\s\S]*?)<\/title>/i);
+
+  const byline = meta.get('author')
+    || authorName(jsonLd?.author)
+    || meta.get('article:author')
+    || null;
+
+  const publishedAt = toIsoDate(
+    meta.get('article:published_time')
+      || (typeof jsonLd?.datePublished === 'string' ? jsonLd.datePublished : null)
+      || meta.get('date')
+      || meta.get('pubdate')
+      || withoutComments.match(/<time\b[^>]*datetime\s*=\s*["']([^"']+)["']/i)?.[1],
+  );
+
+  return {
+    url,
+    title: title ? decodeEntities(title).trim() : null,
+    byline: byline ? decodeEntities(byline).trim() : null,
+    publishedAt,
+    siteName: meta.get('og:site_name') || null,
+    text: extractBody(cleaned),
+  };
+}
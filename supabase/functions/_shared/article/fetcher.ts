@@ -0,0 +1,223 @@
+export interface FetchedPage {
+  // Final URL after redirects
+  url: string;
+  status: number;
+  contentType: string;
+  html: string;
+}
+
+// Anything that can turn a URL into HTML. The HTTP implementation is used in
+// production; tests inject fixtures so no network access is needed.
+export type PageFetcher = (url: string) => Promise<FetchedPage>;
+
+export class FetchError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+const MAX_REDIRECTS = 5;
+
+const PRIVATE_IPV4 = [
+  /^10\./,
+  /^127\./,
+  /^169\.254\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+  /^0\./,
+];
+
+function isIpLiteral(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(':');
+}
+
+function isPrivateHost(host: string): boolean {
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+    return true;
+  }
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host)) {
+    return PRIVATE_IPV4.some(pattern => pattern.test(host));
+  }
+  if (host.includes(':')) {
+    // Loopback, unique-local, link-local and IPv4-mapped IPv6 addresses
+    return host === '::1' || host === '::' || /^f[cd]/.test(host) || host.startsWith('fe80:') || host.startsWith('::ffff:');
+  }
+  return false;
+}
+
+// Reject non-http(s) URLs and obvious internal targets. Only the URL itself
+// is checked here; assertPublicAddresses checks what its host resolves to.
+export function assertPublicHttpUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new FetchError('Invalid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FetchError('Only http(s) URLs are supported');
+  }
+
+  if (isPrivateHost(url.hostname.toLowerCase().replace(/^\[|\]$/g, ''))) {
+    throw new FetchError('URL points to a private address');
+  }
+
+  return url;
+}
+
+// Host name -> IPv4 and IPv6 addresses
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([Deno.resolveDns(hostname, 'A'), Deno.resolveDns(hostname, 'AAAA')]);
+  return lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : []);
+}
+
+// A public name can point at an internal address, so every address the host
+// resolves to is checked before connecting. The connection resolves the name
+// again; a record changed in between (DNS rebinding) is still only stopped
+// at the network layer.
+export async function assertPublicAddresses(url: URL, resolve: HostResolver = resolveHost): Promise<void> {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (isIpLiteral(host)) return;
+
+  const addresses = await resolve(host);
+  if (addresses.length === 0) {
+    throw new FetchError('Could not resolve host');
+  }
+  if (addresses.some(address => isPrivateHost(address.toLowerCase()))) {
+    throw new FetchError('URL points to a private address');
+  }
+}
+
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (total < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.length;
+  }
+  await reader.cancel().catch(() => {});
+
+  const bytes = new Uint8Array(Math.min(total, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const slice = chunk.subarray(0, bytes.length - offset);
+    bytes.set(slice, offset);
+    offset += slice.length;
+  }
+  return bytes;
+}
+
+function charsetOf(contentType: string): string {
+  const match = contentType.match(/charset=([\w-]+)/i);
+  return match ? match[1].toLowerCase() : 'utf-8';
+}
+
+export interface HttpFetcherOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  // Sent as the Accept header
+  accept?: string;
+  // Responses whose content type does not match are refused
+  contentTypes?: RegExp;
+  // DNS lookup of each host before it is fetched (resolveHost)
+  resolve?: HostResolver;
+}
+
+export function createHttpFetcher({
+  timeoutMs = 8000,
+  maxBytes = 2_000_000,
+  accept = 'text/html,application/xhtml+xml',
+  contentTypes = /html|xml/i,
+  resolve = resolveHost,
+}: HttpFetcherOptions = {}): PageFetcher {
+  return async (rawUrl: string): Promise<FetchedPage> => {
+    let url = assertPublicHttpUrl(rawUrl);
+
+    // Follow redirects manually so every hop goes through the address check
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      await assertPublicAddresses(url, resolve);
+      const response = await fetch(url, {
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeoutMs),
+        headers: {
+          'User-Agent': 'DetectorFakeNewsBot/1.0 (+verificacao de noticias)',
+          'Accept': accept,
+          'Accept-Language': 'pt-BR,pt;q=0.9',
+        },
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        url = assertPublicHttpUrl(new URL(location, url).toString());
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new FetchError(`HTTP ${response.status}`, response.status);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentTypes.test(contentType)) {
+        await response.body?.cancel();
+        throw new FetchError(`Unsupported content type: ${contentType}`, response.status);
+      }
+
+      let decoder: TextDecoder;
+      try {
+        decoder = new TextDecoder(charsetOf(contentType));
+      } catch {
+        decoder = new TextDecoder();
+      }
+
+      return {
+        url: url.toString(),
+        status: response.status,
+        contentType,
+        html: decoder.decode(await readLimited(response, maxBytes)),
+      };
+    }
+
+    throw new FetchError('Too many redirects');
+  };
+}
+
+// Serves pages from an in-memory URL -> HTML map
+export function createFixtureFetcher(fixtures: Record<string, string>): PageFetcher {
+  return (url: string): Promise<FetchedPage> => {
+    const html = fixtures[url];
+    if (html === undefined) {
+      return Promise.reject(new FetchError('Fixture not found', 404));
+    }
+    return Promise.resolve({ url, status: 200, contentType: 'text/html; charset=utf-8', html });
+  };
+}
+
+// ARTICLE_FIXTURES_DIR points to a directory with an index.json mapping
+// URLs to HTML files in the same directory.
+export async function loadFixtureFetcher(dir: string): Promise<PageFetcher> {
+  const index: Record<string, string> = JSON.parse(await Deno.readTextFile(`${dir}/index.json`));
+  const fixtures: Record<string, string> = {};
+
+  for (const [url, file] of Object.entries(index)) {
+    fixtures[url] = await Deno.readTextFile(`${dir}/${file}`);
+  }
+
+  return createFixtureFetcher(fixtures);
+}
+
+export function getPageFetcher(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): Promise<PageFetcher> {
+  const fixturesDir = env('ARTICLE_FIXTURES_DIR');
+  return fixturesDir ? loadFixtureFetcher(fixturesDir) : Promise.resolve(createHttpFetcher());
+}
@@ -0,0 +1,147 @@
+import { assertEquals, assertRejects, assertStringIncludes, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { assertPublicHttpUrl, createFixtureFetcher, createHttpFetcher, FetchError, ingestArticle } from './index.ts';
+
+const ARTICLE_URL = 'https://noticias.example.com/2025/05/vacina';
+
+const ARTICLE_HTML = `<!doctype html>
+<html lang="pt-BR">
+<head>
+  <title>Vacina | Notícias Exemplo</title>
+  <meta property="og:title" content="Ministério amplia vacinação contra a gripe">
+  <meta property="og:site_name" content="Notícias Exemplo">
+  <meta name="author" content="Ana Souza">
+  <meta property="article:published_time" content="2025-05-02T10:30:00-03:00">
+</head>
+<body>
+  <header><nav><a href="/">Início</a> <a href="/saude">Saúde</a></nav></header>
+  <article>
+    <h1>Título da página</h1>
+    <p>O Ministério da Saúde ampliou a vacinação contra a gripe para todas as idades a partir desta segunda-feira.</p>
+    <p>Leia também: outras notícias sobre saúde pública no país e no mundo inteiro.</p>
+    <p>Segundo a pasta, há doses suficientes em todos os postos de saúde do país &mdash; cerca de 80 milhões.</p>
+    <script>window.tracking = 'não é conteúdo do artigo nem deve aparecer no texto extraído';</script>
+  </article>
+  <footer><p>Todos os direitos reservados a Notícias Exemplo desde o ano de 1999.</p></footer>
+</body>
+</html>`;
+
+const JSON_LD_HTML = `<html><head>
+<script type="application/ld+json">
+{"@context": "https://schema.org", "@graph": [
+  {"@type": "WebSite", "name": "Portal"},
+  {"@type": "NewsArticle", "headline": "Boato sobre o PIX é falso", "datePublished": "2025-03-10",
+   "author": [{"@type": "Person", "name": "Carla Lima"}, {"@type": "Person", "name": "João Alves"}]}
+]}
+</script>
+</head><body><main><p>A Receita Federal negou que vá cobrar imposto sobre transferências feitas pelo PIX.</p></main></body></html>`;
+
+// Serves `routes` as responses for the duration of `run`
+async function withFetch(routes: Record<string, () => Response>, run: (requested: string[]) => Promise<void>): Promise<void> {
+  const original = globalThis.fetch;
+  const requested: string[] = [];
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    requested.push(url);
+    const route = routes[url];
+    return Promise.resolve(route ? route() : new Response('not found', { status: 404 }));
+  };
+  try {
+    await run(requested);
+  } finally {
+    globalThis.fetch = original;
+  }
+}
+
+function html(body: string): Response {
+  return new Response(body, { headers: { 'content-type': 'text/html; charset=utf-8' } });
+}
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 301, headers: { location } });
+}
+
+const publicDns = () => Promise.resolve(['203.0.113.10']);
+
+Deno.test('ingestArticle reads Open Graph metadata and the article paragraphs', async () => {
+  const article = await ingestArticle(ARTICLE_URL, createFixtureFetcher({ [ARTICLE_URL]: ARTICLE_HTML }));
+
+  assertEquals(article.url, ARTICLE_URL);
+  assertEquals(article.title, 'Ministério amplia vacinação contra a gripe');
+  assertEquals(article.byline, 'Ana Souza');
+  assertEquals(article.siteName, 'Notícias Exemplo');
+  assertEquals(article.publishedAt, '2025-05-02T13:30:00.000Z');
+  assertEquals(article.text, [
+    'O Ministério da Saúde ampliou a vacinação contra a gripe para todas as idades a partir desta segunda-feira.',
+    'Segundo a pasta, há doses suficientes em todos os postos de saúde do país — cerca de 80 milhões.',
+  ].join('\n'));
+});
+
+Deno.test('ingestArticle falls back to a JSON-LD article inside @graph', async () => {
+  const url = 'https://portal.example.com/pix';
+  const article = await ingestArticle(url, createFixtureFetcher({ [url]: JSON_LD_HTML }));
+
+  assertEquals(article.title, 'Boato sobre o PIX é falso');
+  assertEquals(article.byline, 'Carla Lima, João Alves');
+  assertEquals(article.publishedAt, '2025-03-10T00:00:00.000Z');
+  assertEquals(article.siteName, null);
+  assertStringIncludes(article.text, 'Receita Federal negou');
+});
+
+Deno.test('fixture fetchers reject URLs they have no page for', async () => {
+  await assertRejects(() => createFixtureFetcher({})(ARTICLE_URL), FetchError, 'Fixture not found');
+});
+
+Deno.test('the HTTP fetcher follows redirects and reports the final URL', async () => {
+  const finalUrl = 'https://www.noticias.example.com/2025/05/vacina';
+  await withFetch({
+    [ARTICLE_URL]: () => redirect('https://noticias.example.com/amp/vacina'),
+    'https://noticias.example.com/amp/vacina': () => redirect('/2025/05/vacina-final'),
+    'https://noticias.example.com/2025/05/vacina-final': () => redirect(finalUrl),
+    [finalUrl]: () => html(ARTICLE_HTML),
+  }, async (requested) => {
+    const article = await ingestArticle(ARTICLE_URL, createHttpFetcher({ resolve: publicDns }));
+
+    assertEquals(article.url, finalUrl);
+    assertEquals(article.title, 'Ministério amplia vacinação contra a gripe');
+    assertEquals(requested.length, 4);
+  });
+});
+
+Deno.test('the HTTP fetcher gives up after too many redirects', async () => {
+  await withFetch({ [ARTICLE_URL]: () => redirect(ARTICLE_URL) }, async () => {
+    await assertRejects(() => createHttpFetcher({ resolve: publicDns })(ARTICLE_URL), FetchError, 'Too many redirects');
+  });
+});
+
+Deno.test('private and non-http URLs are rejected before any request', () => {
+  for (const url of ['http://localhost/admin', 'http://127.0.0.1/', 'http://10.0.0.5/', 'http://192.168.1.1/', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/', 'http://[fd00::1]/', 'http://metadata.internal/', 'file:///etc/passwd']) {
+    assertThrows(() => assertPublicHttpUrl(url), FetchError);
+  }
+});
+
+Deno.test('the HTTP fetcher refuses hosts that resolve to private addresses', async () => {
+  await withFetch({ [ARTICLE_URL]: () => html(ARTICLE_HTML) }, async (requested) => {
+    for (const addresses of [['10.1.2.3'], ['203.0.113.10', '127.0.0.1'], ['fd12:3456::1']]) {
+      const fetcher = createHttpFetcher({ resolve: () => Promise.resolve(addresses) });
+      await assertRejects(() => fetcher(ARTICLE_URL), FetchError, 'private address');
+    }
+    await assertRejects(() => createHttpFetcher({ resolve: () => Promise.resolve([]) })(ARTICLE_URL), FetchError, 'Could not resolve host');
+    assertEquals(requested, []);
+  });
+});
+
+Deno.test('the HTTP fetcher checks where redirects point before following them', async () => {
+  const internal = 'http://intranet.example.com/admin';
+  await withFetch({ [ARTICLE_URL]: () => redirect(internal), [internal]: () => html('segredo') }, async (requested) => {
+    const fetcher = createHttpFetcher({
+      resolve: (host) => Promise.resolve(host === 'intranet.example.com' ? ['192.168.0.10'] : ['203.0.113.10']),
+    });
+    await assertRejects(() => fetcher(ARTICLE_URL), FetchError, 'private address');
+    assertEquals(requested, [ARTICLE_URL]);
+  });
+
+  await withFetch({ [ARTICLE_URL]: () => redirect('http://127.0.0.1:8080/') }, async (requested) => {
+    await assertRejects(() => createHttpFetcher({ resolve: publicDns })(ARTICLE_URL), FetchError, 'private address');
+    assertEquals(requested, [ARTICLE_URL]);
+  });
+});
@@ -0,0 +1,13 @@
+import { extractArticle, ExtractedArticle } from './extract.ts';
+import { PageFetcher } from './fetcher.ts';
+
+export type { ArticleMetadata, ExtractedArticle } from './extract.ts';
+export type { FetchedPage, HostResolver, HttpFetcherOptions, PageFetcher } from './fetcher.ts';
+export { extractArticle } from './extract.ts';
+export { assertPublicAddresses, assertPublicHttpUrl, createFixtureFetcher, createHttpFetcher, FetchError, getPageFetcher, loadFixtureFetcher, resolveHost } from './fetcher.ts';
+
+// Fetch a page and extract its article content and metadata
+export async function ingestArticle(url: string, fetcher: PageFetcher): Promise<ExtractedArticle> {
+  const page = await fetcher(url);
+  return extractArticle(page.html, page.url);
+}
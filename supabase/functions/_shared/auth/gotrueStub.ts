@@ -0,0 +1,217 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { signJwt, verifyJwt } from './jwt.ts';
+
+// In-memory stand-in for the subset of the GoTrue API the app uses: email
+// magic links (/otp, /verify), session refresh, /user and /logout. Tokens are
+// HS256 JWTs signed with the same secret the edge functions are given as
+// AUTH_JWT_SECRET, so they verify exactly like real Supabase sessions.
+//
+// Magic links are not emailed; they are logged and can be read back from
+// GET /auth/v1/_stub/links?email=... the way tests read Inbucket locally.
+//
+//   AUTH_JWT_SECRET=dev-secret deno run --allow-net --allow-env supabase/functions/_shared/auth/gotrueStub.ts
+
+export interface GoTrueStubOptions {
+  jwtSecret: string;
+  // Access token lifetime in seconds
+  expiresIn?: number;
+  now?: () => number;
+}
+
+interface StubUser {
+  id: string;
+  email: string;
+  created_at: string;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-api-version',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+function authError(message: string, status = 400): Response {
+  return json({ code: status, error_code: 'validation_failed', msg: message }, status);
+}
+
+function randomToken(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function createGoTrueStub(options: GoTrueStubOptions): (req: Request) => Promise<Response> {
+  const { jwtSecret, expiresIn = 3600, now = Date.now } = options;
+  const users = new Map<string, StubUser>(); // by email
+  const otps = new Map<string, string>(); // token -> email
+  const refreshTokens = new Map<string, string>(); // refresh token -> email
+  const links = new Map<string, string[]>(); // email -> magic links, newest last
+
+  const toUserJson = (user: StubUser) => ({
+    id: user.id,
+    aud: 'authenticated',
+    role: 'authenticated',
+    email: user.email,
+    email_confirmed_at: user.created_at,
+    created_at: user.created_at,
+    updated_at: user.created_at,
+    app_metadata: { provider: 'email', providers: ['email'] },
+    user_metadata: {},
+    identities: [],
+  });
+
+  const issueSession = async (user: StubUser) => {
+    const issuedAt = Math.floor(now() / 1000);
+    const refreshToken = randomToken();
+    refreshTokens.set(refreshToken, user.email);
+
+    return {
+      access_token: await signJwt({
+        sub: user.id,
+        email: user.email,
+        aud: 'authenticated',
+        role: 'authenticated',
+        iat: issuedAt,
+        exp: issuedAt + expiresIn,
+      }, jwtSecret),
+      token_type: 'bearer',
+      expires_in: expiresIn,
+      expires_at: issuedAt + expiresIn,
+      refresh_token: refreshToken,
+      user: toUserJson(user),
+    };
+  };
+
+  const userFromRequest = async (req: Request): Promise<StubUser | null> => {
+    const token = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '');
+    const payload = await verifyJwt(token, jwtSecret, now());
+    if (!payload || typeof payload.email !== 'string') return null;
+    return users.get(payload.email) ?? null;
+  };
+
+  const consumeOtp = (token: string): StubUser | null => {
+    const email = otps.get(token);
+    if (!email) return null;
+    otps.delete(token);
+    return users.get(email) ?? null;
+  };
+
+  return async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    const url = new URL(req.url);
+    const path = url.pathname.replace(/^\/auth\/v1/, '');
+
+    if (req.method === 'GET' && path === '/settings') {
+      return json({ external: { email: true }, disable_signup: false, mailer_autoconfirm: false });
+    }
+
+    if (req.method === 'POST' && path === '/otp') {
+      const body = await req.json().catch(() => ({}));
+      const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+      if (!email.includes('@')) {
+        return authError('Invalid email address');
+      }
+
+      if (!users.has(email)) {
+        if (body.create_user === false) {
+          return authError('Signups not allowed for otp', 422);
+        }
+        users.set(email, { id: crypto.randomUUID(), email, created_at: new Date(now()).toISOString() });
+      }
+
+      const token = randomToken();
+      otps.set(token, email);
+
+      const verifyUrl = new URL('/auth/v1/verify', url.origin);
+      verifyUrl.searchParams.set('token', token);
+      verifyUrl.searchParams.set('type', 'magiclink');
+      const redirectTo = url.searchParams.get('redirect_to');
+      if (redirectTo) verifyUrl.searchParams.set('redirect_to', redirectTo);
+
+      links.set(email, [...(links.get(email) ?? []), verifyUrl.toString()]);
+      console.log(`Magic link for ${email}: ${verifyUrl}`);
+      return json({});
+    }
+
+    // Link clicked in the email: redirect back to the app with the session
+    // in the URL fragment, as GoTrue's implicit flow does
+    if (req.method === 'GET' && path === '/verify') {
+      const user = consumeOtp(url.searchParams.get('token') ?? '');
+      const redirectTo = url.searchParams.get('redirect_to') ?? url.origin;
+
+      if (!user) {
+        const failure = new URL(redirectTo);
+        failure.hash = new URLSearchParams({ error: 'access_denied', error_code: 'otp_expired', error_description: 'Email link is invalid or has expired' }).toString();
+        return Response.redirect(failure.toString(), 303);
+      }
+
+      const session = await issueSession(user);
+      const target = new URL(redirectTo);
+      target.hash = new URLSearchParams({
+        access_token: session.access_token,
+        expires_at: String(session.expires_at),
+        expires_in: String(session.expires_in),
+        refresh_token: session.refresh_token,
+        token_type: session.token_type,
+        type: 'magiclink',
+      }).toString();
+      return Response.redirect(target.toString(), 303);
+    }
+
+    // verifyOtp() from supabase-js
+    if (req.method === 'POST' && path === '/verify') {
+      const body = await req.json().catch(() => ({}));
+      const user = consumeOtp(String(body.token ?? body.token_hash ?? ''));
+      return user ? json(await issueSession(user)) : authError('Token has expired or is invalid', 403);
+    }
+
+    if (req.method === 'POST' && path === '/token' && url.searchParams.get('grant_type') === 'refresh_token') {
+      const body = await req.json().catch(() => ({}));
+      const email = refreshTokens.get(String(body.refresh_token ?? ''));
+      const user = email ? users.get(email) : undefined;
+      if (!user) {
+        return authError('Invalid Refresh Token: Refresh Token Not Found');
+      }
+      refreshTokens.delete(String(body.refresh_token));
+      return json(await issueSession(user));
+    }
+
+    if (req.method === 'GET' && path === '/user') {
+      const user = await userFromRequest(req);
+      return user ? json(toUserJson(user)) : authError('invalid JWT', 401);
+    }
+
+    if (req.method === 'POST' && path === '/logout') {
+      const user = await userFromRequest(req);
+      if (user) {
+        for (const [token, email] of refreshTokens) {
+          if (email === user.email) refreshTokens.delete(token);
+        }
+      }
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+
+    if (req.method === 'GET' && path === '/_stub/links') {
+      const email = (url.searchParams.get('email') ?? '').toLowerCase();
+      return json({ links: links.get(email) ?? [] });
+    }
+
+    return authError(`Not supported by the GoTrue stand-in: ${req.method} ${path}`, 404);
+  };
+}
+
+if (import.meta.main) {
+  const jwtSecret = Deno.env.get('AUTH_JWT_SECRET');
+  if (!jwtSecret) {
+    console.error('AUTH_JWT_SECRET is required');
+    Deno.exit(1);
+  }
+
+  const port = Number(Deno.env.get('GOTRUE_STUB_PORT') ?? 9999);
+  serve(createGoTrueStub({ jwtSecret }), { port });
+}
@@ -0,0 +1,141 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifyJwt } from './jwt.ts';
+
+export { signJwt, verifyJwt } from './jwt.ts';
+export type { JwtPayload } from './jwt.ts';
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+// Resolves a bearer token to a signed-in user, or null for anonymous callers
+// (including requests carrying only the anon key)
+export type AuthVerifier = (token: string) => Promise<AuthUser | null>;
+
+// Asks the project's GoTrue server, which also catches revoked sessions
+export function createGoTrueVerifier(client: SupabaseClient): AuthVerifier {
+  return async (token) => {
+    const { data, error } = await client.auth.getUser(token);
+    if (error || !data.user) return null;
+    return { id: data.user.id, email: data.user.email ?? null };
+  };
+}
+
+// Verifies the token signature locally with the project's JWT secret. Used
+// with the GoTrue stand-in in tests, where there is no auth server to ask.
+export function createJwtVerifier(secret: string): AuthVerifier {
+  return async (token) => {
+    const payload = await verifyJwt(token, secret);
+    if (!payload || payload.role !== 'authenticated' || typeof payload.sub !== 'string') {
+      return null;
+    }
+    return { id: payload.sub, email: typeof payload.email === 'string' ? payload.email : null };
+  };
+}
+
+// AUTH_JWT_SECRET switches to local verification
+export function getAuthVerifier(client: SupabaseClient, env: (key: string) => string | undefined = (key) => Deno.env.get(key)): AuthVerifier {
+  const secret = env('AUTH_JWT_SECRET');
+  return secret ? createJwtVerifier(secret) : createGoTrueVerifier(client);
+}
+
+// Never throws: an unverifiable token is treated as an anonymous request
+export async function getRequestUser(req: Request, verifier: AuthVerifier): Promise<AuthUser | null> {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.get('authorization') ?? '');
+  if (!match) return null;
+
+  try {
+    return await verifier(match[1].trim());
+  } catch (error) {
+    console.error('Auth verification failed:', error.message);
+    return null;
+  }
+}
+
+// Server-side counterpart of the is_reviewer() SQL function, for functions
+// that run with the service role
+export async function isReviewer(client: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await client
+    .from('reviewers')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Reviewer lookup failed:', error.message);
+    return false;
+  }
+  return Boolean(data);
+}
+
+// Scheduled runs authenticate with the service role key itself
+export function isServiceRoleRequest(req: Request, serviceRoleKey: string): boolean {
+  return serviceRoleKey !== '' && req.headers.get('authorization') === `Bearer ${serviceRoleKey}`;
+}
+
+export async function requireReviewerOrServiceRole(req: Request, client: SupabaseClient, serviceRoleKey: string): Promise<boolean> {
+  if (isServiceRoleRequest(req, serviceRoleKey)) return true;
+
+  const user = await getRequestUser(req, getAuthVerifier(client));
+  return user !== null && await isReviewer(client, user.id);
+}
+
+const reviewerCorsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+export interface ReviewerEndpointContext {
+  client: SupabaseClient;
+  jsonHeaders: Record<string, string>;
+}
+
+// Request handler for POST-only maintenance endpoints open to reviewers and
+// to the service role: answers preflights, rejects other methods, callers
+// that are neither (with `forbidden` as the message) and unexpected errors.
+// `name` identifies the function in logs.
+export function reviewerEndpoint(
+  name: string,
+  forbidden: string,
+  handler: (req: Request, context: ReviewerEndpointContext) => Promise<Response>
+): (req: Request) => Promise<Response> {
+  return async (req) => {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: reviewerCorsHeaders });
+    }
+
+    const jsonHeaders = { ...reviewerCorsHeaders, 'Content-Type': 'application/json' };
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Método não suportado' }),
+        { status: 405, headers: { ...jsonHeaders, 'Allow': 'POST, OPTIONS' } }
+      );
+    }
+
+    try {
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+      const client = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+      if (!(await requireReviewerOrServiceRole(req, client, serviceRoleKey))) {
+        return new Response(
+          JSON.stringify({ error: forbidden }),
+          { status: 403, headers: jsonHeaders }
+        );
+      }
+
+      return await handler(req, { client, jsonHeaders });
+
+    } catch (error) {
+      console.error(`Unexpected error in ${name} function:`, error.message);
+
+      return new Response(
+        JSON.stringify({ error: 'Erro temporário no serviço. Tente novamente em alguns instantes.' }),
+        { status: 500, headers: jsonHeaders }
+      );
+    }
+  };
+}
@@ -0,0 +1,97 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadBatchConfig, mapWithConcurrency, runBatch } from './batch.ts';
+import { createFixtureFetcher } from './article/index.ts';
+import { CheckOutcome, PreparedInput } from './pipeline.ts';
+
+const provider = { name: 'fixture', model: 'fixture-1', complete: () => Promise.resolve('{}') };
+const client = {} as SupabaseClient;
+
+function outcomeFor(text: string): CheckOutcome {
+  return {
+    id: `check-${text.length}`,
+    status: 'uncertain',
+    confidence: 50,
+    justification: text,
+    sources: [],
+    claims: [],
+    article: null,
+    cached: false,
+    stale: false,
+    reviewed: false,
+    review_action: null,
+    checked_at: '2025-01-01T00:00:00.000Z',
+    expires_at: null,
+    similar_to: null,
+  };
+}
+
+Deno.test('loadBatchConfig falls back on values that are not positive integers', () => {
+  const env: Record<string, string> = { BATCH_MAX_ITEMS: '-5', BATCH_CONCURRENCY: '2.5', RATE_LIMIT_BATCH_REQUESTS: 'many' };
+  assertEquals(loadBatchConfig(key => env[key]), { maxItems: 20, concurrency: 3, requestsPerWindow: 6 });
+
+  const valid: Record<string, string> = { BATCH_MAX_ITEMS: '50', BATCH_CONCURRENCY: '4', RATE_LIMIT_BATCH_REQUESTS: '2' };
+  assertEquals(loadBatchConfig(key => valid[key]), { maxItems: 50, concurrency: 4, requestsPerWindow: 2 });
+});
+
+Deno.test('mapWithConcurrency keeps order and never exceeds the limit', async () => {
+  let running = 0;
+  let peak = 0;
+  const results = await mapWithConcurrency([5, 1, 4, 2, 3, 0, 2], 3, async (delay, index) => {
+    running++;
+    peak = Math.max(peak, running);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    running--;
+    return index * 10;
+  });
+
+  assertEquals(results, [0, 10, 20, 30, 40, 50, 60]);
+  assertEquals(peak, 3);
+});
+
+Deno.test('mapWithConcurrency starts no more workers than items', async () => {
+  let calls = 0;
+  assertEquals(await mapWithConcurrency(['a'], 5, (item) => Promise.resolve(`${item}${++calls}`)), ['a1']);
+  assertEquals(await mapWithConcurrency([], 5, () => Promise.resolve(0)), []);
+});
+
+Deno.test('runBatch verifies repeated texts once and points duplicates at the first', async () => {
+  const checked: string[] = [];
+  const results = await runBatch(client, [
+    { text: 'Vacina causa autismo' },
+    { text: 'Governo vai taxar o PIX' },
+    { text: '  Vacina   causa autismo ' },
+    { text: '' },
+    { text: 'Governo vai taxar o PIX' },
+  ], {
+    concurrency: 2,
+    getFetcher: () => Promise.resolve(createFixtureFetcher({})),
+    provider,
+    check: (_client, input: PreparedInput) => {
+      checked.push(input.text);
+      return Promise.resolve(outcomeFor(input.text));
+    },
+  });
+
+  assertEquals(checked.sort(), ['Governo vai taxar o PIX', 'Vacina causa autismo']);
+  assertEquals(results.map(result => result.duplicate_of), [null, null, 0, null, 1]);
+  assertEquals(results[2].check, results[0].check);
+  assertEquals(results[4].check, results[1].check);
+  assertEquals(results[3].check, null);
+  assert(results[3].error);
+});
+
+Deno.test('runBatch reports a failed check on every item that shares it', async () => {
+  const results = await runBatch(client, [{ text: 'Vacina causa autismo' }, { text: 'Vacina causa autismo' }, { text: 'Outro texto' }], {
+    concurrency: 3,
+    getFetcher: () => Promise.resolve(createFixtureFetcher({})),
+    provider,
+    check: (_client, input: PreparedInput) => input.text === 'Outro texto'
+      ? Promise.resolve(outcomeFor(input.text))
+      : Promise.reject(new Error('provider down')),
+  });
+
+  assertEquals(results.map(result => result.check === null), [true, true, false]);
+  assertEquals(results[0].error, results[1].error);
+  assertEquals(results[1].duplicate_of, 0);
+});
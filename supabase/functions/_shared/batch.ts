@@ -0,0 +1,113 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { LLMProvider } from './providers/types.ts';
+import { getProvider } from './providers/index.ts';
+import { buildCacheKey } from './cacheKey.ts';
+import { PageFetcher } from './article/index.ts';
+import { getRetriever } from './search/index.ts';
+import { CheckInput, CheckOutcome, InputError, optionalBackend, prepareInput, PreparedInput, runCheck } from './pipeline.ts';
+
+export interface BatchConfig {
+  maxItems: number;
+  concurrency: number;
+  // Each batch request may hold up to maxItems checks, so batches get their
+  // own, smaller per-user request budget
+  requestsPerWindow: number;
+}
+
+export interface BatchItemResult {
+  // Position of the item in the request
+  index: number;
+  check: CheckOutcome | null;
+  error: string | null;
+  // Index of the earlier item with the same cache key, whose result this reuses
+  duplicate_of: number | null;
+}
+
+export function loadBatchConfig(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): BatchConfig {
+  const number = (key: string, fallback: number) => {
+    const value = Number(env(key));
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    maxItems: number('BATCH_MAX_ITEMS', 20),
+    concurrency: number('BATCH_CONCURRENCY', 3),
+    requestsPerWindow: number('RATE_LIMIT_BATCH_REQUESTS', 6),
+  };
+}
+
+// Runs fn over items with at most `limit` calls in flight, keeping order
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Prepares every item, verifies each distinct cache key once and fans the
+// verdicts back out to the items that share it. A failing item never fails
+// the batch.
+export async function runBatch(
+  client: SupabaseClient,
+  inputs: CheckInput[],
+  options: {
+    concurrency: number;
+    getFetcher: () => Promise<PageFetcher>;
+    provider?: LLMProvider;
+    // runCheck unless replaced, as in tests
+    check?: typeof runCheck;
+  }
+): Promise<BatchItemResult[]> {
+  const check = options.check ?? runCheck;
+  // Without a provider every item gets runCheck's safe answer; the keys
+  // then only serve to verify duplicates once
+  const provider = options.provider ?? await optionalBackend('LLM provider', () => getProvider());
+  const retriever = await optionalBackend('Search', () => getRetriever());
+
+  const prepared = await mapWithConcurrency(inputs, options.concurrency, async (input) => {
+    try {
+      const item = await prepareInput(input, options.getFetcher);
+      return { item, key: await buildCacheKey(item.text, provider ?? { name: 'unavailable', model: 'none' }, retriever?.name), error: null };
+    } catch (e) {
+      return { item: null, key: null, error: e instanceof InputError ? e.message : 'Não foi possível preparar este item' };
+    }
+  });
+
+  // First item for each cache key
+  const firstByKey = new Map<string, number>();
+  prepared.forEach(({ key }, index) => {
+    if (key && !firstByKey.has(key)) firstByKey.set(key, index);
+  });
+
+  const unique = [...firstByKey.values()];
+  console.log('Batch of', inputs.length, 'items,', unique.length, 'distinct');
+
+  const outcomes = new Map<number, { check: CheckOutcome | null; error: string | null }>();
+  await mapWithConcurrency(unique, options.concurrency, async (index) => {
+    try {
+      const outcome = await check(client, prepared[index].item as PreparedInput, { provider: provider ?? undefined, retriever });
+      outcomes.set(index, { check: outcome, error: null });
+    } catch (e) {
+      console.error('Batch item failed:', e.message);
+      outcomes.set(index, { check: null, error: 'Falha temporária na verificação deste item' });
+    }
+  });
+
+  return prepared.map(({ key, error }, index) => {
+    if (!key) {
+      return { index, check: null, error, duplicate_of: null };
+    }
+
+    const first = firstByKey.get(key) as number;
+    const outcome = outcomes.get(first) ?? { check: null, error: 'Falha temporária na verificação deste item' };
+    return { index, ...outcome, duplicate_of: first === index ? null : first };
+  });
+}
@@ -0,0 +1,187 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ClaimVerdict, Source, VerificationResult, VerdictStatus } from './types.ts';
+import { CACHE_KEY_VERSION, isSameInput, STORED_INPUT_LENGTH } from './cacheKey.ts';
+import { claimsConflict } from './claimMatch.ts';
+import { TopicCategory } from './cachePolicy.ts';
+import { ArticleMetadata } from './article/index.ts';
+
+export interface FactCheckRow {
+  id: string;
+  input_text: string;
+  text_hash: string;
+  status: VerdictStatus;
+  confidence: number;
+  // Before calibration; null on rows stored before it existed
+  raw_confidence: number | null;
+  calibration_id: string | null;
+  justification: string;
+  sources: Source[] | null;
+  claims: ClaimVerdict[] | null;
+  article: ArticleMetadata | null;
+  search_results: Record<string, unknown> | null;
+  topic: TopicCategory | null;
+  expires_at: string | null;
+  embedding_model: string | null;
+  created_at: string;
+  // When the verdict was produced; updated_at also moves on metadata writes
+  verified_at: string;
+  updated_at: string;
+}
+
+// An earlier verdict whose input says the same thing in other words
+export interface SimilarCheck {
+  id: string;
+  input_text: string;
+  similarity: number;
+}
+
+export interface InputEmbedding {
+  vector: number[];
+  model: string;
+}
+
+// Look up a cached verdict by key, refusing rows whose stored input does not
+// match the request (hash collision or key reuse).
+export async function findCachedCheck(client: SupabaseClient, key: string, text: string): Promise<FactCheckRow | null> {
+  try {
+    const { data, error } = await client
+      .from('fact_checks')
+      .select('*')
+      .eq('text_hash', key)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    if (!isSameInput(data.input_text, text)) {
+      console.error('Cache key collision detected, ignoring cached result:', key);
+      return null;
+    }
+
+    return data as FactCheckRow;
+  } catch (e) {
+    console.error('Cache lookup failed:', e.message);
+    return null;
+  }
+}
+
+// Candidates fetched per lookup, so a close match that makes a different
+// claim does not hide the next one
+const SIMILAR_CANDIDATES = 5;
+
+// Closest unexpired verdict embedded with the same model, in the same cache
+// scope, whose text does not contradict the request's. A failed lookup is a miss: the text is
+// verified from scratch.
+export async function findSimilarCheck(
+  client: SupabaseClient,
+  embedding: InputEmbedding,
+  minSimilarity: number,
+  scope: string,
+  text: string
+): Promise<SimilarCheck | null> {
+  try {
+    const { data, error } = await client.rpc('match_similar_checks', {
+      p_embedding: JSON.stringify(embedding.vector),
+      p_model: embedding.model,
+      p_scope: scope,
+      p_min_similarity: minSimilarity,
+      p_limit: SIMILAR_CANDIDATES,
+    });
+
+    if (error) {
+      console.error('Similar check lookup failed:', error.message);
+      return null;
+    }
+
+    const candidates = (data ?? []) as SimilarCheck[];
+    const match = candidates.find(candidate => !claimsConflict(candidate.input_text, text));
+    if (candidates.length > 0 && !match) {
+      console.log('Similar checks make a different claim, ignoring:', candidates.map(candidate => candidate.id).join(', '));
+    }
+    return match ?? null;
+  } catch (e) {
+    console.error('Similar check lookup failed:', e.message);
+    return null;
+  }
+}
+
+export async function findCheckById(client: SupabaseClient, id: string): Promise<FactCheckRow | null> {
+  const { data, error } = await client
+    .from('fact_checks')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Check lookup failed:', error.message);
+    return null;
+  }
+  return data as FactCheckRow | null;
+}
+
+// Attaches an embedding to a row stored before embeddings were configured
+export async function saveEmbedding(client: SupabaseClient, id: string, embedding: InputEmbedding): Promise<void> {
+  const { error } = await client
+    .from('fact_checks')
+    .update({ embedding: JSON.stringify(embedding.vector), embedding_model: embedding.model })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Failed to store embedding:', error.message);
+  }
+}
+
+// Insert or refresh the cached verdict for a key
+export async function saveCheck(
+  client: SupabaseClient,
+  entry: {
+    key: string;
+    scope: string;
+    text: string;
+    result: VerificationResult;
+    topic: TopicCategory;
+    expiresAt: Date;
+    article?: ArticleMetadata | null;
+    embedding?: InputEmbedding | null;
+    calibration?: { raw_confidence: number; calibration_id: string | null } | null;
+  },
+): Promise<FactCheckRow | null> {
+  const { key, scope, text, result, topic, expiresAt, article = null, embedding = null, calibration = null } = entry;
+
+  try {
+    const { data, error } = await client
+      .from('fact_checks')
+      .upsert({
+        input_text: text.substring(0, STORED_INPUT_LENGTH), // Store limited text for privacy
+        text_hash: key,
+        cache_key_version: CACHE_KEY_VERSION,
+        cache_scope: scope,
+        status: result.status,
+        confidence: result.confidence,
+        raw_confidence: calibration?.raw_confidence ?? result.confidence,
+        calibration_id: calibration?.calibration_id ?? null,
+        justification: result.justification,
+        sources: result.sources,
+        claims: result.claims,
+        article,
+        topic,
+        expires_at: expiresAt.toISOString(),
+        verified_at: new Date().toISOString(),
+        ...(embedding ? { embedding: JSON.stringify(embedding.vector), embedding_model: embedding.model } : {}),
+        search_results: { ...result.search_results, cached: false, timestamp: new Date().toISOString() }
+      }, { onConflict: 'text_hash' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to cache result:', error.message);
+      return null;
+    }
+
+    return data as FactCheckRow;
+  } catch (e) {
+    console.error('Failed to cache result:', e.message);
+    return null;
+  }
+}
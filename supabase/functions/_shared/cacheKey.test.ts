@@ -0,0 +1,44 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { buildCacheKey, buildCacheScope, CACHE_KEY_VERSION, canonicalizeText, isSameInput, STORED_INPUT_LENGTH } from './cacheKey.ts';
+import { PROMPT_VERSION } from './prompt.ts';
+import { sha256Hex } from './crypto.ts';
+
+const gemini = { name: 'gemini', model: 'gemini-1.5-flash' };
+
+Deno.test('buildCacheScope names the key version, model, search backend and prompt', () => {
+  assertEquals(buildCacheScope(gemini), `${CACHE_KEY_VERSION}|gemini:gemini-1.5-flash|${PROMPT_VERSION}`);
+  assertEquals(buildCacheScope(gemini, 'brave'), `${CACHE_KEY_VERSION}|gemini:gemini-1.5-flash+search:brave|${PROMPT_VERSION}`);
+});
+
+Deno.test('buildCacheKey hashes the scope with the canonical text', async () => {
+  const key = await buildCacheKey('  Vacina   CAUSA autismo\n', gemini);
+  assertEquals(key, await sha256Hex(`${buildCacheScope(gemini)}|vacina causa autismo`));
+  assert(/^[0-9a-f]{64}$/.test(key));
+});
+
+Deno.test('cache keys differ by model, provider and search backend but not by spacing or case', async () => {
+  const text = 'Governo vai taxar o PIX';
+  const keys = await Promise.all([
+    buildCacheKey(text, gemini),
+    buildCacheKey(text, { name: 'gemini', model: 'gemini-1.5-pro' }),
+    buildCacheKey(text, { name: 'openai', model: 'gemini-1.5-flash' }),
+    buildCacheKey(text, gemini, 'brave'),
+    buildCacheKey(text, gemini, 'elasticsearch'),
+  ]);
+
+  assertEquals(new Set(keys).size, keys.length);
+  assertEquals(await buildCacheKey(' governo VAI taxar  o pix ', gemini), keys[0]);
+});
+
+Deno.test('canonicalizeText folds compatibility forms', () => {
+  assertEquals(canonicalizeText('ＰＩＸ taxado'), 'pix taxado');
+});
+
+Deno.test('isSameInput compares whole texts, or the stored prefix of long ones', () => {
+  assert(isSameInput('Vacina causa autismo', 'vacina  causa autismo'));
+  assert(!isSameInput('Vacina causa autismo', 'Vacina causa autismo em crianças'));
+
+  const long = 'a'.repeat(STORED_INPUT_LENGTH + 100);
+  assert(isSameInput(long.slice(0, STORED_INPUT_LENGTH), long));
+  assert(!isSameInput(long.slice(0, STORED_INPUT_LENGTH), 'b' + long));
+});
@@ -0,0 +1,47 @@
+import { LLMProvider } from './providers/index.ts';
+import { PROMPT_VERSION } from './prompt.ts';
+import { sha256Hex } from './crypto.ts';
+
+// Version of the key derivation itself. Version 1 was the legacy 32-bit
+// rolling hash; keep in sync with the re-keying migration.
+export const CACHE_KEY_VERSION = 2;
+
+// Canonical form used for cache keys and collision checks. Must stay in sync
+// with the SQL expression in the re-keying migration.
+export function canonicalizeText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .trim()
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+}
+
+// Everything besides the text that can change the verdict: key derivation
+// version, provider/model, search backend and prompt version. Stored with
+// each verdict so near-duplicate matches stay within the same scope as
+// exact cache hits. Ungrounded checks keep the scope they had before search
+// backends existed.
+export function buildCacheScope(provider: Pick<LLMProvider, 'name' | 'model'>, searchProvider?: string): string {
+  const model = `${provider.name}:${provider.model}${searchProvider ? `+search:${searchProvider}` : ''}`;
+  return `${CACHE_KEY_VERSION}|${model}|${PROMPT_VERSION}`;
+}
+
+// SHA-256 over the cache scope and the canonical text
+export function buildCacheKey(text: string, provider: Pick<LLMProvider, 'name' | 'model'>, searchProvider?: string): Promise<string> {
+  return sha256Hex(`${buildCacheScope(provider, searchProvider)}|${canonicalizeText(text)}`);
+}
+
+// fact_checks.input_text only keeps a prefix of the request for privacy
+export const STORED_INPUT_LENGTH = 500;
+
+// Guard against serving someone else's verdict: the stored input must match
+// the request's canonical text (only the stored prefix for long requests).
+export function isSameInput(storedText: string, requestText: string): boolean {
+  const stored = canonicalizeText(storedText);
+  const requested = canonicalizeText(requestText);
+
+  if (storedText.length < STORED_INPUT_LENGTH) {
+    return stored === requested;
+  }
+  return requested.startsWith(stored);
+}
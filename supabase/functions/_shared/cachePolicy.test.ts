@@ -0,0 +1,22 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { computeExpiry, DEFAULT_TTL_POLICY, loadTtlPolicy } from './cachePolicy.ts';
+
+const now = new Date('2025-01-01T00:00:00.000Z');
+const hoursAfter = (date: Date) => (date.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+Deno.test('computeExpiry takes the shorter of the status and topic lifetimes', () => {
+  assertEquals(hoursAfter(computeExpiry('fake', 'politics', DEFAULT_TTL_POLICY, false, now)), 48);
+  assertEquals(hoursAfter(computeExpiry('uncertain', 'health', DEFAULT_TTL_POLICY, false, now)), 24);
+});
+
+Deno.test('fallback verdicts expire after the fallback lifetime whatever their status', () => {
+  assertEquals(hoursAfter(computeExpiry('uncertain', 'general', DEFAULT_TTL_POLICY, true, now)), 0.25);
+  assertEquals(hoursAfter(computeExpiry('uncertain', 'general', loadTtlPolicy(() => '{"fallback":1}'), true, now)), 1);
+});
+
+Deno.test('loadTtlPolicy keeps defaults for what it does not override', () => {
+  const policy = loadTtlPolicy(() => '{"status":{"uncertain":6},"fallback":-1}');
+  assertEquals(policy.status, { ...DEFAULT_TTL_POLICY.status, uncertain: 6 });
+  assertEquals(policy.topic, DEFAULT_TTL_POLICY.topic);
+  assertEquals(policy.fallback, DEFAULT_TTL_POLICY.fallback);
+});
@@ -0,0 +1,75 @@
+import { VerdictStatus } from './types.ts';
+
+export type TopicCategory = 'breaking' | 'politics' | 'health' | 'science' | 'general';
+
+// Cache lifetimes in hours. A cached verdict expires after the shorter of
+// its status TTL and its topic TTL.
+export interface TtlPolicy {
+  status: Record<VerdictStatus, number>;
+  topic: Record<TopicCategory, number>;
+  // Safe answers given because the provider failed or its output could not
+  // be parsed say nothing about the text, so they expire almost at once
+  fallback: number;
+}
+
+export const DEFAULT_TTL_POLICY: TtlPolicy = {
+  status: {
+    real: 24 * 7,
+    fake: 24 * 30,
+    uncertain: 24,
+  },
+  topic: {
+    breaking: 6,
+    politics: 48,
+    health: 24 * 30,
+    science: 24 * 90,
+    general: 24 * 30,
+  },
+  fallback: 0.25,
+};
+
+// Whole-word, accent-aware match (\b only understands ASCII word characters)
+function keywords(words: string[]): RegExp {
+  return new RegExp(`(?<!\\p{L})(${words.join('|')})(?!\\p{L})`, 'iu');
+}
+
+// Checked in order; the first category with a matching keyword wins
+const TOPIC_KEYWORDS: Array<[TopicCategory, RegExp]> = [
+  ['breaking', keywords(['urgente', 'agora', 'hoje', 'ontem', 'acaba de', 'últimas notícias', 'ao vivo'])],
+  ['politics', keywords(['presidente', 'governo', 'ministr[oa]', 'ministério', 'senado', 'câmara', 'deputad[oa]s?', 'senador(?:a|es)?', 'eleição', 'eleições', 'stf', 'prefeit[oa]', 'governador(?:a)?'])],
+  ['health', keywords(['vacinas?', 'covid', 'vírus', 'doenças?', 'saúde', 'remédios?', 'medicamentos?', 'câncer', 'cura', 'sus', 'anvisa', 'gripe', 'autismo'])],
+  ['science', keywords(['cientistas?', 'pesquisas?', 'estudos?', 'universidades?', 'nasa', 'espaço', 'clima', 'aquecimento global'])],
+];
+
+export function detectTopic(text: string): TopicCategory {
+  const match = TOPIC_KEYWORDS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : 'general';
+}
+
+// CACHE_TTL_POLICY may override any subset of the defaults, e.g.
+// {"status":{"uncertain":6},"topic":{"breaking":2},"fallback":0.5}
+export function loadTtlPolicy(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): TtlPolicy {
+  const raw = env('CACHE_TTL_POLICY');
+  if (!raw) return DEFAULT_TTL_POLICY;
+
+  try {
+    const overrides = JSON.parse(raw);
+    return {
+      status: { ...DEFAULT_TTL_POLICY.status, ...overrides.status },
+      topic: { ...DEFAULT_TTL_POLICY.topic, ...overrides.topic },
+      fallback: typeof overrides.fallback === 'number' && overrides.fallback > 0 ? overrides.fallback : DEFAULT_TTL_POLICY.fallback,
+    };
+  } catch {
+    console.error('Invalid CACHE_TTL_POLICY, using defaults');
+    return DEFAULT_TTL_POLICY;
+  }
+}
+
+export function computeExpiry(status: VerdictStatus, topic: TopicCategory, policy: TtlPolicy, fallback = false, now = new Date()): Date {
+  const hours = fallback ? policy.fallback : Math.min(policy.status[status], policy.topic[topic]);
+  return new Date(now.getTime() + hours * 60 * 60 * 1000);
+}
+
+export function isExpired(expiresAt: string | null, now = new Date()): boolean {
+  return !expiresAt || new Date(expiresAt).getTime() <= now.getTime();
+}
@@ -0,0 +1,52 @@
+import { assert, assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { applyCurve, coversScore, fitCurve, fitIsotonic, fitPlatt, LabeledScore } from './fit.ts';
+
+// `correct` of every `total` verdicts given this score were right
+function samplesAt(score: number, correct: number, total: number): LabeledScore[] {
+  return Array.from({ length: total }, (_, index) => ({ score, correct: index < correct }));
+}
+
+Deno.test('fitIsotonic keeps monotone accuracies as they are', () => {
+  const curve = fitIsotonic([...samplesAt(50, 1, 4), ...samplesAt(70, 2, 4), ...samplesAt(90, 3, 4)]);
+  assertEquals(curve, { type: 'isotonic', points: [[50, 0.25], [70, 0.5], [90, 0.75]] });
+});
+
+Deno.test('fitIsotonic pools scores whose accuracy drops', () => {
+  const curve = fitIsotonic([...samplesAt(60, 3, 4), ...samplesAt(80, 1, 4), ...samplesAt(90, 4, 4)]);
+  assertEquals(curve, { type: 'isotonic', points: [[70, 0.5], [90, 1]] });
+});
+
+Deno.test('isotonic curves interpolate between points and stay flat outside', () => {
+  const curve = fitIsotonic([...samplesAt(50, 1, 4), ...samplesAt(90, 3, 4)]);
+  assertEquals(applyCurve(curve, 30), 0.25);
+  assertEquals(applyCurve(curve, 70), 0.5);
+  assertEquals(applyCurve(curve, 99), 0.75);
+});
+
+Deno.test('fitPlatt recovers accuracy that rises with the score', () => {
+  const curve = fitPlatt([
+    ...samplesAt(40, 20, 100),
+    ...samplesAt(60, 50, 100),
+    ...samplesAt(80, 80, 100),
+  ]);
+  assertAlmostEquals(applyCurve(curve, 40), 0.2, 0.03);
+  assertAlmostEquals(applyCurve(curve, 60), 0.5, 0.03);
+  assertAlmostEquals(applyCurve(curve, 80), 0.8, 0.03);
+});
+
+Deno.test('fitPlatt stays inside (0, 1) on a separable sample', () => {
+  const curve = fitPlatt([...samplesAt(30, 0, 10), ...samplesAt(90, 10, 10)]);
+  const low = applyCurve(curve, 30);
+  const high = applyCurve(curve, 90);
+  assert(low > 0 && low < 0.2, `low ${low}`);
+  assert(high < 1 && high > 0.8, `high ${high}`);
+});
+
+Deno.test('fitCurve only covers the scores it was fitted on', () => {
+  for (const method of ['isotonic', 'platt'] as const) {
+    const curve = fitCurve(method, [...samplesAt(35, 1, 4), ...samplesAt(65, 3, 4)]);
+    assertEquals(curve.domain, [35, 65]);
+    assert(coversScore(curve, 35) && coversScore(curve, 50) && coversScore(curve, 65), method);
+    assert(!coversScore(curve, 30) && !coversScore(curve, 90), method);
+  }
+});
@@ -0,0 +1,139 @@
+// Fitting maps from the confidence a verdict was given (0-100) to the
+// share of such verdicts reviewers agreed with (0-1).
+
+export interface LabeledScore {
+  score: number;
+  correct: boolean;
+}
+
+export type CalibrationMethod = 'isotonic' | 'platt';
+
+export type CurveShape =
+  // Non-decreasing step points, interpolated linearly and flat outside
+  | { type: 'isotonic'; points: Array<[number, number]> }
+  // Logistic curve over score / 100
+  | { type: 'platt'; a: number; b: number };
+
+// Lowest and highest score seen while fitting
+export type CalibrationCurve = CurveShape & { domain: [number, number] };
+
+export const CALIBRATION_METHODS: CalibrationMethod[] = ['isotonic', 'platt'];
+
+// Pool adjacent violators over the distinct scores: neighbouring blocks
+// are merged until accuracy never drops as the score rises
+export function fitIsotonic(samples: LabeledScore[]): CurveShape {
+  const byScore = new Map<number, { correct: number; total: number }>();
+  for (const { score, correct } of samples) {
+    const bucket = byScore.get(score) ?? { correct: 0, total: 0 };
+    bucket.correct += Number(correct);
+    bucket.total++;
+    byScore.set(score, bucket);
+  }
+
+  const blocks: Array<{ from: number; to: number; correct: number; total: number }> = [];
+  for (const [score, bucket] of [...byScore].sort(([a], [b]) => a - b)) {
+    blocks.push({ from: score, to: score, ...bucket });
+
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.correct / previous.total < last.correct / last.total) break;
+
+      blocks.splice(-2, 2, {
+        from: previous.from,
+        to: last.to,
+        correct: previous.correct + last.correct,
+        total: previous.total + last.total,
+      });
+    }
+  }
+
+  return {
+    type: 'isotonic',
+    points: blocks.map(block => [(block.from + block.to) / 2, block.correct / block.total]),
+  };
+}
+
+// Platt scaling: logistic regression of correctness on the score, fitted by
+// Newton's method against Platt's smoothed targets so that a perfectly
+// separable sample does not push the curve to 0 and 1
+export function fitPlatt(samples: LabeledScore[]): CurveShape {
+  const positives = samples.filter(sample => sample.correct).length;
+  const negatives = samples.length - positives;
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+
+  let a = 0;
+  let b = Math.log((positives + 1) / (negatives + 1));
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let gradientA = 0;
+    let gradientB = 0;
+    let hessianAA = 1e-9;
+    let hessianAB = 0;
+    let hessianBB = 1e-9;
+
+    for (const { score, correct } of samples) {
+      const x = score / 100;
+      const p = 1 / (1 + Math.exp(-(a * x + b)));
+      const error = p - (correct ? high : low);
+      const weight = p * (1 - p);
+      gradientA += error * x;
+      gradientB += error;
+      hessianAA += weight * x * x;
+      hessianAB += weight * x;
+      hessianBB += weight;
+    }
+
+    const determinant = hessianAA * hessianBB - hessianAB * hessianAB;
+    if (Math.abs(determinant) < 1e-12) break;
+
+    const stepA = (hessianBB * gradientA - hessianAB * gradientB) / determinant;
+    const stepB = (hessianAA * gradientB - hessianAB * gradientA) / determinant;
+    a -= stepA;
+    b -= stepB;
+
+    if (Math.abs(stepA) < 1e-8 && Math.abs(stepB) < 1e-8) break;
+  }
+
+  return { type: 'platt', a, b };
+}
+
+export function fitCurve(method: CalibrationMethod, samples: LabeledScore[]): CalibrationCurve {
+  const scores = samples.map(sample => sample.score);
+  return {
+    ...(method === 'platt' ? fitPlatt(samples) : fitIsotonic(samples)),
+    domain: [Math.min(...scores), Math.max(...scores)],
+  };
+}
+
+// Whether the curve learned anything about this score. Outside the fitted
+// range an isotonic curve is flat and a logistic one extrapolates, so
+// neither says how often such verdicts are right.
+export function coversScore(curve: CalibrationCurve, score: number): boolean {
+  return score >= curve.domain[0] && score <= curve.domain[1];
+}
+
+// Probability, from 0 to 1, that a verdict with this score is right
+export function applyCurve(curve: CurveShape, score: number): number {
+  if (curve.type === 'platt') {
+    return 1 / (1 + Math.exp(-(curve.a * score / 100 + curve.b)));
+  }
+
+  const { points } = curve;
+  if (points.length === 0) return score / 100;
+  if (score <= points[0][0]) return points[0][1];
+  if (score >= points[points.length - 1][0]) return points[points.length - 1][1];
+
+  const upper = points.findIndex(([x]) => x >= score);
+  const [x0, y0] = points[upper - 1];
+  const [x1, y1] = points[upper];
+  return y0 + (y1 - y0) * (score - x0) / (x1 - x0);
+}
+
+// Mean squared gap between predicted probability and outcome; lower is better
+export function brierScore<T extends LabeledScore>(samples: T[], predict: (sample: T) => number): number {
+  if (samples.length === 0) return 0;
+  const total = samples.reduce((sum, sample) => sum + (predict(sample) - Number(sample.correct)) ** 2, 0);
+  return total / samples.length;
+}
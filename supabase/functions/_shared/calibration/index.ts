@@ -0,0 +1,188 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { VerdictStatus, VerificationResult, VERDICT_STATUSES } from '../types.ts';
+import { applyCurve, brierScore, CalibrationCurve, CalibrationMethod, coversScore, fitCurve, LabeledScore } from './fit.ts';
+
+export type { CalibrationCurve, CalibrationMethod, LabeledScore } from './fit.ts';
+export { applyCurve, brierScore, CALIBRATION_METHODS, coversScore, fitIsotonic, fitPlatt } from './fit.ts';
+
+// The model is told to answer 70-95 for firm verdicts and 30-60 for
+// uncertain ones, so its confidence is a prompt artifact. Calibration maps
+// it to how often reviewers agreed with verdicts given that confidence,
+// learned from reviewed checks (see the calibrate-confidence function).
+
+export interface ConfidenceCalibration {
+  id: string;
+  method: CalibrationMethod;
+  // One curve per verdict status with enough reviews of its own; `all`
+  // covers the rest
+  curves: Partial<Record<VerdictStatus | 'all', CalibrationCurve>>;
+}
+
+export interface LabeledVerdict extends LabeledScore {
+  status: VerdictStatus;
+}
+
+export interface CalibrationFit {
+  method: CalibrationMethod;
+  curves: ConfidenceCalibration['curves'];
+  sample_count: number;
+  // Which reviewed checks the fit learned from (REVIEW_SAMPLING)
+  sampling: string;
+  // In-sample, before and after calibration
+  brier_raw: number;
+  brier_calibrated: number;
+}
+
+export interface CalibratedResult {
+  result: VerificationResult;
+  // What the pipeline produced before calibration
+  raw_confidence: number;
+  calibration_id: string | null;
+}
+
+const CALIBRATION_TTL_MS = 5 * 60 * 1000;
+
+const REVIEWED_SAMPLE_LIMIT = 5000;
+
+// Checks reach the review queue either because users disputed them or
+// because their raw confidence was below 70. Disputed checks are far more
+// often wrong than others with the same confidence, so they are left out.
+// What remains covers low confidences only: curves are not applied beyond
+// the scores they were fitted on (coversScore), so firm verdicts keep the
+// model's confidence until reviews of them are sampled too.
+export const REVIEW_SAMPLING = 'unflagged_model_verdict';
+
+let cachedCalibration: { calibration: ConfidenceCalibration | null; loadedAt: number } | null = null;
+
+// Verdicts taken from published fact-checks carry a fixed confidence, not
+// a model score
+function fromClaimReviewsOnly(searchResults: Record<string, unknown> | null): boolean {
+  const outcomes = searchResults?.outcomes;
+  return Array.isArray(outcomes) && outcomes.length > 0 && outcomes.every(outcome => outcome === 'claim_review');
+}
+
+// Null when no curve covers this status and confidence
+export function calibrateConfidence(calibration: ConfidenceCalibration, status: VerdictStatus, confidence: number): number | null {
+  const curve = calibration.curves[status] ?? calibration.curves.all;
+  if (!curve || !coversScore(curve, confidence)) return null;
+  return Math.max(0, Math.min(99, Math.round(applyCurve(curve, confidence) * 100)));
+}
+
+// Replaces the overall confidence with its calibrated value. Per-claim
+// confidences stay as the model gave them.
+export function applyCalibration(result: VerificationResult, calibration: ConfidenceCalibration | null): CalibratedResult {
+  const calibrated = calibration && !fromClaimReviewsOnly(result.search_results)
+    ? calibrateConfidence(calibration, result.status, result.confidence)
+    : null;
+
+  if (calibrated === null) {
+    return { result, raw_confidence: result.confidence, calibration_id: null };
+  }
+
+  return {
+    result: { ...result, confidence: calibrated },
+    raw_confidence: result.confidence,
+    calibration_id: calibration!.id,
+  };
+}
+
+// A verdict counts as right when the reviewer kept the status they were
+// shown, whatever else they changed. The model verdict and its raw
+// confidence are captured with the review (model_status,
+// model_raw_confidence): a later refresh of the check may have replaced
+// both. Sampled as described by REVIEW_SAMPLING.
+export async function loadReviewedVerdicts(client: SupabaseClient): Promise<LabeledVerdict[]> {
+  const { data, error } = await client
+    .from('verdict_overrides')
+    .select('status, model_status, model_raw_confidence, fact_checks!inner(search_results)')
+    .not('model_status', 'is', null)
+    .is('fact_checks.flagged_at', null)
+    .order('updated_at', { ascending: false })
+    .limit(REVIEWED_SAMPLE_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load reviewed checks: ${error.message}`);
+  }
+
+  return (data ?? []).flatMap(row => {
+    const check = row.fact_checks as unknown as { search_results: Record<string, unknown> | null } | null;
+
+    if (!check || fromClaimReviewsOnly(check.search_results) || row.model_raw_confidence === null) return [];
+    return [{
+      status: row.model_status as VerdictStatus,
+      score: row.model_raw_confidence,
+      correct: row.status === row.model_status,
+    }];
+  });
+}
+
+// Null when there are fewer than minSamples reviewed verdicts in total
+export function fitCalibration(samples: LabeledVerdict[], method: CalibrationMethod, minSamples: number): CalibrationFit | null {
+  if (samples.length < minSamples) return null;
+
+  const curves: ConfidenceCalibration['curves'] = { all: fitCurve(method, samples) };
+  for (const status of VERDICT_STATUSES) {
+    const ofStatus = samples.filter(sample => sample.status === status);
+    if (ofStatus.length >= minSamples) {
+      curves[status] = fitCurve(method, ofStatus);
+    }
+  }
+
+  const calibration: ConfidenceCalibration = { id: '', method, curves };
+  return {
+    method,
+    curves,
+    sample_count: samples.length,
+    sampling: REVIEW_SAMPLING,
+    brier_raw: brierScore(samples, sample => sample.score / 100),
+    brier_calibrated: brierScore(samples, sample => (calibrateConfidence(calibration, sample.status, sample.score) ?? sample.score) / 100),
+  };
+}
+
+export async function saveCalibration(client: SupabaseClient, fit: CalibrationFit): Promise<string> {
+  const { data, error } = await client
+    .from('confidence_calibrations')
+    .insert(fit)
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save calibration: ${error.message}`);
+  }
+
+  cachedCalibration = null;
+  return data.id;
+}
+
+//   CONFIDENCE_CALIBRATION = on (default) | off
+// The latest fit sampled as REVIEW_SAMPLING describes is used; none stored,
+// or an unreadable table, leaves confidence uncalibrated. Older fits
+// learned from the current check status and have no score range.
+export async function getCalibration(
+  client: SupabaseClient,
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key)
+): Promise<ConfidenceCalibration | null> {
+  if ((env('CONFIDENCE_CALIBRATION') || 'on').toLowerCase() === 'off') {
+    return null;
+  }
+
+  if (cachedCalibration && Date.now() - cachedCalibration.loadedAt < CALIBRATION_TTL_MS) {
+    return cachedCalibration.calibration;
+  }
+
+  const { data, error } = await client
+    .from('confidence_calibrations')
+    .select('id, method, curves')
+    .eq('sampling', REVIEW_SAMPLING)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Calibration lookup failed:', error.message);
+    return null;
+  }
+
+  cachedCalibration = { calibration: data as ConfidenceCalibration | null, loadedAt: Date.now() };
+  return cachedCalibration.calibration;
+}
@@ -0,0 +1,52 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHashingEmbeddingProvider } from './embeddings/hashing.ts';
+import { cosineSimilarity } from './narratives.ts';
+import { canonicalizeText } from './cacheKey.ts';
+import { claimsConflict } from './claimMatch.ts';
+
+// Whether the pipeline would reuse the first text's verdict for the second,
+// with the hashing embedder at its default threshold
+async function wouldReuse(stored: string, requested: string): Promise<boolean> {
+  const embedder = createHashingEmbeddingProvider();
+  const similarity = cosineSimilarity(
+    await embedder.embed(canonicalizeText(stored)),
+    await embedder.embed(canonicalizeText(requested))
+  );
+  return similarity >= embedder.minSimilarity && !claimsConflict(stored, requested);
+}
+
+Deno.test('the same claim with different punctuation reuses the verdict', async () => {
+  assert(await wouldReuse('Vacina causa autismo', 'vacina causa autismo!!'));
+});
+
+Deno.test('the same claim with words added around it reuses the verdict', async () => {
+  assert(await wouldReuse('A vacina da covid causa autismo em crianças', 'URGENTE: a vacina da covid causa autismo em crianças!!!'));
+  assert(await wouldReuse('O governo vai taxar o pix a partir de janeiro', 'Governo vai taxar o PIX a partir de janeiro, compartilhe'));
+});
+
+Deno.test('a negated claim does not reuse the verdict', async () => {
+  assertEquals(await wouldReuse('vacina causa autismo', 'vacina não causa autismo'), false);
+});
+
+Deno.test('a claim about someone else does not reuse the verdict', async () => {
+  assertEquals(await wouldReuse('Lula venceu a eleição de 2022', 'Bolsonaro venceu a eleição de 2022'), false);
+});
+
+Deno.test('a claim with another predicate does not reuse the verdict', async () => {
+  assertEquals(await wouldReuse('O presidente aumentou o salário mínimo', 'O presidente reduziu o salário mínimo'), false);
+});
+
+Deno.test('a claim with another object does not reuse the verdict', async () => {
+  assertEquals(await wouldReuse('vacina causa autismo', 'vacina causa câncer'), false);
+  assertEquals(await wouldReuse('limão cura o câncer', 'limão cura a covid'), false);
+  assertEquals(await wouldReuse('A vacina da covid causa autismo em crianças', 'A vacina da gripe causa autismo em crianças'), false);
+});
+
+Deno.test('a claim about another date does not reuse the verdict', async () => {
+  assertEquals(await wouldReuse('Lula venceu a eleição de 2022', 'Lula venceu a eleição de 2018'), false);
+  assertEquals(await wouldReuse('O governo vai taxar o pix a partir de janeiro', 'O governo vai taxar o pix a partir de março'), false);
+});
+
+Deno.test('months are compared as dates', () => {
+  assert(claimsConflict('O governo vai taxar o pix a partir de janeiro', 'O governo vai taxar o pix a partir de março'));
+});
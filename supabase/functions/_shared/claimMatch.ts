@@ -0,0 +1,50 @@
+// Checks for two texts that an embedding places close together but that
+// make different claims: one denies what the other states, or they are
+// about different people, places or dates. Embeddings weigh shared
+// vocabulary, so "vacina causa autismo" and "vacina não causa autismo" or
+// "Lula venceu a eleição" and "Bolsonaro venceu a eleição" score as
+// near-duplicates; their verdicts must not be shared.
+
+const NEGATIONS = new Set(['nao', 'nunca', 'jamais', 'nem', 'nenhum', 'nenhuma', 'ninguem', 'nada']);
+
+function tokens(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function hasNegation(text: string): boolean {
+  return tokens(text).some(token => NEGATIONS.has(token.toLowerCase()));
+}
+
+export function negationDiffers(a: string, b: string): boolean {
+  return hasNegation(a) !== hasNegation(b);
+}
+
+// Month names are dates even though Portuguese does not capitalize them
+const MONTHS = new Set(['janeiro', 'fevereiro', 'marco', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro']);
+
+// Capitalized words, numbers and months, lowercased. The first word of a
+// sentence is included too; entitiesDiffer tolerates it.
+function entities(text: string): Set<string> {
+  return new Set(tokens(text)
+    .filter(token => (/^[A-Z0-9]/.test(token) || MONTHS.has(token.toLowerCase())) && !NEGATIONS.has(token.toLowerCase()))
+    .map(token => token.toLowerCase()));
+}
+
+// Each text names something the other does not mention at all. Requiring it
+// of both sides keeps a capitalized first word ("Vacina causa...") from
+// counting as an entity missing from a lowercase rewording.
+export function entitiesDiffer(a: string, b: string): boolean {
+  const wordsA = new Set(tokens(a).map(token => token.toLowerCase()));
+  const wordsB = new Set(tokens(b).map(token => token.toLowerCase()));
+  const onlyInA = [...entities(a)].some(entity => !wordsB.has(entity));
+  const onlyInB = [...entities(b)].some(entity => !wordsA.has(entity));
+  return onlyInA && onlyInB;
+}
+
+export function claimsConflict(a: string, b: string): boolean {
+  return negationDiffers(a, b) || entitiesDiffer(a, b);
+}
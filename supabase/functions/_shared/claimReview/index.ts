@@ -0,0 +1,163 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createHttpFetcher, loadFixtureFetcher, PageFetcher } from '../article/index.ts';
+import { FactCheckResult, VerdictStatus } from '../types.ts';
+import { negationDiffers } from '../claimMatch.ts';
+import { ClaimReviewRecord, extractJsonLd, normalizeClaim } from './parse.ts';
+
+export type { ClaimReviewRecord } from './parse.ts';
+export { extractJsonLd, normalizeClaim, parseClaimReviews } from './parse.ts';
+export { mapRating } from './rating.ts';
+export type { PublishedRating } from './rating.ts';
+
+// A published review whose claim is close to the one being checked
+export interface ClaimReviewMatch {
+  id: string;
+  review_url: string;
+  claim_text: string;
+  claimant: string | null;
+  publisher_name: string;
+  publisher_url: string | null;
+  review_date: string | null;
+  headline: string | null;
+  rating_text: string | null;
+  status: VerdictStatus;
+  similarity: number;
+}
+
+export interface ClaimReviewIndex {
+  // Closest published review above the similarity threshold that does not
+  // deny what the claim states (or the reverse), if any
+  match(claim: string): Promise<ClaimReviewMatch | null>;
+}
+
+// A fact-checker's published rating is worth more than the model's opinion,
+// but a mixed rating stays a hedge
+const REVIEW_CONFIDENCE: Record<VerdictStatus, number> = {
+  real: 90,
+  fake: 90,
+  uncertain: 60,
+};
+
+// Below this many characters trigram similarity matches almost anything
+const MIN_CLAIM_LENGTH = 15;
+
+const UPSERT_BATCH_SIZE = 200;
+
+// Candidates fetched per lookup, so a negated review does not hide the
+// next closest one
+const MATCH_CANDIDATES = 5;
+
+export function createClaimReviewIndex(client: SupabaseClient, minSimilarity: number): ClaimReviewIndex {
+  return {
+    async match(claim: string): Promise<ClaimReviewMatch | null> {
+      const normalized = normalizeClaim(claim);
+      if (normalized.length < MIN_CLAIM_LENGTH) return null;
+
+      const { data, error } = await client.rpc('match_claim_reviews', {
+        p_claim: normalized,
+        p_min_similarity: minSimilarity,
+        p_limit: MATCH_CANDIDATES,
+      });
+
+      if (error) {
+        throw new Error(`Claim review lookup failed: ${error.message}`);
+      }
+
+      // "X causa Y" and "X não causa Y" are near-identical trigram-wise,
+      // but a rating of one is the opposite rating of the other
+      const candidates = (data ?? []) as ClaimReviewMatch[];
+      return candidates.find(candidate => !negationDiffers(candidate.claim_text, claim)) ?? null;
+    },
+  };
+}
+
+//   CLAIM_REVIEW_MATCHING = on (default) | off
+//   CLAIM_REVIEW_MIN_SIMILARITY = trigram similarity from 0 to 1, default 0.7
+export function getClaimReviewIndex(
+  client: SupabaseClient,
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key)
+): ClaimReviewIndex | null {
+  if ((env('CLAIM_REVIEW_MATCHING') || 'on').toLowerCase() === 'off') {
+    return null;
+  }
+
+  const raw = env('CLAIM_REVIEW_MIN_SIMILARITY');
+  const minSimilarity = Number(raw);
+  return createClaimReviewIndex(client, raw && minSimilarity > 0 && minSimilarity <= 1 ? minSimilarity : 0.7);
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+}
+
+// The published review as a verdict, with the review itself as the only
+// source. Used instead of asking the model.
+export function claimReviewVerdict(match: ClaimReviewMatch): FactCheckResult {
+  const rating = match.rating_text ?? match.status;
+  const when = match.review_date ? ` em ${formatDate(match.review_date)}` : '';
+  const claimant = match.claimant ? ` Autor da afirmação: ${match.claimant}.` : '';
+
+  return {
+    status: match.status,
+    confidence: REVIEW_CONFIDENCE[match.status],
+    justification: `Esta afirmação já foi checada por ${match.publisher_name}${when}, que a classificou como "${rating}". Afirmação checada: "${match.claim_text}".`.substring(0, 1000),
+    sources: [{
+      title: (match.headline ?? `${match.publisher_name}: ${match.claim_text}`).substring(0, 200),
+      url: match.review_url.substring(0, 500),
+      summary: `Checagem publicada por ${match.publisher_name}. Classificação: ${rating}.${claimant}`.substring(0, 300),
+    }],
+    search_results: {
+      outcome: 'claim_review',
+      claim_review: {
+        id: match.id,
+        url: match.review_url,
+        publisher: match.publisher_name,
+        rating: match.rating_text,
+        similarity: match.similarity,
+      },
+    },
+  };
+}
+
+// Upserts by review URL, so re-importing a feed refreshes changed ratings
+export async function saveClaimReviews(client: SupabaseClient, records: ClaimReviewRecord[]): Promise<number> {
+  let saved = 0;
+
+  for (let start = 0; start < records.length; start += UPSERT_BATCH_SIZE) {
+    const batch = records.slice(start, start + UPSERT_BATCH_SIZE);
+    const { error } = await client
+      .from('claim_reviews')
+      .upsert(batch, { onConflict: 'review_url' });
+
+    if (error) {
+      throw new Error(`Failed to save claim reviews: ${error.message}`);
+    }
+    saved += batch.length;
+  }
+  return saved;
+}
+
+// Feeds and dumps are JSON(-LD) documents; fact-check article pages carry
+// their ClaimReview in <script type="application/ld+json"> blocks
+export async function fetchClaimReviewDocuments(url: string, fetcher: PageFetcher): Promise<unknown[]> {
+  const page = await fetcher(url);
+
+  if (/json/i.test(page.contentType) || /^\s*[[{]/.test(page.html)) {
+    return [JSON.parse(page.html)];
+  }
+  return extractJsonLd(page.html);
+}
+
+// Like getPageFetcher, but also accepts JSON and allows feed-sized bodies.
+// ARTICLE_FIXTURES_DIR serves feeds from fixtures too.
+export function getFeedFetcher(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): Promise<PageFetcher> {
+  const fixturesDir = env('ARTICLE_FIXTURES_DIR');
+  return fixturesDir
+    ? loadFixtureFetcher(fixturesDir)
+    : Promise.resolve(createHttpFetcher({
+      timeoutMs: 30_000,
+      maxBytes: 20_000_000,
+      accept: 'application/ld+json, application/json;q=0.9, text/html;q=0.8',
+      contentTypes: /html|xml|json/i,
+    }));
+}
@@ -0,0 +1,179 @@
+import { decodeEntities } from '../article/extract.ts';
+import { VerdictStatus } from '../types.ts';
+import { mapRating } from './rating.ts';
+
+// One published fact-check, as stored in claim_reviews
+export interface ClaimReviewRecord {
+  review_url: string;
+  claim_text: string;
+  claim_normalized: string;
+  claimant: string | null;
+  claim_date: string | null;
+  publisher_name: string;
+  publisher_url: string | null;
+  review_date: string | null;
+  headline: string | null;
+  rating_text: string | null;
+  rating_value: number | null;
+  best_rating: number | null;
+  worst_rating: number | null;
+  status: VerdictStatus;
+  language: string | null;
+  raw: Record<string, unknown>;
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+// Form compared by the similarity lookup; the same function must be applied
+// to the claim being checked
+export function normalizeClaim(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Every JSON-LD block of an HTML page, parsed; malformed blocks are skipped
+export function extractJsonLd(html: string): unknown[] {
+  const blocks = html.match(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>[\s\S]*?<\/script>/gi) || [];
+  const documents: unknown[] = [];
+
+  for (const block of blocks) {
+    const json = block.replace(/^<script\b[^>]*>/i, '').replace(/<\/script>$/i, '');
+    try {
+      documents.push(JSON.parse(json));
+    } catch {
+      continue;
+    }
+  }
+  return documents;
+}
+
+function text(value: unknown): string | null {
+  if (typeof value === 'string') {
+    const cleaned = decodeEntities(value).replace(/\s+/g, ' ').trim();
+    return cleaned || null;
+  }
+  if (Array.isArray(value)) return text(value[0]);
+  return null;
+}
+
+function number(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+}
+
+function toIsoDate(value: unknown): string | null {
+  const raw = text(value);
+  if (!raw) return null;
+  const date = new Date(raw);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function httpUrl(value: unknown): string | null {
+  const raw = text(value);
+  if (!raw) return null;
+  try {
+    const url = new URL(raw);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function node(value: unknown): JsonLdNode | null {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first && typeof first === 'object' ? first as JsonLdNode : null;
+}
+
+function isClaimReview(record: JsonLdNode): boolean {
+  const types = ([] as unknown[]).concat(record['@type'] ?? []);
+  return types.some(type => type === 'ClaimReview' || type === 'http://schema.org/ClaimReview' || type === 'https://schema.org/ClaimReview');
+}
+
+// Every ClaimReview node in a document, whether it is a single review, an
+// array, an @graph or a DataFeed of them
+function findClaimReviews(document: unknown): JsonLdNode[] {
+  const found: JsonLdNode[] = [];
+  const queue: unknown[] = [document];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (Array.isArray(current)) {
+      queue.push(...current);
+    } else if (current && typeof current === 'object') {
+      const record = current as JsonLdNode;
+      if (isClaimReview(record)) {
+        found.push(record);
+        continue;
+      }
+      for (const key of ['@graph', 'dataFeedElement', 'item', 'itemListElement', 'mainEntity']) {
+        if (record[key]) queue.push(record[key]);
+      }
+    }
+  }
+  return found;
+}
+
+function toRecord(review: JsonLdNode): ClaimReviewRecord | null {
+  const reviewUrl = httpUrl(review.url) ?? httpUrl(review['@id']);
+  const claimText = text(review.claimReviewed);
+  const author = node(review.author);
+  const publisherName = text(author?.name) ?? text(node(review.publisher)?.name);
+  const rating = node(review.reviewRating);
+
+  if (!reviewUrl || !claimText || !publisherName || !rating) {
+    return null;
+  }
+
+  const ratingText = text(rating.alternateName) ?? text(rating.name);
+  const ratingValue = number(rating.ratingValue);
+  const bestRating = number(rating.bestRating);
+  const worstRating = number(rating.worstRating);
+  const status = mapRating({ text: ratingText, value: ratingValue, best: bestRating, worst: worstRating });
+  if (!status) {
+    return null;
+  }
+
+  const itemReviewed = node(review.itemReviewed);
+  const appearance = node(itemReviewed?.appearance) ?? node(itemReviewed?.firstAppearance);
+
+  return {
+    review_url: reviewUrl,
+    claim_text: claimText.substring(0, 1000),
+    claim_normalized: normalizeClaim(claimText).substring(0, 1000),
+    claimant: text(node(itemReviewed?.author)?.name) ?? text(itemReviewed?.author),
+    claim_date: toIsoDate(itemReviewed?.datePublished) ?? toIsoDate(appearance?.datePublished),
+    publisher_name: publisherName.substring(0, 200),
+    publisher_url: httpUrl(author?.url) ?? httpUrl(node(review.publisher)?.url),
+    review_date: toIsoDate(review.datePublished),
+    headline: text(review.headline) ?? text(review.name),
+    rating_text: ratingText,
+    rating_value: ratingValue,
+    best_rating: bestRating,
+    worst_rating: worstRating,
+    status,
+    language: text(review.inLanguage) ?? text(node(review.inLanguage)?.name),
+    raw: review,
+  };
+}
+
+// ClaimReview records from parsed JSON-LD. Reviews without a URL, claim,
+// publisher or a rating we can map are skipped and counted.
+export function parseClaimReviews(documents: unknown[]): { records: ClaimReviewRecord[]; skipped: number } {
+  // Keyed by review URL: feeds often list the same review more than once
+  const records = new Map<string, ClaimReviewRecord>();
+  let skipped = 0;
+
+  for (const review of findClaimReviews(documents)) {
+    const record = toRecord(review);
+    if (record) {
+      records.set(record.review_url, record);
+    } else {
+      skipped++;
+    }
+  }
+  return { records: [...records.values()], skipped };
+}
@@ -0,0 +1,49 @@
+import { VerdictStatus } from '../types.ts';
+
+export interface PublishedRating {
+  // reviewRating.alternateName, e.g. 'Falso', 'Enganoso', 'Verdadeiro, mas...'
+  text: string | null;
+  value: number | null;
+  best: number | null;
+  worst: number | null;
+}
+
+// Labels used by Brazilian fact-checkers (Lupa, Aos Fatos, Comprova, Estadão
+// Verifica, Fato ou Fake) and common English ones, accent-free and
+// lowercase. Qualified labels come first so 'verdadeiro, mas' is not read
+// as 'verdadeiro'.
+const RATING_LABELS: Array<[RegExp, VerdictStatus]> = [
+  [/verdadeiro,? mas|true,? but|half.?true|meia.?verdade/, 'uncertain'],
+  [/impreciso|exagerado|subestimado|contraditorio|distorcido|mixed|misleading|sem contexto|fora de contexto|contextualizando|descontextualizado|missing context|out of context/, 'uncertain'],
+  [/insustentavel|inconclusivo|ainda e cedo|nao e possivel|nao e bem assim|unproven|unverified|sem evidencias/, 'uncertain'],
+  [/falso|fake|mentira|enganoso|boato|montagem|inventado|golpe|satira|false|pants on fire|incorrect|hoax|scam/, 'fake'],
+  [/verdadeiro|verdade|correto|comprovado|confirmado|\bfato\b|true|correct|accurate/, 'real'],
+];
+
+function normalizeLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+// Published rating mapped to our statuses: by label when we recognise it,
+// otherwise by where ratingValue sits between worstRating and bestRating.
+// Null when neither says anything usable.
+export function mapRating(rating: PublishedRating): VerdictStatus | null {
+  if (rating.text) {
+    const label = normalizeLabel(rating.text);
+    const match = RATING_LABELS.find(([pattern]) => pattern.test(label));
+    if (match) return match[1];
+  }
+
+  const { value, best, worst } = rating;
+  if (value === null || best === null || worst === null || best === worst) {
+    return null;
+  }
+
+  const position = (value - worst) / (best - worst);
+  if (position <= 1 / 3) return 'fake';
+  if (position >= 2 / 3) return 'real';
+  return 'uncertain';
+}
@@ -0,0 +1,87 @@
+import { LLMProvider } from './providers/index.ts';
+import { buildClaimExtractionPrompt } from './prompt.ts';
+import { CLAIM_LIST_SCHEMA, parseModelJson, validate } from './schema.ts';
+
+export const MAX_CLAIMS = 5;
+const MIN_CLAIM_LENGTH = 10;
+
+export interface ExtractedClaim {
+  text: string;
+  start: number | null;
+  end: number | null;
+}
+
+// Split text into sentence-like segments, keeping their offsets
+export function splitSentences(text: string): ExtractedClaim[] {
+  const claims: ExtractedClaim[] = [];
+  const sentencePattern = /[^.!?\n]+[.!?]*/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = sentencePattern.exec(text)) !== null) {
+    const raw = match[0];
+    const leading = raw.length - raw.trimStart().length;
+    const sentence = raw.trim();
+
+    if (sentence.length >= MIN_CLAIM_LENGTH) {
+      const start = match.index + leading;
+      claims.push({ text: sentence, start, end: start + sentence.length });
+    }
+  }
+
+  return claims;
+}
+
+// Locate each claim in the original text so the UI can highlight it.
+// Searches forward from the previous match so repeated phrases map in order.
+function locateClaims(text: string, claims: string[]): ExtractedClaim[] {
+  const haystack = text.toLowerCase();
+  let cursor = 0;
+
+  return claims.map(claim => {
+    const needle = claim.toLowerCase();
+    let start = haystack.indexOf(needle, cursor);
+    if (start === -1) {
+      start = haystack.indexOf(needle);
+    }
+    if (start === -1) {
+      return { text: claim, start: null, end: null };
+    }
+    cursor = start + needle.length;
+    return { text: claim, start, end: start + claim.length };
+  });
+}
+
+function parseClaimList(response: string): string[] {
+  const parsed = parseModelJson(response);
+  const errors = validate(parsed, CLAIM_LIST_SCHEMA);
+  if (errors.length > 0) {
+    throw new Error(`Invalid claim extraction response: ${errors.slice(0, 3).join('; ')}`);
+  }
+
+  return (parsed as { claims: string[] }).claims
+    .map(claim => claim.trim())
+    .filter(claim => claim.length >= MIN_CLAIM_LENGTH);
+}
+
+// Break the input into atomic claims. Single-sentence inputs skip the model
+// call entirely; if extraction fails we fall back to sentence splitting.
+export async function extractClaims(text: string, provider: LLMProvider): Promise<ExtractedClaim[]> {
+  const sentences = splitSentences(text);
+
+  if (sentences.length <= 1) {
+    return [{ text, start: 0, end: text.length }];
+  }
+
+  try {
+    const response = await provider.complete(buildClaimExtractionPrompt(text, MAX_CLAIMS));
+    const claims = parseClaimList(response).slice(0, MAX_CLAIMS);
+
+    if (claims.length > 0) {
+      return locateClaims(text, claims);
+    }
+  } catch (error) {
+    console.error('Claim extraction failed, using sentence split:', error.message);
+  }
+
+  return sentences.slice(0, MAX_CLAIMS);
+}
@@ -0,0 +1,116 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { CredibilityTier, FactCheckResult, Source, SourceType } from './types.ts';
+
+export interface SourceDomain {
+  domain: string;
+  name: string;
+  tier: CredibilityTier;
+  source_type: SourceType;
+}
+
+export interface DomainRegistry {
+  // Most specific registered domain for a hostname, if any
+  lookup(hostname: string): SourceDomain | null;
+}
+
+// How much each tier is worth as evidence. Unknown domains are neutral and
+// links that failed verification count for nothing.
+export const TIER_QUALITY: Record<CredibilityTier, number> = {
+  high: 1,
+  medium: 0.75,
+  low: 0.3,
+  unreliable: 0,
+};
+const UNKNOWN_QUALITY = 0.5;
+
+// The registry changes rarely; reload it at most this often per isolate
+const REGISTRY_TTL_MS = 5 * 60 * 1000;
+
+let cachedRegistry: { registry: DomainRegistry; loadedAt: number } | null = null;
+
+export function createDomainRegistry(domains: SourceDomain[]): DomainRegistry {
+  const byDomain = new Map(domains.map(entry => [entry.domain.toLowerCase(), entry]));
+
+  return {
+    lookup(hostname: string): SourceDomain | null {
+      const labels = hostname.toLowerCase().replace(/^www\./, '').split('.');
+      for (let i = 0; i < labels.length - 1; i++) {
+        const entry = byDomain.get(labels.slice(i).join('.'));
+        if (entry) return entry;
+      }
+      return null;
+    },
+  };
+}
+
+// An unreadable registry yields an empty one: every source is then
+// unknown and confidence is left as the model gave it
+export async function getDomainRegistry(client: SupabaseClient): Promise<DomainRegistry> {
+  if (cachedRegistry && Date.now() - cachedRegistry.loadedAt < REGISTRY_TTL_MS) {
+    return cachedRegistry.registry;
+  }
+
+  const { data, error } = await client
+    .from('source_domains')
+    .select('domain, name, tier, source_type');
+
+  if (error) {
+    console.error('Source domain registry lookup failed:', error.message);
+    return createDomainRegistry([]);
+  }
+
+  const registry = createDomainRegistry((data ?? []) as SourceDomain[]);
+  cachedRegistry = { registry, loadedAt: Date.now() };
+  return registry;
+}
+
+export function annotateSource(source: Source, registry: DomainRegistry): Source {
+  let entry: SourceDomain | null = null;
+  try {
+    entry = registry.lookup(new URL(source.url).hostname);
+  } catch {
+    // Invalid URLs have no domain to look up
+  }
+
+  return { ...source, tier: entry?.tier ?? null, source_type: entry?.source_type ?? null };
+}
+
+// Quality of the best source backing a verdict, from 0 to 1
+export function sourceQuality(sources: Source[]): number {
+  const scores = sources.map(source => {
+    if (source.verified === false) return 0;
+    return source.tier ? TIER_QUALITY[source.tier] : UNKNOWN_QUALITY;
+  });
+  return scores.length > 0 ? Math.max(...scores) : 0;
+}
+
+// Scales a firm verdict's confidence by the quality of its sources: up to
+// `weight` more for top-tier sources, up to `weight` less for poor or
+// missing ones. Uncertain verdicts are left alone.
+export function adjustConfidence(result: Pick<FactCheckResult, 'status' | 'confidence' | 'sources'>, weight: number): number {
+  if (result.status === 'uncertain') {
+    return result.confidence;
+  }
+
+  const adjustment = weight * (sourceQuality(result.sources) - UNKNOWN_QUALITY) * 2;
+  return Math.max(0, Math.min(99, Math.round(result.confidence * (1 + adjustment))));
+}
+
+export interface CredibilityPolicy {
+  registry: DomainRegistry;
+  // SOURCE_QUALITY_WEIGHT: largest relative confidence change, 0 disables it
+  weight: number;
+}
+
+export async function loadCredibilityPolicy(
+  client: SupabaseClient,
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key)
+): Promise<CredibilityPolicy> {
+  const raw = env('SOURCE_QUALITY_WEIGHT');
+  const weight = Number(raw);
+
+  return {
+    registry: await getDomainRegistry(client),
+    weight: raw && weight >= 0 && weight <= 1 ? weight : 0.15,
+  };
+}
@@ -0,0 +1,55 @@
+import { EMBEDDING_DIMENSIONS, EmbeddingProvider } from './types.ts';
+
+// 32-bit FNV-1a; only used to spread features over the vector
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 2);
+}
+
+// Deterministic bag of words and character trigrams hashed into a fixed
+// vector; meant for tests and hosts that cannot run a model. It only sees
+// shared words, so a claim with one word swapped ("vacina da covid" /
+// "vacina da gripe", "aumentou" / "reduziu") still scores 0.75-0.86. The
+// threshold therefore only accepts the same message with a few words added
+// or dropped ("URGENTE: ... compartilhe"), around 0.92; negations score 0.9
+// and are left to claimsConflict.
+export function createHashingEmbeddingProvider(dimensions = EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  return {
+    name: 'hashing',
+    model: `hashing-v1-${dimensions}`,
+    minSimilarity: 0.9,
+    // Below this, texts that share a few words are already unrelated claims
+    clusterSimilarity: 0.9,
+    embed(text: string): Promise<number[]> {
+      const vector = new Array<number>(dimensions).fill(0);
+      const add = (feature: string, weight: number) => {
+        const hash = fnv1a(feature);
+        vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+      };
+
+      for (const word of words(text)) {
+        add(`w:${word}`, 1);
+        const padded = `^${word}$`;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+          add(`t:${padded.slice(i, i + 3)}`, 0.5);
+        }
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+      return Promise.resolve(norm > 0 ? vector.map(value => value / norm) : vector);
+    },
+  };
+}
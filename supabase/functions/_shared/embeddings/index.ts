@@ -0,0 +1,63 @@
+import { EMBEDDING_DIMENSIONS, EmbeddingError, EmbeddingProvider } from './types.ts';
+import { createLocalEmbeddingProvider } from './local.ts';
+import { createHashingEmbeddingProvider } from './hashing.ts';
+import { createOpenAIEmbeddingProvider } from './openai.ts';
+import { createOllamaEmbeddingProvider } from './ollama.ts';
+
+export type { EmbeddingProvider } from './types.ts';
+export { EMBEDDING_DIMENSIONS, EmbeddingError } from './types.ts';
+export { createHashingEmbeddingProvider } from './hashing.ts';
+
+// Rejects vectors that would not fit the fact_checks.embedding column
+function withDimensionCheck(provider: EmbeddingProvider): EmbeddingProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    minSimilarity: provider.minSimilarity,
+    clusterSimilarity: provider.clusterSimilarity,
+    async embed(text: string): Promise<number[]> {
+      const embedding = await provider.embed(text);
+      if (embedding.length !== EMBEDDING_DIMENSIONS) {
+        throw new EmbeddingError(provider.name, `Expected ${EMBEDDING_DIMENSIONS} dimensions, got ${embedding.length}`);
+      }
+      return embedding;
+    },
+  };
+}
+
+// Select the embedding backend from the environment:
+//   EMBEDDING_PROVIDER = none (default) | local | hashing | openai | ollama
+//   EMBEDDING_MODEL overrides the provider's default model
+// Without one, only exact cache hits are served.
+export function getEmbeddingProvider(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): EmbeddingProvider | null {
+  const name = (env('EMBEDDING_PROVIDER') || 'none').toLowerCase();
+  const model = env('EMBEDDING_MODEL') || undefined;
+
+  switch (name) {
+    case 'none':
+      return null;
+    case 'local':
+      return withDimensionCheck(createLocalEmbeddingProvider(model));
+    case 'hashing':
+      return createHashingEmbeddingProvider();
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new EmbeddingError('openai', 'OPENAI_API_KEY not configured');
+      }
+      return withDimensionCheck(createOpenAIEmbeddingProvider(apiKey, env('OPENAI_BASE_URL') || undefined, model));
+    }
+    case 'ollama':
+      return withDimensionCheck(createOllamaEmbeddingProvider(env('OLLAMA_URL') || undefined, model));
+    default:
+      throw new EmbeddingError(name, 'Unknown embedding provider');
+  }
+}
+
+// Cosine similarity a near-duplicate must reach to reuse a verdict:
+// EMBEDDING_MIN_SIMILARITY, or the provider's own default
+export function loadMinSimilarity(provider: EmbeddingProvider, env: (key: string) => string | undefined = (key) => Deno.env.get(key)): number {
+  const raw = env('EMBEDDING_MIN_SIMILARITY');
+  const value = Number(raw);
+  return raw && value > 0 && value <= 1 ? value : provider.minSimilarity;
+}
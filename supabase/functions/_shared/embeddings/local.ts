@@ -0,0 +1,41 @@
+import { EmbeddingError, EmbeddingProvider } from './types.ts';
+
+interface InferenceSession {
+  run(input: string, options: { mean_pool: boolean; normalize: boolean }): Promise<unknown>;
+}
+
+// The Supabase edge runtime ships small embedding models that run on the
+// function's CPU; elsewhere the global is missing
+interface SupabaseRuntime {
+  ai: { Session: new (model: string) => InferenceSession };
+}
+
+const DEFAULT_MODEL = 'gte-small';
+
+// CPU-only embeddings computed inside the edge function, with no external
+// service. gte-small yields 384-dimensional vectors.
+export function createLocalEmbeddingProvider(model = DEFAULT_MODEL): EmbeddingProvider {
+  let session: InferenceSession | null = null;
+
+  return {
+    name: 'local',
+    model,
+    minSimilarity: 0.92,
+    clusterSimilarity: 0.85,
+    async embed(text: string): Promise<number[]> {
+      if (!session) {
+        const runtime = (globalThis as { Supabase?: SupabaseRuntime }).Supabase;
+        if (!runtime?.ai) {
+          throw new EmbeddingError('local', 'Supabase.ai is not available in this runtime');
+        }
+        session = new runtime.ai.Session(model);
+      }
+
+      const embedding = await session.run(text, { mean_pool: true, normalize: true });
+      if (!Array.isArray(embedding)) {
+        throw new EmbeddingError('local', 'Empty response');
+      }
+      return embedding as number[];
+    },
+  };
+}
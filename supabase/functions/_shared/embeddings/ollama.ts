@@ -0,0 +1,37 @@
+import { EmbeddingError, EmbeddingProvider } from './types.ts';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+// 384-dimensional, small enough for CPU-only hosts
+const DEFAULT_MODEL = 'all-minilm';
+
+// Local HTTP inference server speaking the Ollama /api/embed protocol
+export function createOllamaEmbeddingProvider(baseUrl = DEFAULT_BASE_URL, model = DEFAULT_MODEL): EmbeddingProvider {
+  return {
+    name: 'ollama',
+    model,
+    minSimilarity: 0.85,
+    clusterSimilarity: 0.8,
+    async embed(text: string): Promise<number[]> {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/api/embed`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model, input: text }),
+      });
+
+      if (!response.ok) {
+        throw new EmbeddingError('ollama', `HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      const embedding = data.embeddings?.[0];
+
+      if (!Array.isArray(embedding)) {
+        throw new EmbeddingError('ollama', 'Empty response');
+      }
+
+      return embedding;
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { EMBEDDING_DIMENSIONS, EmbeddingError, EmbeddingProvider } from './types.ts';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'text-embedding-3-small';
+
+// Any server implementing the OpenAI embeddings API. The text-embedding-3
+// models shorten their vectors to the requested dimensions.
+export function createOpenAIEmbeddingProvider(apiKey: string, baseUrl = DEFAULT_BASE_URL, model = DEFAULT_MODEL): EmbeddingProvider {
+  return {
+    name: 'openai',
+    model,
+    minSimilarity: 0.8,
+    clusterSimilarity: 0.75,
+    async embed(text: string): Promise<number[]> {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({ model, input: text, dimensions: EMBEDDING_DIMENSIONS }),
+      });
+
+      if (!response.ok) {
+        throw new EmbeddingError('openai', `HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      const embedding = data.data?.[0]?.embedding;
+
+      if (!Array.isArray(embedding)) {
+        throw new EmbeddingError('openai', 'Empty response');
+      }
+
+      return embedding;
+    },
+  };
+}
@@ -0,0 +1,26 @@
+// Width of fact_checks.embedding. Every provider must produce vectors of
+// this size; changing it needs a migration.
+export const EMBEDDING_DIMENSIONS = 384;
+
+// Turns text into a vector whose cosine similarity tracks meaning. The
+// model name is stored with each vector, since vectors from different
+// models are not comparable.
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  // Cosine similarity from which two texts are taken as rewordings of the
+  // same message; each model spreads similarities differently
+  readonly minSimilarity: number;
+  // Cosine similarity from which two texts are taken as variants of the
+  // same rumor (narratives). Set per model like minSimilarity: a margin
+  // below it that suits one model groups unrelated claims in another.
+  readonly clusterSimilarity: number;
+  embed(text: string): Promise<number[]>;
+}
+
+export class EmbeddingError extends Error {
+  constructor(provider: string, message: string) {
+    super(`[${provider}] ${message}`);
+    this.name = 'EmbeddingError';
+  }
+}
@@ -0,0 +1,77 @@
+import { assert, assertEquals, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { factCheck, MAX_REPAIR_ATTEMPTS } from './factCheck.ts';
+import { LLMProvider } from './providers/types.ts';
+
+const VALID = JSON.stringify({
+  status: 'fake',
+  confidence: 87.6,
+  justification: 'Não há registro de vacina que cause autismo.',
+  sources: [{ title: 'OMS', url: 'https://www.who.int/vacinas', summary: 'Vacinas são seguras.' }],
+});
+
+// Answers each completion with the next response and records the prompts
+function scriptedProvider(responses: string[]): LLMProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    name: 'scripted',
+    model: 'scripted-1',
+    prompts,
+    complete(prompt: string) {
+      prompts.push(prompt);
+      return Promise.resolve(responses[prompts.length - 1] ?? '');
+    },
+  };
+}
+
+Deno.test('factCheck accepts a fenced, valid response without repair', async () => {
+  const provider = scriptedProvider(['```json\n' + VALID + '\n```']);
+  const result = await factCheck('Vacina causa autismo', provider);
+
+  assertEquals(provider.prompts.length, 1);
+  assertEquals(result.status, 'fake');
+  assertEquals(result.confidence, 88);
+  assertEquals(result.sources[0].url, 'https://www.who.int/vacinas');
+  assertEquals(result.search_results.outcome, 'ok');
+  assertEquals(result.search_results.repair_attempts, 0);
+});
+
+Deno.test('factCheck shows the model its invalid response and the violations', async () => {
+  const invalid = JSON.stringify({ status: 'falso', confidence: 140, justification: '', sources: [] });
+  const provider = scriptedProvider([invalid, VALID]);
+  const result = await factCheck('Vacina causa autismo', provider);
+
+  assertEquals(provider.prompts.length, 2);
+  assertStringIncludes(provider.prompts[1], invalid);
+  assertStringIncludes(provider.prompts[1], '- $.status: deve ser um de real, fake, uncertain');
+  assertStringIncludes(provider.prompts[1], '- $.confidence: deve ser <= 100');
+  assertStringIncludes(provider.prompts[1], '- $.justification: não pode ser vazio');
+  assertEquals(result.status, 'fake');
+  assertEquals(result.search_results.repair_attempts, 1);
+});
+
+Deno.test('factCheck gives up with parse_failed once repairs are exhausted', async () => {
+  const provider = scriptedProvider(['Acho que é falso.', '{"status": "fake"}']);
+  const result = await factCheck('Vacina causa autismo', provider);
+
+  assertEquals(provider.prompts.length, 1 + MAX_REPAIR_ATTEMPTS);
+  assertStringIncludes(provider.prompts[1], '$: a resposta não é um JSON válido');
+  assertEquals(result.status, 'uncertain');
+  assertEquals(result.confidence, 30);
+  assertEquals(result.search_results.outcome, 'parse_failed');
+  assertEquals(result.search_results.fallback, true);
+  assertEquals(result.search_results.repair_attempts, MAX_REPAIR_ATTEMPTS);
+  assertEquals(result.search_results.errors, [
+    '$.confidence: campo obrigatório ausente',
+    '$.justification: campo obrigatório ausente',
+    '$.sources: campo obrigatório ausente',
+  ]);
+});
+
+Deno.test('factCheck falls back to provider_error when the provider throws', async () => {
+  const provider: LLMProvider = { name: 'down', model: 'down-1', complete: () => Promise.reject(new Error('timeout')) };
+  const result = await factCheck('Vacina causa autismo', provider);
+
+  assertEquals(result.status, 'uncertain');
+  assertEquals(result.search_results.outcome, 'provider_error');
+  assert(result.sources[0].url.startsWith('https://www.google.com/search?q='));
+});
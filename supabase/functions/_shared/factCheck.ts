@@ -0,0 +1,173 @@
+import { FactCheckResult, Source, VerdictStatus } from './types.ts';
+import { LLMProvider } from './providers/index.ts';
+import { buildFactCheckPrompt, buildRepairPrompt } from './prompt.ts';
+import { FACT_CHECK_RESPONSE_SCHEMA, parseModelJson, validate } from './schema.ts';
+import { partialJsonString } from './progress.ts';
+import { EvidenceDocument, restrictToRetrieved } from './search/index.ts';
+
+// How many times we re-prompt the model to fix a malformed response
+export const MAX_REPAIR_ATTEMPTS = 1;
+
+interface ModelVerdict {
+  status: VerdictStatus;
+  confidence: number;
+  justification: string;
+  sources: Source[];
+}
+
+type ParseOutcome =
+  | { ok: true; verdict: ModelVerdict }
+  | { ok: false; errors: string[] };
+
+// Validate and sanitize sources
+export function sanitizeSources(sources: Array<Partial<Source>>): Source[] {
+  if (!Array.isArray(sources)) return [];
+  
+  return sources
+    .filter(source => source && typeof source === 'object')
+    .slice(0, 5) // Limit to 5 sources max
+    .map(source => ({
+      title: (source.title || 'Fonte não identificada').substring(0, 200),
+      url: (source.url || '#').substring(0, 500),
+      summary: (source.summary || 'Resumo não disponível').substring(0, 300)
+    }));
+}
+
+function parseVerdict(response: string): ParseOutcome {
+  let parsed: unknown;
+  try {
+    parsed = parseModelJson(response);
+  } catch {
+    return { ok: false, errors: ['$: a resposta não é um JSON válido'] };
+  }
+
+  const errors = validate(parsed, FACT_CHECK_RESPONSE_SCHEMA);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, verdict: parsed as ModelVerdict };
+}
+
+function manualCheckSource(text: string): Source {
+  return {
+    title: "Verificação Manual Recomendada",
+    url: "https://www.google.com/search?q=" + encodeURIComponent(text.substring(0, 100)),
+    summary: "Consulte fontes oficiais, veículos de comunicação respeitados e órgãos competentes para verificar esta informação."
+  };
+}
+
+// Streams the completion when someone is listening for the justification
+// and the provider supports it; otherwise a plain completion
+async function completeVerdict(provider: LLMProvider, prompt: string, onJustification?: (delta: string) => void): Promise<string> {
+  if (!onJustification || !provider.stream) {
+    return provider.complete(prompt);
+  }
+
+  let response = '';
+  let emitted = 0;
+  for await (const chunk of provider.stream(prompt)) {
+    response += chunk;
+    const justification = partialJsonString(response, 'justification');
+    if (justification && justification.length > emitted) {
+      onJustification(justification.slice(emitted));
+      emitted = justification.length;
+    }
+  }
+
+  return response;
+}
+
+export interface FactCheckOptions {
+  // Receives the justification text as the model writes it. Drafts from a
+  // response that later fails validation are superseded by the result.
+  onJustification?: (delta: string) => void;
+  // Retrieved documents to ground the verdict in; sources are then limited
+  // to these documents
+  evidence?: EvidenceDocument[];
+}
+
+export async function factCheck(text: string, provider: LLMProvider, options: FactCheckOptions = {}): Promise<FactCheckResult> {
+  const { onJustification, evidence } = options;
+
+  try {
+    console.log(`Calling ${provider.name} (${provider.model}) for fact-check:`, text.substring(0, 50) + '...');
+
+    let modelResponse = await completeVerdict(provider, buildFactCheckPrompt(text, evidence), onJustification);
+    let outcome = parseVerdict(modelResponse);
+    let repairAttempts = 0;
+
+    // Bounded repair loop: show the model its own output and what was wrong
+    while (!outcome.ok && repairAttempts < MAX_REPAIR_ATTEMPTS) {
+      repairAttempts++;
+      console.error(`Invalid model response, repair attempt ${repairAttempts}:`, outcome.errors.slice(0, 5).join('; '));
+      modelResponse = await provider.complete(buildRepairPrompt(modelResponse, outcome.errors));
+      outcome = parseVerdict(modelResponse);
+    }
+
+    if (!outcome.ok) {
+      console.error('Model response failed validation after repair');
+
+      return {
+        status: 'uncertain',
+        confidence: 30,
+        justification: 'Não foi possível interpretar a resposta do serviço de verificação. Recomenda-se consultar fontes oficiais e veículos de imprensa confiáveis para confirmação.',
+        sources: [manualCheckSource(text)],
+        search_results: {
+          outcome: 'parse_failed',
+          fallback: true,
+          errors: outcome.errors.slice(0, 20),
+          repair_attempts: repairAttempts,
+          provider: provider.name,
+          model: provider.model
+        }
+      };
+    }
+
+    console.log('Model response validated successfully');
+
+    const { verdict } = outcome;
+    let sources = sanitizeSources(verdict.sources);
+    let droppedSources = 0;
+
+    if (evidence) {
+      ({ sources, dropped: droppedSources } = restrictToRetrieved(sources, evidence));
+      if (droppedSources > 0) {
+        console.warn(`Dropped ${droppedSources} source(s) not among the retrieved documents`);
+      }
+    }
+
+    return {
+      status: verdict.status,
+      confidence: Math.round(verdict.confidence),
+      justification: verdict.justification.substring(0, 1000), // Limit length
+      // Grounded verdicts never get sources that were not retrieved
+      sources: sources.length > 0 || evidence ? sources : [manualCheckSource(text)],
+      search_results: {
+        outcome: 'ok',
+        success: true,
+        cached: false,
+        repair_attempts: repairAttempts,
+        provider: provider.name,
+        model: provider.model,
+        ...(evidence ? { retrieval: { documents: evidence.length, dropped_sources: droppedSources } } : {})
+      }
+    };
+
+  } catch (error) {
+    console.error('Error in factCheck:', error.message);
+    return unavailableResult(text, provider.name);
+  }
+}
+
+// Safe fallback when the model cannot be asked, without exposing internal
+// errors. providerName is absent when no provider could be set up at all.
+export function unavailableResult(text: string, providerName?: string): FactCheckResult {
+  return {
+    status: 'uncertain' as const,
+    confidence: 30,
+    justification: 'Não foi possível verificar completamente a informação devido a dificuldades técnicas temporárias. Recomenda-se consultar fontes oficiais e veículos de imprensa confiáveis para confirmação.',
+    sources: [manualCheckSource(text)],
+    search_results: { outcome: 'provider_error', error: 'Service temporarily unavailable', fallback: true, provider: providerName }
+  };
+}
@@ -0,0 +1,97 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type FeedbackVote = 'up' | 'down';
+
+export interface FeedbackSummary {
+  upvotes: number;
+  downvotes: number;
+  total_votes: number;
+  dispute_rate: number;
+  counter_sources: number;
+}
+
+// A check is flagged for human review once at least minVotes readers voted
+// and the share of thumbs-down reaches disputeThreshold
+export interface DisputePolicy {
+  minVotes: number;
+  disputeThreshold: number;
+}
+
+export const EMPTY_SUMMARY: FeedbackSummary = {
+  upvotes: 0,
+  downvotes: 0,
+  total_votes: 0,
+  dispute_rate: 0,
+  counter_sources: 0,
+};
+
+export function loadDisputePolicy(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): DisputePolicy {
+  const minVotes = Number(env('FEEDBACK_MIN_VOTES'));
+  const disputeThreshold = Number(env('FEEDBACK_DISPUTE_THRESHOLD'));
+
+  return {
+    minVotes: Number.isInteger(minVotes) && minVotes > 0 ? minVotes : 5,
+    disputeThreshold: disputeThreshold > 0 && disputeThreshold <= 1 ? disputeThreshold : 0.5,
+  };
+}
+
+export function isDisputed(summary: FeedbackSummary, policy: DisputePolicy): boolean {
+  return summary.total_votes >= policy.minVotes && summary.dispute_rate >= policy.disputeThreshold;
+}
+
+// Re-voting replaces the reader's previous vote for the same check
+export async function recordFeedback(
+  client: SupabaseClient,
+  entry: { factCheckId: string; vote: FeedbackVote; counterSourceUrl: string | null; voterHash: string }
+): Promise<void> {
+  const { error } = await client
+    .from('verdict_feedback')
+    .upsert({
+      fact_check_id: entry.factCheckId,
+      vote: entry.vote,
+      counter_source_url: entry.counterSourceUrl,
+      voter_hash: entry.voterHash,
+    }, { onConflict: 'fact_check_id,voter_hash' });
+
+  if (error) {
+    throw new Error(`Failed to save feedback: ${error.message}`);
+  }
+}
+
+export async function getFeedbackSummary(client: SupabaseClient, factCheckId: string): Promise<FeedbackSummary> {
+  const { data, error } = await client
+    .from('verdict_feedback_summary')
+    .select('upvotes, downvotes, total_votes, dispute_rate, counter_sources')
+    .eq('fact_check_id', factCheckId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load feedback summary: ${error.message}`);
+  }
+
+  return data
+    ? { ...data, dispute_rate: Number(data.dispute_rate) }
+    : EMPTY_SUMMARY;
+}
+
+// Flags the check once; later votes never clear a flag, only a reviewer does
+export async function flagIfDisputed(
+  client: SupabaseClient,
+  factCheckId: string,
+  summary: FeedbackSummary,
+  policy: DisputePolicy
+): Promise<boolean> {
+  if (!isDisputed(summary, policy)) return false;
+
+  const { error } = await client
+    .from('fact_checks')
+    .update({ flagged_at: new Date().toISOString(), flag_reason: 'disputed' })
+    .eq('id', factCheckId)
+    .is('flagged_at', null);
+
+  if (error) {
+    throw new Error(`Failed to flag fact check: ${error.message}`);
+  }
+
+  return true;
+}
@@ -0,0 +1,275 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { deliverWebhook, generateWebhookSecret, WebhookPolicy } from './webhooks.ts';
+import { assertPublicHttpUrl } from './article/index.ts';
+import { InputError } from './pipeline.ts';
+
+export type JobKind = 'check' | 'batch';
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface CheckJobRow {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  user_id: string | null;
+  fact_check_id: string | null;
+  result: unknown;
+  error: string | null;
+  webhook_url: string | null;
+  webhook_secret: string | null;
+  webhook_attempts: number;
+  webhook_delivered_at: string | null;
+  webhook_last_error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+// What callers see when polling and in webhook payloads; never the secret
+export interface JobView {
+  job_id: string;
+  kind: JobKind;
+  status: JobStatus;
+  result: unknown;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  webhook: { url: string; attempts: number; delivered_at: string | null; last_error: string | null } | null;
+}
+
+// The job's work resolves with its result; factCheckId links single checks
+// to their fact_checks row
+export interface JobWork {
+  result: unknown;
+  factCheckId?: string | null;
+}
+
+export function toJobView(row: CheckJobRow): JobView {
+  return {
+    job_id: row.id,
+    kind: row.kind,
+    status: row.status,
+    result: row.result ?? null,
+    error: row.error,
+    created_at: row.created_at,
+    started_at: row.started_at,
+    finished_at: row.finished_at,
+    webhook: row.webhook_url
+      ? {
+        url: row.webhook_url,
+        attempts: row.webhook_attempts,
+        delivered_at: row.webhook_delivered_at,
+        last_error: row.webhook_last_error,
+      }
+      : null,
+  };
+}
+
+export function jobStatusUrl(jobId: string, env: (key: string) => string | undefined = (key) => Deno.env.get(key)): string {
+  return `${env('SUPABASE_URL') ?? ''}/functions/v1/check-jobs?id=${jobId}`;
+}
+
+// Body of the 202 answer to an async request. webhook_secret is only ever
+// returned here.
+export function toAcceptedJob(row: CheckJobRow) {
+  return {
+    job_id: row.id,
+    status: row.status,
+    status_url: jobStatusUrl(row.id),
+    webhook_secret: row.webhook_secret,
+  };
+}
+
+// Validates the optional webhook_url of an async request
+export function parseWebhookUrl(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+
+  try {
+    if (typeof value !== 'string' || value.length > 2048) {
+      throw new Error('Invalid URL');
+    }
+    return assertPublicHttpUrl(value).toString();
+  } catch (e) {
+    throw new InputError('webhook_url inválida. Informe uma URL http(s) pública.', 400);
+  }
+}
+
+// Registers a queued job. Jobs with a webhook get a fresh signing secret,
+// which the caller must hand back to the client exactly once.
+export async function createJob(
+  client: SupabaseClient,
+  job: { kind: JobKind; userId: string | null; webhookUrl: string | null }
+): Promise<CheckJobRow> {
+  const { data, error } = await client
+    .from('check_jobs')
+    .insert({
+      kind: job.kind,
+      user_id: job.userId,
+      webhook_url: job.webhookUrl,
+      webhook_secret: job.webhookUrl ? generateWebhookSecret() : null,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create job: ${error?.message}`);
+  }
+
+  return data as CheckJobRow;
+}
+
+export async function getJob(client: SupabaseClient, id: string): Promise<CheckJobRow | null> {
+  const { data, error } = await client
+    .from('check_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load job: ${error.message}`);
+  }
+
+  return data as CheckJobRow | null;
+}
+
+async function updateJob(client: SupabaseClient, id: string, changes: Partial<CheckJobRow>): Promise<CheckJobRow> {
+  const { data, error } = await client
+    .from('check_jobs')
+    .update(changes)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update job: ${error?.message}`);
+  }
+
+  return data as CheckJobRow;
+}
+
+// Moves the job through running to done or failed, then notifies the
+// webhook. Meant to be passed to runInBackground; failures of the work
+// itself are recorded on the job, not thrown.
+export async function runJob(
+  client: SupabaseClient,
+  job: CheckJobRow,
+  work: () => Promise<JobWork>,
+  options: { webhookPolicy?: WebhookPolicy; fetch?: typeof fetch } = {}
+): Promise<CheckJobRow> {
+  await updateJob(client, job.id, { status: 'running', started_at: new Date().toISOString() });
+
+  let finished: CheckJobRow;
+  try {
+    const { result, factCheckId = null } = await work();
+    finished = await updateJob(client, job.id, {
+      status: 'done',
+      result,
+      fact_check_id: factCheckId,
+      finished_at: new Date().toISOString(),
+    });
+  } catch (e) {
+    console.error('Job failed:', job.id, e.message);
+    finished = await updateJob(client, job.id, {
+      status: 'failed',
+      error: 'Falha temporária na verificação. Tente novamente em alguns instantes.',
+      finished_at: new Date().toISOString(),
+    });
+  }
+
+  return notifyJobWebhook(client, finished, options);
+}
+
+// Sends the finished job to its webhook, if it has one, and records how the
+// delivery went
+export async function notifyJobWebhook(
+  client: SupabaseClient,
+  finished: CheckJobRow,
+  options: { webhookPolicy?: WebhookPolicy; fetch?: typeof fetch } = {}
+): Promise<CheckJobRow> {
+  if (!finished.webhook_url || !finished.webhook_secret) {
+    return finished;
+  }
+
+  const delivery = await deliverWebhook(
+    finished.webhook_url,
+    finished.webhook_secret,
+    { event: `check_job.${finished.status}`, job: toJobView(finished) },
+    { id: finished.id, policy: options.webhookPolicy, fetch: options.fetch }
+  );
+
+  return updateJob(client, finished.id, {
+    webhook_attempts: delivery.attempts,
+    webhook_delivered_at: delivery.delivered ? new Date().toISOString() : null,
+    webhook_last_error: delivery.lastError,
+  });
+}
+
+//   JOB_TIMEOUT_SECONDS, default 600
+// Longer than an isolate may run, so a job still queued or running after
+// that was abandoned: its isolate died before finishing it.
+export function loadJobTimeoutMs(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): number {
+  const seconds = Number(env('JOB_TIMEOUT_SECONDS'));
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : 600) * 1000;
+}
+
+const STALE_JOBS_PER_SWEEP = 50;
+
+// Fails a queued or running job that outlived the timeout. Returns the
+// failed row, or null when the job is not stale or finished meanwhile; the
+// status condition keeps a late result from being overwritten.
+export async function failStaleJob(client: SupabaseClient, job: CheckJobRow, timeoutMs: number): Promise<CheckJobRow | null> {
+  if (job.status === 'done' || job.status === 'failed') return null;
+  if (Date.now() - Date.parse(job.started_at ?? job.created_at) < timeoutMs) return null;
+
+  const { data, error } = await client
+    .from('check_jobs')
+    .update({
+      status: 'failed',
+      error: 'A verificação foi interrompida antes de terminar. Envie a solicitação novamente.',
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .in('status', ['queued', 'running'])
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to expire job: ${error.message}`);
+  }
+
+  if (data) {
+    console.error('Job timed out:', job.id);
+  }
+  return data as CheckJobRow | null;
+}
+
+// Fails abandoned jobs and notifies their webhooks. Runs in the background
+// whenever a job is queued, so webhook-only clients hear about jobs nobody
+// polls.
+export async function failStaleJobs(
+  client: SupabaseClient,
+  timeoutMs: number,
+  options: { webhookPolicy?: WebhookPolicy; fetch?: typeof fetch } = {}
+): Promise<number> {
+  const { data, error } = await client
+    .from('check_jobs')
+    .select('*')
+    .in('status', ['queued', 'running'])
+    .lt('created_at', new Date(Date.now() - timeoutMs).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(STALE_JOBS_PER_SWEEP);
+
+  if (error) {
+    throw new Error(`Failed to load stale jobs: ${error.message}`);
+  }
+
+  let failed = 0;
+  for (const job of (data ?? []) as CheckJobRow[]) {
+    const expired = await failStaleJob(client, job, timeoutMs);
+    if (expired) {
+      failed++;
+      await notifyJobWebhook(client, expired, options);
+    }
+  }
+  return failed;
+}
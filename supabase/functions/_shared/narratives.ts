@@ -0,0 +1,276 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { canonicalizeText } from './cacheKey.ts';
+import { saveEmbedding } from './cache.ts';
+import { EmbeddingProvider } from './embeddings/index.ts';
+
+// Groups related checks into narratives: variants of the same rumor that
+// were submitted with different wording. Runs as a job (see the
+// cluster-narratives function); each run assigns checks not yet in a
+// narrative and refreshes the stats of the narratives it touched.
+
+export interface ClusterPolicy {
+  // Cosine similarity to a narrative's centroid needed to join it.
+  // NARRATIVE_MIN_SIMILARITY; defaults to the embedder's own
+  // clusterSimilarity.
+  minSimilarity: number;
+  // Checks handled per run: NARRATIVE_BATCH_SIZE, default 500
+  batchSize: number;
+}
+
+export interface ClusterRunReport {
+  embedded: number;
+  assigned: number;
+  created: number;
+}
+
+interface CheckVector {
+  id: string;
+  input_text: string;
+  vector: number[];
+}
+
+interface NarrativeCentroid {
+  id: string;
+  centroid: number[];
+  member_count: number;
+  // Not yet stored
+  isNew?: boolean;
+  canonical_claim?: string;
+  canonical_check_id?: string;
+}
+
+export function loadClusterPolicy(
+  embedder: EmbeddingProvider,
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key)
+): ClusterPolicy {
+  const rawSimilarity = env('NARRATIVE_MIN_SIMILARITY');
+  const similarity = Number(rawSimilarity);
+  const batchSize = Number(env('NARRATIVE_BATCH_SIZE'));
+
+  return {
+    minSimilarity: rawSimilarity && similarity > 0 && similarity <= 1 ? similarity : embedder.clusterSimilarity,
+    batchSize: Number.isInteger(batchSize) && batchSize > 0 ? batchSize : 500,
+  };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// pgvector columns come back from PostgREST as '[0.1,0.2,...]'
+function parseVector(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value as number[];
+  if (typeof value !== 'string') return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Single-pass leader clustering: each check joins the closest narrative
+// above the threshold, or starts a new one. Centroids are running means, so
+// later checks are compared with what a narrative has become.
+export function assignToNarratives(
+  checks: CheckVector[],
+  narratives: NarrativeCentroid[],
+  minSimilarity: number
+): Map<string, NarrativeCentroid> {
+  const assignments = new Map<string, NarrativeCentroid>();
+
+  for (const check of checks) {
+    let best: NarrativeCentroid | null = null;
+    let bestSimilarity = minSimilarity;
+
+    for (const narrative of narratives) {
+      const similarity = cosineSimilarity(check.vector, narrative.centroid);
+      if (similarity >= bestSimilarity) {
+        best = narrative;
+        bestSimilarity = similarity;
+      }
+    }
+
+    if (best) {
+      const count = best.member_count;
+      best.centroid = best.centroid.map((value, i) => (value * count + check.vector[i]) / (count + 1));
+      best.member_count = count + 1;
+    } else {
+      best = {
+        id: crypto.randomUUID(),
+        centroid: [...check.vector],
+        member_count: 1,
+        isNew: true,
+        canonical_claim: check.input_text,
+        canonical_check_id: check.id,
+      };
+      narratives.push(best);
+    }
+    assignments.set(check.id, best);
+  }
+
+  return assignments;
+}
+
+// Failed checks are left alone this long, so a few inputs the embedder
+// keeps rejecting cannot hold back the rest of the backlog
+const EMBEDDING_RETRY_MS = 24 * 60 * 60 * 1000;
+
+// Checks stored before embeddings were configured, or embedded by a model
+// that has since been replaced, get a current embedding, so they can be
+// clustered and matched as near-duplicates too
+async function embedMissing(client: SupabaseClient, embedder: EmbeddingProvider, limit: number): Promise<number> {
+  const retryBefore = new Date(Date.now() - EMBEDDING_RETRY_MS).toISOString();
+  const { data, error } = await client
+    .from('fact_checks')
+    .select('id, input_text')
+    .or(`embedding.is.null,embedding_model.neq."${embedder.model}"`)
+    .or(`embedding_failed_at.is.null,embedding_failed_at.lt.${retryBefore}`)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load checks to embed: ${error.message}`);
+  }
+
+  let embedded = 0;
+  for (const row of data ?? []) {
+    try {
+      const vector = await embedder.embed(canonicalizeText(row.input_text));
+      await saveEmbedding(client, row.id, { vector, model: embedder.model });
+      embedded++;
+    } catch (e) {
+      console.error('Embedding failed for check:', row.id, e.message);
+      const { error: markError } = await client
+        .from('fact_checks')
+        .update({ embedding_failed_at: new Date().toISOString() })
+        .eq('id', row.id);
+
+      if (markError) {
+        console.error('Failed to record embedding failure:', markError.message);
+      }
+    }
+  }
+  return embedded;
+}
+
+export async function clusterChecks(client: SupabaseClient, embedder: EmbeddingProvider, policy: ClusterPolicy): Promise<ClusterRunReport> {
+  const embedded = await embedMissing(client, embedder, policy.batchSize);
+
+  const { data: checkRows, error: checksError } = await client
+    .from('fact_checks')
+    .select('id, input_text, embedding')
+    .is('narrative_id', null)
+    .eq('embedding_model', embedder.model)
+    .order('created_at', { ascending: true })
+    .limit(policy.batchSize);
+
+  if (checksError) {
+    throw new Error(`Failed to load unclustered checks: ${checksError.message}`);
+  }
+
+  const checks = (checkRows ?? [])
+    .map(row => ({ id: row.id, input_text: row.input_text, vector: parseVector(row.embedding) }))
+    .filter((check): check is CheckVector => check.vector !== null);
+
+  if (checks.length === 0) {
+    return { embedded, assigned: 0, created: 0 };
+  }
+
+  const { data: narrativeRows, error: narrativesError } = await client
+    .from('narratives')
+    .select('id, centroid, member_count')
+    .eq('embedding_model', embedder.model);
+
+  if (narrativesError) {
+    throw new Error(`Failed to load narratives: ${narrativesError.message}`);
+  }
+
+  const narratives = (narrativeRows ?? [])
+    .map(row => ({ id: row.id, centroid: parseVector(row.centroid), member_count: row.member_count }))
+    .filter((narrative): narrative is NarrativeCentroid => narrative.centroid !== null);
+
+  const assignments = assignToNarratives(checks, narratives, policy.minSimilarity);
+  const touched = [...new Set(assignments.values())];
+  const now = new Date().toISOString();
+
+  // Narratives first, so the checks' foreign keys resolve. Stats are
+  // placeholders until refresh_narrative_stats runs below.
+  const created = touched.filter(narrative => narrative.isNew);
+  if (created.length > 0) {
+    const { error: insertError } = await client
+      .from('narratives')
+      .insert(created.map(narrative => ({
+        id: narrative.id,
+        centroid: JSON.stringify(narrative.centroid),
+        embedding_model: embedder.model,
+        member_count: narrative.member_count,
+        canonical_claim: narrative.canonical_claim,
+        canonical_check_id: narrative.canonical_check_id,
+        first_seen_at: now,
+        last_seen_at: now,
+      })));
+
+    if (insertError) {
+      throw new Error(`Failed to create narratives: ${insertError.message}`);
+    }
+  }
+
+  // Updated one by one: an upsert would also write the columns it does not
+  // carry for existing narratives
+  for (const narrative of touched.filter(narrative => !narrative.isNew)) {
+    const { error } = await client
+      .from('narratives')
+      .update({ centroid: JSON.stringify(narrative.centroid), member_count: narrative.member_count })
+      .eq('id', narrative.id);
+
+    if (error) {
+      throw new Error(`Failed to update narrative: ${error.message}`);
+    }
+  }
+
+  for (const narrative of touched) {
+    const memberIds = [...assignments].filter(([, assigned]) => assigned === narrative).map(([checkId]) => checkId);
+    const { error } = await client
+      .from('fact_checks')
+      .update({ narrative_id: narrative.id })
+      .in('id', memberIds);
+
+    if (error) {
+      throw new Error(`Failed to assign checks to narrative: ${error.message}`);
+    }
+  }
+
+  const { error: statsError } = await client.rpc('refresh_narrative_stats', {
+    p_narrative_ids: touched.map(narrative => narrative.id),
+  });
+
+  if (statsError) {
+    throw new Error(`Failed to refresh narrative stats: ${statsError.message}`);
+  }
+
+  return {
+    embedded,
+    assigned: assignments.size,
+    created: created.length,
+  };
+}
+
+// Counts a request towards its check's narrative, cache hits included
+export async function recordSubmission(client: SupabaseClient, factCheckId: string, cached: boolean): Promise<void> {
+  const { error } = await client
+    .from('check_submissions')
+    .insert({ fact_check_id: factCheckId, cached });
+
+  if (error) {
+    throw new Error(`Failed to record submission: ${error.message}`);
+  }
+}
@@ -0,0 +1,38 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Source, VerdictStatus } from './types.ts';
+
+export type ReviewAction = 'confirmed' | 'overridden';
+
+export interface VerdictOverride {
+  id: string;
+  fact_check_id: string;
+  action: ReviewAction;
+  status: VerdictStatus;
+  confidence: number;
+  justification: string;
+  sources: Source[];
+  reviewer_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A missing or unreadable override falls back to the model verdict
+export async function findOverride(client: SupabaseClient, factCheckId: string): Promise<VerdictOverride | null> {
+  try {
+    const { data, error } = await client
+      .from('verdict_overrides')
+      .select('*')
+      .eq('fact_check_id', factCheckId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Override lookup failed:', error.message);
+      return null;
+    }
+
+    return data as VerdictOverride | null;
+  } catch (e) {
+    console.error('Override lookup failed:', e.message);
+    return null;
+  }
+}
@@ -0,0 +1,349 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ClaimVerdict, Source, VerdictStatus } from './types.ts';
+import { verifyText } from './verify.ts';
+import { unavailableResult } from './factCheck.ts';
+import { LLMProvider } from './providers/types.ts';
+import { getProvider } from './providers/index.ts';
+import { buildCacheKey, buildCacheScope, canonicalizeText } from './cacheKey.ts';
+import { FactCheckRow, findCachedCheck, findCheckById, findSimilarCheck, InputEmbedding, saveCheck, saveEmbedding, SimilarCheck } from './cache.ts';
+import { computeExpiry, detectTopic, isExpired, loadTtlPolicy } from './cachePolicy.ts';
+import { runInBackground } from './runtime.ts';
+import { findOverride, ReviewAction, VerdictOverride } from './overrides.ts';
+import { ArticleMetadata, assertPublicHttpUrl, getPageFetcher, ingestArticle, PageFetcher } from './article/index.ts';
+import { ProgressCallback } from './progress.ts';
+import { getRetriever, Retriever } from './search/index.ts';
+import { getSourceChecker, SourceChecker } from './sourceCheck.ts';
+import { CredibilityPolicy, loadCredibilityPolicy } from './credibility.ts';
+import { ClaimReviewIndex, getClaimReviewIndex } from './claimReview/index.ts';
+import { EmbeddingProvider, getEmbeddingProvider, loadMinSimilarity } from './embeddings/index.ts';
+import { recordSubmission } from './narratives.ts';
+import { applyCalibration, ConfidenceCalibration, getCalibration } from './calibration/index.ts';
+
+// The request-independent part of a verification, shared by the SPA's
+// fact-check function and the public API: input preparation, then cache,
+// reviewer override and model verification.
+
+export const TEXT_MAX_LENGTH = 2000;
+export const ARTICLE_MAX_LENGTH = 4000; // Articles carry more context than pasted text
+
+// Raised for input the caller must fix; status is the HTTP status to answer with
+export class InputError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'InputError';
+  }
+}
+
+export interface CheckInput {
+  text?: unknown;
+  url?: unknown;
+}
+
+export interface PreparedInput {
+  text: string;
+  article: ArticleMetadata | null;
+}
+
+export interface CheckOutcome {
+  // fact_checks row id; null when the result could not be stored
+  id: string | null;
+  status: VerdictStatus;
+  confidence: number;
+  justification: string;
+  sources: Source[];
+  claims: ClaimVerdict[];
+  article: ArticleMetadata | null;
+  cached: boolean;
+  stale: boolean;
+  reviewed: boolean;
+  review_action: ReviewAction | null;
+  checked_at: string;
+  expires_at: string | null;
+  // Set when the verdict was reused from an earlier, reworded submission
+  similar_to: SimilarCheck | null;
+}
+
+// Input sanitization function
+export function sanitizeInput(text: string, maxLength = TEXT_MAX_LENGTH): string {
+  if (!text || typeof text !== 'string') {
+    throw new Error('Invalid input');
+  }
+  
+  // Remove potentially dangerous characters and normalize
+  return text
+    .replace(/[<>"'&]/g, '') // Remove HTML/script injection chars
+    .replace(/\s+/g, ' ') // Normalize whitespace
+    .trim()
+    .substring(0, maxLength); // Limit length to prevent DoS
+}
+
+// Turns a { text } or { url } request into sanitized text to verify. The
+// fetcher is only resolved in URL mode.
+export async function prepareInput(input: CheckInput, getFetcher: () => Promise<PageFetcher>): Promise<PreparedInput> {
+  let { text } = input;
+  let article: ArticleMetadata | null = null;
+
+  // URL mode: fetch the page and verify the extracted article content
+  if (input.url !== undefined) {
+    const { url } = input;
+    try {
+      if (typeof url !== 'string' || url.length > 2048) {
+        throw new Error('Invalid URL');
+      }
+      assertPublicHttpUrl(url);
+    } catch (e) {
+      throw new InputError('URL inválida. Informe um link http(s) público.', 400);
+    }
+
+    try {
+      const extracted = await ingestArticle(url, await getFetcher());
+      const { text: body, ...metadata } = extracted;
+      article = metadata;
+      text = [extracted.title, body].filter(Boolean).join('. ');
+      console.log('Article extracted:', extracted.url, body.length, 'chars');
+    } catch (e) {
+      console.error('Article fetch failed:', e.message);
+      throw new InputError('Não foi possível acessar o link informado', 422);
+    }
+  }
+
+  if (!text || typeof text !== 'string') {
+    throw new InputError('Texto é obrigatório para verificação', 400);
+  }
+
+  // Input validation and sanitization
+  let cleanText;
+  try {
+    cleanText = sanitizeInput(text, article ? ARTICLE_MAX_LENGTH : TEXT_MAX_LENGTH);
+  } catch (e) {
+    throw new InputError('Texto contém caracteres inválidos ou é muito longo', 400);
+  }
+
+  if (cleanText.length < 10) {
+    throw new InputError(article
+      ? 'Não foi possível extrair o conteúdo da página'
+      : 'Texto muito curto para análise (mínimo 10 caracteres)', 400);
+  }
+
+  return { text: cleanText, article };
+}
+
+// The verdict to serve for a stored check. A reviewer's verdict always wins
+// over the model output and never goes stale.
+export function outcomeFromRow(row: FactCheckRow, override: VerdictOverride | null, article: ArticleMetadata | null = null): CheckOutcome {
+  if (override) {
+    return {
+      id: row.id,
+      status: override.status,
+      confidence: override.confidence,
+      justification: override.justification,
+      sources: override.sources || [],
+      // Per-claim verdicts are model output and may contradict an override
+      claims: override.action === 'confirmed' ? row.claims || [] : [],
+      article: article ?? row.article,
+      cached: true,
+      stale: false,
+      reviewed: true,
+      review_action: override.action,
+      checked_at: override.updated_at,
+      expires_at: null,
+      similar_to: null
+    };
+  }
+
+  return {
+    id: row.id,
+    status: row.status,
+    confidence: row.confidence,
+    justification: row.justification,
+    sources: row.sources || [],
+    claims: row.claims || [],
+    article: article ?? row.article,
+    cached: true,
+    stale: isExpired(row.expires_at),
+    reviewed: false,
+    review_action: null,
+    checked_at: row.verified_at,
+    expires_at: row.expires_at,
+    similar_to: null
+  };
+}
+
+// An embedding failure only costs the near-duplicate lookup
+async function embedInput(embedder: EmbeddingProvider, text: string): Promise<InputEmbedding | null> {
+  try {
+    return { vector: await embedder.embed(canonicalizeText(text)), model: embedder.model };
+  } catch (e) {
+    console.error('Embedding failed:', e.message);
+    return null;
+  }
+}
+
+export interface RunCheckOptions {
+  refresh?: boolean;
+  provider?: LLMProvider;
+  retriever?: Retriever | null;
+  sourceChecker?: SourceChecker | null;
+  credibility?: CredibilityPolicy | null;
+  claimReviews?: ClaimReviewIndex | null;
+  embedder?: EmbeddingProvider | null;
+  calibration?: ConfidenceCalibration | null;
+  onProgress?: ProgressCallback;
+}
+
+// Every request is counted towards the check that answered it, so
+// narratives can tell how often a rumor is still circulating
+export async function runCheck(client: SupabaseClient, input: PreparedInput, options: RunCheckOptions = {}): Promise<CheckOutcome> {
+  const outcome = await resolveCheck(client, input, options);
+  if (outcome.id) {
+    runInBackground(recordSubmission(client, outcome.id, outcome.cached));
+  }
+  return outcome;
+}
+
+// The safe answer when no model can be asked at all; not stored, so the
+// text is verified once the configuration is fixed
+function unavailableOutcome(text: string, article: ArticleMetadata | null): CheckOutcome {
+  const result = unavailableResult(text);
+  return {
+    id: null,
+    status: result.status,
+    confidence: result.confidence,
+    justification: result.justification,
+    sources: result.sources,
+    claims: [],
+    article,
+    cached: false,
+    stale: false,
+    reviewed: false,
+    review_action: null,
+    checked_at: new Date().toISOString(),
+    expires_at: null,
+    similar_to: null
+  };
+}
+
+// Configuration errors in optional backends only switch them off; without
+// a provider the safe answer is served, as when the provider fails
+export async function optionalBackend<T>(name: string, load: () => T | Promise<T>): Promise<T | null> {
+  try {
+    return await load();
+  } catch (e) {
+    console.error(`${name} unavailable, continuing without it:`, e.message);
+    return null;
+  }
+}
+
+async function resolveCheck(client: SupabaseClient, input: PreparedInput, options: RunCheckOptions): Promise<CheckOutcome> {
+  const { text: cleanText, article } = input;
+  const refresh = options.refresh === true;
+
+  let provider: LLMProvider;
+  try {
+    provider = options.provider ?? getProvider();
+  } catch (e) {
+    console.error('LLM provider unavailable:', e.message);
+    return unavailableOutcome(cleanText, article);
+  }
+
+  const retriever = options.retriever !== undefined ? options.retriever : await optionalBackend('Search', () => getRetriever());
+  const cacheScope = buildCacheScope(provider, retriever?.name);
+  const textHash = await buildCacheKey(cleanText, provider, retriever?.name);
+  const topic = detectTopic(cleanText);
+  const ttlPolicy = loadTtlPolicy();
+  const embedder = options.embedder !== undefined ? options.embedder : await optionalBackend('Embedding provider', () => getEmbeddingProvider());
+
+  // Embedded at most once: for the near-duplicate lookup and to store with
+  // a new verdict
+  let embedding: Promise<InputEmbedding | null> | null = null;
+  const getEmbedding = () => embedding ??= embedder ? embedInput(embedder, cleanText) : Promise.resolve(null);
+
+  console.log('Processing fact-check request, hash:', textHash, 'topic:', topic);
+
+  // Split into claims, verify each with the configured LLM provider and
+  // store the verdict with an expiry derived from its status and topic
+  const verifyAndStore = async (onProgress?: ProgressCallback) => {
+    const sourceChecker = options.sourceChecker !== undefined ? options.sourceChecker : getSourceChecker(await getPageFetcher());
+    const credibility = options.credibility !== undefined ? options.credibility : await loadCredibilityPolicy(client);
+    const claimReviews = options.claimReviews !== undefined ? options.claimReviews : getClaimReviewIndex(client);
+    const calibration = options.calibration !== undefined ? options.calibration : await getCalibration(client);
+    const { result, ...calibrated } = applyCalibration(
+      await verifyText(cleanText, provider, { onProgress, retriever, sourceChecker, credibility, claimReviews }),
+      calibration
+    );
+    // Sent here rather than by verifyText so the streamed confidence is the
+    // calibrated one the final result carries
+    onProgress?.({ type: 'verdict_drafted', status: result.status, confidence: result.confidence, justification: result.justification, sources: result.sources });
+    const expiresAt = computeExpiry(result.status, topic, ttlPolicy, result.search_results.fallback === true);
+    const row = await saveCheck(client, { key: textHash, scope: cacheScope, text: cleanText, result, topic, expiresAt, article, embedding: await getEmbedding(), calibration: calibrated });
+    return { result, expiresAt, row };
+  };
+
+  // Check cache first. A reviewer's verdict always wins, even over a
+  // forced refresh; otherwise the cached model verdict is served unless the
+  // user explicitly asked to re-verify.
+  const existingResult = await findCachedCheck(client, textHash, cleanText);
+  const override = existingResult ? await findOverride(client, existingResult.id) : null;
+
+  if (existingResult && override) {
+    console.log('Found reviewed result:', override.action);
+    return outcomeFromRow(existingResult, override, article);
+  }
+
+  if (existingResult && !refresh) {
+    const outcome = outcomeFromRow(existingResult, null, article);
+    console.log('Found cached result', outcome.stale ? '(stale, refreshing in background)' : '');
+
+    if (outcome.stale) {
+      runInBackground(verifyAndStore());
+    } else if (embedder && existingResult.embedding_model !== embedder.model) {
+      // Rows stored before embeddings were configured join the lookup as they are served
+      runInBackground(getEmbedding().then(vector => vector && saveEmbedding(client, existingResult.id, vector)));
+    }
+
+    return outcome;
+  }
+
+  // A reworded version of an earlier message reuses that verdict, unless
+  // the user asked to re-verify
+  if (!refresh && embedder) {
+    const vector = await getEmbedding();
+    const similar = vector ? await findSimilarCheck(client, vector, loadMinSimilarity(embedder), cacheScope, cleanText) : null;
+    const similarRow = similar ? await findCheckById(client, similar.id) : null;
+
+    if (similar && similarRow) {
+      const outcome = outcomeFromRow(similarRow, await findOverride(client, similarRow.id), article);
+      console.log('Found similar check:', similar.id, 'similarity:', similar.similarity.toFixed(3), outcome.stale ? '(stale, refreshing in background)' : '');
+
+      // As with exact hits; the fresh verdict is stored under this text's
+      // own key, so the next request for it is an exact hit
+      if (outcome.stale) {
+        runInBackground(verifyAndStore());
+      }
+      return { ...outcome, similar_to: similar };
+    }
+  }
+
+  console.log(refresh ? 'Forced refresh requested, performing new fact-check' : 'No cached result found, performing new fact-check');
+
+  const { result, expiresAt, row } = await verifyAndStore(options.onProgress);
+
+  console.log('Fact-check completed successfully:', result.status, result.confidence + '%');
+
+  return {
+    id: row?.id ?? null,
+    status: result.status,
+    confidence: result.confidence,
+    justification: result.justification,
+    sources: result.sources,
+    claims: result.claims,
+    article,
+    cached: false,
+    stale: false,
+    reviewed: false,
+    review_action: null,
+    checked_at: row?.verified_at ?? new Date().toISOString(),
+    expires_at: expiresAt.toISOString(),
+    similar_to: null
+  };
+}
@@ -0,0 +1,49 @@
+import { ClaimVerdict, Source, VerdictStatus } from './types.ts';
+
+// Steps of a verification as they happen, for clients that asked to
+// stream (see fact-check's `stream` mode). Field names follow the wire format.
+export type ProgressEvent =
+  | { type: 'claims_extracted'; claims: Array<{ claim: string; start: number | null; end: number | null }> }
+  | { type: 'searching_sources'; claim_index: number; claim: string }
+  | { type: 'sources_found'; claim_index: number; sources: Array<{ title: string; url: string }> }
+  | { type: 'justification_delta'; claim_index: number; text: string }
+  | { type: 'claim_verified'; claim_index: number; verdict: ClaimVerdict }
+  | { type: 'verdict_drafted'; status: VerdictStatus; confidence: number; justification: string; sources: Source[] };
+
+export type ProgressCallback = (event: ProgressEvent) => void;
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+// Reads a string field out of a JSON document that is still being
+// generated, e.g. `{"status": "fake", "justification": "A vacina` gives
+// "A vacina". Returns null until the field has started.
+export function partialJsonString(json: string, field: string): string | null {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+  if (!match) return null;
+
+  let value = '';
+  for (let i = match.index + match[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    // Stop before an escape sequence that has not fully arrived yet
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ESCAPES[next] ?? next;
+      i++;
+    }
+  }
+
+  return value;
+}
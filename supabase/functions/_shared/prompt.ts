@@ -0,0 +1,137 @@
+import { EvidenceDocument } from './search/index.ts';
+
+// Bump whenever the fact-check prompt changes in a way that affects verdicts;
+// it is part of the cache key so old answers are not served for new prompts.
+export const PROMPT_VERSION = '1';
+
+// Grounded mode: the model must judge from these documents only and cite
+// them by their exact URL
+function buildEvidenceInstructions(evidence: EvidenceDocument[]): string {
+  if (evidence.length === 0) {
+    return `
+DOCUMENTOS RECUPERADOS: nenhum documento relevante foi encontrado na busca.
+
+Sem documentos, classifique como "uncertain", a menos que a afirmação seja um fato amplamente estabelecido, e devolva "sources": [].
+`;
+  }
+
+  const documents = evidence
+    .map((document, index) => `[${index + 1}] ${document.title}\nURL: ${document.url}\nTRECHO: ${document.snippet}`)
+    .join('\n\n');
+
+  return `
+DOCUMENTOS RECUPERADOS (resultado de uma busca real, use-os como evidência):
+
+${documents}
+
+REGRAS PARA FONTES:
+- Baseie a análise nos documentos acima e cite-os na justificativa
+- Em "sources", inclua SOMENTE documentos da lista acima, copiando a URL exatamente como aparece
+- Não invente URLs; se nenhum documento tratar da afirmação, classifique como "uncertain"
+`;
+}
+
+export function buildFactCheckPrompt(text: string, evidence?: EvidenceDocument[]): string {
+  if (evidence) {
+    return `
+Você é um verificador de fatos profissional especializado em análise de informações em português. Analise a seguinte afirmação e determine se é verdadeira, falsa ou incerta.
+
+TEXTO PARA VERIFICAR: "${text}"
+${buildEvidenceInstructions(evidence)}
+CRITÉRIOS DE CLASSIFICAÇÃO:
+- VERDADEIRO (real): Quando os documentos confirmam a informação
+- FALSO (fake): Quando os documentos contradizem a afirmação
+- INCERTO (uncertain): Quando os documentos não tratam do assunto ou são conflitantes
+
+Responda EXATAMENTE neste formato JSON:
+{
+  "status": "real|fake|uncertain",
+  "confidence": [número de 70-95 para real/fake, 30-60 para uncertain],
+  "justification": "Explicação clara e detalhada em português do porquê da classificação, mencionando os documentos usados",
+  "sources": [
+    {
+      "title": "Título do documento",
+      "url": "URL do documento, copiada da lista",
+      "summary": "Resumo do que o documento diz sobre o assunto"
+    }
+  ]
+}
+  `;
+  }
+
+  return `
+Você é um verificador de fatos profissional especializado em análise de informações em português. Analise a seguinte afirmação e determine se é verdadeira, falsa ou incerta.
+
+TEXTO PARA VERIFICAR: "${text}"
+
+INSTRUÇÕES DETALHADAS:
+1. Procure por informações atuais sobre este tópico na internet
+2. Verifique múltiplas fontes confiáveis (sites oficiais, órgãos de imprensa respeitados, instituições)
+3. Compare as informações encontradas com a afirmação
+4. Seja DECISIVO na sua análise - evite respostas "incertas" quando há evidências claras
+5. Para notícias recentes, procure por reportagens de veículos de imprensa conhecidos
+6. Para dados científicos, procure por fontes acadêmicas ou órgãos oficiais
+7. Para informações sobre pessoas públicas, verifique fontes oficiais
+
+CRITÉRIOS DE CLASSIFICAÇÃO:
+- VERDADEIRO (real): Quando há evidências claras e múltiplas fontes confirmam a informação
+- FALSO (fake): Quando há evidências que contradizem a afirmação ou não há fontes confiáveis
+- INCERTO (uncertain): APENAS quando realmente não há informações suficientes ou fontes conflitantes
+
+Responda EXATAMENTE neste formato JSON:
+{
+  "status": "real|fake|uncertain",
+  "confidence": [número de 70-95 para real/fake, 30-60 para uncertain],
+  "justification": "Explicação clara e detalhada em português do porquê da classificação, mencionando as fontes verificadas",
+  "sources": [
+    {
+      "title": "Título da fonte",
+      "url": "URL da fonte (use URLs reais quando possível)",
+      "summary": "Resumo do que a fonte diz sobre o assunto"
+    }
+  ]
+}
+
+IMPORTANTE: Seja confiante na sua análise. Se encontrar evidências claras, classifique como "real" ou "fake" com alta confiança (70-95%). Use "uncertain" apenas quando realmente não há informações suficientes.
+  `;
+}
+
+export function buildClaimExtractionPrompt(text: string, maxClaims: number): string {
+  return `
+Você é um assistente de verificação de fatos. O texto abaixo pode conter várias afirmações misturadas (por exemplo, uma mensagem encaminhada no WhatsApp).
+
+TEXTO: "${text}"
+
+Separe o texto em afirmações atômicas e verificáveis (no máximo ${maxClaims}). Cada afirmação deve:
+- Conter um único fato que possa ser verdadeiro ou falso
+- Ser copiada LITERALMENTE do texto original, sem reescrever, sempre que possível
+- Ignorar opiniões, saudações, pedidos de compartilhamento e frases sem conteúdo factual
+
+Responda EXATAMENTE neste formato JSON:
+{
+  "claims": ["primeira afirmação", "segunda afirmação"]
+}
+  `;
+}
+
+export function buildRepairPrompt(previousResponse: string, errors: string[]): string {
+  return `
+Sua resposta anterior não seguiu o formato JSON exigido.
+
+RESPOSTA ANTERIOR:
+${previousResponse.substring(0, 4000)}
+
+PROBLEMAS ENCONTRADOS:
+${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}
+
+Corrija a resposta e devolva APENAS o objeto JSON, sem texto adicional, exatamente neste formato:
+{
+  "status": "real|fake|uncertain",
+  "confidence": número entre 0 e 100,
+  "justification": "texto não vazio",
+  "sources": [
+    { "title": "texto não vazio", "url": "https://...", "summary": "texto não vazio" }
+  ]
+}
+  `;
+}
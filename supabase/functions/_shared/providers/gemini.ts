@@ -0,0 +1,87 @@
+import { CompletionOptions, LLMProvider, ProviderError } from './types.ts';
+import { readEventData } from './streaming.ts';
+
+const DEFAULT_MODEL = 'gemini-1.5-flash';
+
+function buildRequestBody(prompt: string, options: CompletionOptions): string {
+  return JSON.stringify({
+    contents: [{
+      parts: [{
+        text: prompt
+      }]
+    }],
+    generationConfig: {
+      temperature: options.temperature ?? 0.1,
+      topK: 1,
+      topP: 0.8,
+      maxOutputTokens: options.maxOutputTokens ?? 4096,
+    },
+    safetySettings: [
+      {
+        category: "HARM_CATEGORY_HARASSMENT",
+        threshold: "BLOCK_MEDIUM_AND_ABOVE"
+      },
+      {
+        category: "HARM_CATEGORY_HATE_SPEECH",
+        threshold: "BLOCK_MEDIUM_AND_ABOVE"
+      },
+      {
+        category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+        threshold: "BLOCK_MEDIUM_AND_ABOVE"
+      },
+      {
+        category: "HARM_CATEGORY_DANGEROUS_CONTENT",
+        threshold: "BLOCK_MEDIUM_AND_ABOVE"
+      }
+    ]
+  });
+}
+
+export function createGeminiProvider(apiKey: string, model = DEFAULT_MODEL): LLMProvider {
+  const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}`;
+
+  return {
+    name: 'gemini',
+    model,
+    async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+      const response = await fetch(`${endpoint}:generateContent?key=${apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: buildRequestBody(prompt, options),
+      });
+
+      if (!response.ok) {
+        throw new ProviderError('gemini', `HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+      if (!text) {
+        throw new ProviderError('gemini', 'Empty response');
+      }
+
+      return text;
+    },
+    async *stream(prompt: string, options: CompletionOptions = {}): AsyncGenerator<string> {
+      const response = await fetch(`${endpoint}:streamGenerateContent?alt=sse&key=${apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: buildRequestBody(prompt, options),
+      });
+
+      if (!response.ok) {
+        throw new ProviderError('gemini', `HTTP ${response.status}`);
+      }
+
+      for await (const data of readEventData(response)) {
+        const text = JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text;
+        if (text) yield text;
+      }
+    },
+  };
+}
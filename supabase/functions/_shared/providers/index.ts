@@ -0,0 +1,42 @@
+import { LLMProvider, ProviderError } from './types.ts';
+import { createGeminiProvider } from './gemini.ts';
+import { createOpenAIProvider } from './openai.ts';
+import { createOllamaProvider } from './ollama.ts';
+import { createStubProvider } from './stub.ts';
+import { VERDICT_STATUSES, VerdictStatus } from '../types.ts';
+
+export type { CompletionOptions, LLMProvider } from './types.ts';
+export { ProviderError } from './types.ts';
+
+// Select the LLM backend from the environment:
+//   LLM_PROVIDER = gemini (default) | openai | ollama | stub
+//   LLM_MODEL overrides the provider's default model
+export function getProvider(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): LLMProvider {
+  const name = (env('LLM_PROVIDER') || 'gemini').toLowerCase();
+  const model = env('LLM_MODEL') || undefined;
+
+  switch (name) {
+    case 'gemini': {
+      const apiKey = env('GEMINI_API_KEY');
+      if (!apiKey) {
+        throw new ProviderError('gemini', 'GEMINI_API_KEY not configured');
+      }
+      return createGeminiProvider(apiKey, model);
+    }
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new ProviderError('openai', 'OPENAI_API_KEY not configured');
+      }
+      return createOpenAIProvider(apiKey, env('OPENAI_BASE_URL') || undefined, model);
+    }
+    case 'ollama':
+      return createOllamaProvider(env('OLLAMA_URL') || undefined, model);
+    case 'stub': {
+      const status = env('STUB_VERDICT') as VerdictStatus;
+      return createStubProvider(VERDICT_STATUSES.includes(status) ? status : 'uncertain');
+    }
+    default:
+      throw new ProviderError(name, 'Unknown LLM provider');
+  }
+}
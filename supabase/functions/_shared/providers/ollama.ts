@@ -0,0 +1,61 @@
+import { CompletionOptions, LLMProvider, ProviderError } from './types.ts';
+import { readLines } from './streaming.ts';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+const DEFAULT_MODEL = 'llama3.1';
+
+// Local HTTP inference server speaking the Ollama /api/generate protocol.
+export function createOllamaProvider(baseUrl = DEFAULT_BASE_URL, model = DEFAULT_MODEL): LLMProvider {
+  const request = (prompt: string, options: CompletionOptions, stream: boolean) =>
+    fetch(`${baseUrl.replace(/\/+$/, '')}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        prompt,
+        stream,
+        format: 'json',
+        options: {
+          temperature: options.temperature ?? 0.1,
+          num_predict: options.maxOutputTokens ?? 4096,
+        },
+      }),
+    });
+
+  return {
+    name: 'ollama',
+    model,
+    async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+      const response = await request(prompt, options, false);
+
+      if (!response.ok) {
+        throw new ProviderError('ollama', `HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (!data.response) {
+        throw new ProviderError('ollama', 'Empty response');
+      }
+
+      return data.response;
+    },
+    // Streaming responses are newline-delimited JSON objects
+    async *stream(prompt: string, options: CompletionOptions = {}): AsyncGenerator<string> {
+      const response = await request(prompt, options, true);
+
+      if (!response.ok) {
+        throw new ProviderError('ollama', `HTTP ${response.status}`);
+      }
+
+      for await (const line of readLines(response)) {
+        if (!line.trim()) continue;
+        const data = JSON.parse(line);
+        if (data.response) yield data.response;
+        if (data.done) break;
+      }
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { CompletionOptions, LLMProvider, ProviderError } from './types.ts';
+import { readEventData } from './streaming.ts';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+// Works with any server implementing the OpenAI chat completions API
+// (OpenAI, Azure-compatible gateways, vLLM, LM Studio, ...).
+export function createOpenAIProvider(apiKey: string, baseUrl = DEFAULT_BASE_URL, model = DEFAULT_MODEL): LLMProvider {
+  const request = (prompt: string, options: CompletionOptions, stream: boolean) =>
+    fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature ?? 0.1,
+        max_tokens: options.maxOutputTokens ?? 4096,
+        response_format: { type: 'json_object' },
+        stream,
+      }),
+    });
+
+  return {
+    name: 'openai',
+    model,
+    async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+      const response = await request(prompt, options, false);
+
+      if (!response.ok) {
+        throw new ProviderError('openai', `HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      const text = data.choices?.[0]?.message?.content;
+
+      if (!text) {
+        throw new ProviderError('openai', 'Empty response');
+      }
+
+      return text;
+    },
+    async *stream(prompt: string, options: CompletionOptions = {}): AsyncGenerator<string> {
+      const response = await request(prompt, options, true);
+
+      if (!response.ok) {
+        throw new ProviderError('openai', `HTTP ${response.status}`);
+      }
+
+      for await (const data of readEventData(response)) {
+        if (data === '[DONE]') break;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
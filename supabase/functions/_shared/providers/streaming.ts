@@ -0,0 +1,31 @@
+// Yields the response body line by line as it arrives
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    let newline;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+
+  if (buffer) yield buffer;
+}
+
+// Data payloads of a server-sent event stream. Providers send one JSON
+// document per single-line event, so multi-line data is not reassembled.
+export async function* readEventData(response: Response): AsyncGenerator<string> {
+  for await (const line of readLines(response)) {
+    if (line.startsWith('data:')) {
+      yield line.slice(5).trimStart();
+    }
+  }
+}
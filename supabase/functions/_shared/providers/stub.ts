@@ -0,0 +1,35 @@
+import { LLMProvider } from './types.ts';
+import { VerdictStatus } from '../types.ts';
+
+// Size of the pieces the stub streams its answer in
+const STREAM_CHUNK_LENGTH = 16;
+
+// Deterministic offline provider for tests and local development. Always
+// answers with the configured verdict, never touches the network.
+export function createStubProvider(status: VerdictStatus = 'uncertain'): LLMProvider {
+  const answer = JSON.stringify({
+    status,
+    confidence: status === 'uncertain' ? 50 : 80,
+    justification: 'Resposta determinística do provedor de testes.',
+    sources: [
+      {
+        title: 'Fonte de teste',
+        url: 'https://example.org/fonte-de-teste',
+        summary: 'Fonte fictícia usada em ambiente de testes.'
+      }
+    ]
+  });
+
+  return {
+    name: 'stub',
+    model: 'stub-v1',
+    complete(): Promise<string> {
+      return Promise.resolve(answer);
+    },
+    async *stream(): AsyncGenerator<string> {
+      for (let offset = 0; offset < answer.length; offset += STREAM_CHUNK_LENGTH) {
+        yield answer.slice(offset, offset + STREAM_CHUNK_LENGTH);
+      }
+    },
+  };
+}
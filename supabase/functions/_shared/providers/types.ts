@@ -0,0 +1,22 @@
+export interface CompletionOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+// Every LLM backend exposes the same text-in/text-out contract; prompt
+// building and response parsing stay in the shared fact-check pipeline.
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(prompt: string, options?: CompletionOptions): Promise<string>;
+  // Same completion, yielded in chunks as the model generates it. Optional:
+  // callers fall back to complete() for providers without streaming.
+  stream?(prompt: string, options?: CompletionOptions): AsyncIterable<string>;
+}
+
+export class ProviderError extends Error {
+  constructor(provider: string, message: string) {
+    super(`[${provider}] ${message}`);
+    this.name = 'ProviderError';
+  }
+}
@@ -0,0 +1,28 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { getClientIp } from './clientIp.ts';
+
+Deno.test('headers other than the configured one are ignored', () => {
+  const headers = new Headers({
+    'cf-connecting-ip': '198.51.100.1',
+    'forwarded': 'for=198.51.100.2',
+    'x-real-ip': '198.51.100.3',
+    'x-forwarded-for': '203.0.113.7',
+  });
+  assertEquals(getClientIp(headers), '203.0.113.7');
+});
+
+Deno.test('client-supplied x-forwarded-for entries left of the trusted hops are skipped', () => {
+  const headers = new Headers({ 'x-forwarded-for': '10.9.9.9, 203.0.113.7, 192.0.2.1' });
+  assertEquals(getClientIp(headers, 'x-forwarded-for', 1), '192.0.2.1');
+  assertEquals(getClientIp(headers, 'x-forwarded-for', 2), '203.0.113.7');
+});
+
+Deno.test('a declared single-value header is read as is', () => {
+  const headers = new Headers({ 'cf-connecting-ip': '198.51.100.1', 'x-forwarded-for': '203.0.113.7' });
+  assertEquals(getClientIp(headers, 'cf-connecting-ip'), '198.51.100.1');
+});
+
+Deno.test('a missing or malformed header gives unknown', () => {
+  assertEquals(getClientIp(new Headers({ 'forwarded': 'for=198.51.100.2' })), 'unknown');
+  assertEquals(getClientIp(new Headers({ 'x-forwarded-for': 'not-an-ip' })), 'unknown');
+});
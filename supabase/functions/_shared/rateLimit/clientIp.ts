@@ -0,0 +1,68 @@
+const IPV4 = /^(\d{1,3})(\.\d{1,3}){3}$/;
+const IPV6 = /^[0-9a-f:.]+$/i;
+
+// Strip ports, brackets and quotes; returns null for anything that is not an IP
+export function normalizeIp(value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  let candidate = value.trim().replace(/^"|"$/g, '');
+
+  if (candidate.startsWith('[')) {
+    // [2001:db8::1]:443
+    candidate = candidate.slice(1, candidate.indexOf(']') === -1 ? undefined : candidate.indexOf(']'));
+  } else if (IPV4.test(candidate.split(':')[0]) && candidate.split(':').length === 2) {
+    // 203.0.113.7:51234
+    candidate = candidate.split(':')[0];
+  }
+
+  if (IPV4.test(candidate)) {
+    return candidate.split('.').every(octet => Number(octet) <= 255) ? candidate : null;
+  }
+  if (candidate.includes(':') && IPV6.test(candidate)) {
+    return candidate.toLowerCase();
+  }
+  return null;
+}
+
+// Pick the client address from a proxy chain. Each trusted proxy appends the
+// address it received the request from, so with N trusted hops the client is
+// the Nth entry from the right; anything further left is client-controlled.
+export function pickFromChain(chain: string[], trustedHops: number): string | null {
+  const addresses = chain.map(normalizeIp);
+  if (addresses.length === 0) return null;
+
+  const index = Math.max(0, addresses.length - Math.max(1, trustedHops));
+  return addresses[index];
+}
+
+// RFC 7239: Forwarded: for=192.0.2.60;proto=http, for="[2001:db8::1]"
+function parseForwardedHeader(header: string): string[] {
+  return header
+    .split(',')
+    .map(element => element.split(';').find(pair => pair.trim().toLowerCase().startsWith('for=')))
+    .filter((pair): pair is string => Boolean(pair))
+    .map(pair => pair.trim().slice(4));
+}
+
+// Header the deployment's edge proxy sets. Only that one is read: any other
+// reaches the function exactly as the client sent it, so a client could
+// pick a new address, and get a fresh rate limit bucket, on every request.
+export type ClientIpHeader = 'x-forwarded-for' | 'forwarded' | 'cf-connecting-ip' | 'x-real-ip';
+
+export const CLIENT_IP_HEADERS: ClientIpHeader[] = ['x-forwarded-for', 'forwarded', 'cf-connecting-ip', 'x-real-ip'];
+
+// The chained headers are read trustedHops entries from the right; the
+// single-value ones must be overwritten, not passed on, by the proxy
+export function getClientIp(headers: Headers, header: ClientIpHeader = 'x-forwarded-for', trustedHops = 1): string {
+  const value = headers.get(header);
+  if (!value) return 'unknown';
+
+  switch (header) {
+    case 'x-forwarded-for':
+      return pickFromChain(value.split(','), trustedHops) ?? 'unknown';
+    case 'forwarded':
+      return pickFromChain(parseForwardedHeader(value), trustedHops) ?? 'unknown';
+    default:
+      return normalizeIp(value) ?? 'unknown';
+  }
+}
@@ -0,0 +1,92 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { RateLimitDecision, RateLimitStore } from './types.ts';
+import { createMemoryRateLimitStore } from './memory.ts';
+import { createPostgresRateLimitStore } from './postgres.ts';
+import { CLIENT_IP_HEADERS, ClientIpHeader, getClientIp } from './clientIp.ts';
+
+export type { RateLimitDecision, RateLimitStore } from './types.ts';
+export { createMemoryRateLimitStore } from './memory.ts';
+export { getClientIp } from './clientIp.ts';
+export type { ClientIpHeader } from './clientIp.ts';
+
+export interface RateLimitConfig {
+  ipLimit: number;
+  apiKeyLimit: number;
+  windowMs: number;
+  // CLIENT_IP_HEADER, default x-forwarded-for: the header the edge proxy
+  // sets. Others are ignored, since clients can send them too.
+  clientIpHeader: ClientIpHeader;
+  trustedProxyHops: number;
+}
+
+export function loadRateLimitConfig(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): RateLimitConfig {
+  const number = (key: string, fallback: number) => {
+    const value = Number(env(key));
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  const header = (env('CLIENT_IP_HEADER') || 'x-forwarded-for').toLowerCase() as ClientIpHeader;
+
+  return {
+    ipLimit: number('RATE_LIMIT_IP_REQUESTS', 10), // requests per window
+    apiKeyLimit: number('RATE_LIMIT_API_KEY_REQUESTS', 60),
+    windowMs: number('RATE_LIMIT_WINDOW_SECONDS', 60) * 1000,
+    clientIpHeader: CLIENT_IP_HEADERS.includes(header) ? header : 'x-forwarded-for',
+    trustedProxyHops: number('TRUSTED_PROXY_HOPS', 1),
+  };
+}
+
+// Per isolate, so counts survive between requests
+const memoryStore = createMemoryRateLimitStore();
+
+// RATE_LIMIT_STORE = postgres (default) | memory
+export function getRateLimitStore(client: SupabaseClient, env: (key: string) => string | undefined = (key) => Deno.env.get(key)): RateLimitStore {
+  return env('RATE_LIMIT_STORE') === 'memory'
+    ? memoryStore
+    : createPostgresRateLimitStore(client);
+}
+
+// Fallback used only while the shared store is unreachable
+const localFallback = createMemoryRateLimitStore();
+
+// Requests made with an authenticated API key are counted against that key
+// (partners share egress IPs); everything else is counted per client IP.
+// Only pass a key id after authenticateApiKey accepted it: an unchecked
+// x-api-key header would give every request a fresh bucket.
+export async function checkRequestRateLimit(
+  req: Request,
+  store: RateLimitStore,
+  config: RateLimitConfig,
+  apiKeyId: string | null = null
+): Promise<RateLimitDecision> {
+  const bucket = apiKeyId
+    ? `key:${apiKeyId}`
+    : `ip:${getClientIp(req.headers, config.clientIpHeader, config.trustedProxyHops)}`;
+  const limit = apiKeyId ? config.apiKeyLimit : config.ipLimit;
+
+  return checkBucketRateLimit(store, bucket, limit, config.windowMs);
+}
+
+// Count a hit against an arbitrary bucket, e.g. 'user:<id>'
+export async function checkBucketRateLimit(store: RateLimitStore, bucket: string, limit: number, windowMs: number): Promise<RateLimitDecision> {
+  try {
+    return await store.hit(bucket, limit, windowMs);
+  } catch (error) {
+    console.error('Rate limit store unavailable, using local fallback:', error.message);
+    return localFallback.hit(bucket, limit, windowMs);
+  }
+}
+
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(decision.limit),
+    'X-RateLimit-Remaining': String(decision.remaining),
+    'X-RateLimit-Reset': String(decision.resetAt),
+  };
+
+  if (!decision.allowed) {
+    headers['Retry-After'] = String(decision.retryAfter);
+  }
+
+  return headers;
+}
@@ -0,0 +1,29 @@
+import { RateLimitDecision, RateLimitStore } from './types.ts';
+
+// Sliding-window log kept in isolate memory. Only suitable for tests and
+// local development: it resets on cold start and is not shared.
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+  const hits = new Map<string, number[]>();
+
+  return {
+    hit(bucket: string, limit: number, windowMs: number): Promise<RateLimitDecision> {
+      const current = now();
+      const recent = (hits.get(bucket) || []).filter(timestamp => timestamp > current - windowMs);
+      const allowed = recent.length < limit;
+
+      if (allowed) {
+        recent.push(current);
+      }
+      hits.set(bucket, recent);
+
+      const resetAt = (recent[0] ?? current) + windowMs;
+      return Promise.resolve({
+        allowed,
+        limit,
+        remaining: Math.max(0, limit - recent.length),
+        retryAfter: allowed ? 0 : Math.max(1, Math.ceil((resetAt - current) / 1000)),
+        resetAt: Math.ceil(resetAt / 1000),
+      });
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { RateLimitDecision, RateLimitStore } from './types.ts';
+
+// Backed by the check_rate_limit() SQL function, which serializes hits per
+// bucket with an advisory lock and keeps a sliding log in rate_limit_hits.
+export function createPostgresRateLimitStore(client: SupabaseClient): RateLimitStore {
+  return {
+    async hit(bucket: string, limit: number, windowMs: number): Promise<RateLimitDecision> {
+      const { data, error } = await client
+        .rpc('check_rate_limit', {
+          p_bucket: bucket,
+          p_limit: limit,
+          p_window_seconds: Math.ceil(windowMs / 1000),
+        })
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Rate limit check failed: ${error?.message ?? 'no data'}`);
+      }
+
+      const row = data as { allowed: boolean; remaining: number; retry_after: number; reset_at: string };
+      return {
+        allowed: row.allowed,
+        limit,
+        remaining: row.remaining,
+        retryAfter: row.retry_after,
+        resetAt: Math.ceil(new Date(row.reset_at).getTime() / 1000),
+      };
+    },
+  };
+}
@@ -0,0 +1,15 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the oldest hit in the window expires (0 when allowed)
+  retryAfter: number;
+  // Unix epoch seconds when the window frees up a slot
+  resetAt: number;
+}
+
+// Sliding-window rate limit storage. Implementations must record the hit and
+// decide atomically so concurrent isolates cannot overshoot the limit.
+export interface RateLimitStore {
+  hit(bucket: string, limit: number, windowMs: number): Promise<RateLimitDecision>;
+}
@@ -0,0 +1,11 @@
+// Supabase's edge runtime exposes EdgeRuntime.waitUntil to keep an isolate
+// alive for work that finishes after the response has been sent.
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+export function runInBackground(task: Promise<unknown>): void {
+  const guarded = task.catch(error => console.error('Background task failed:', error.message));
+
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(guarded);
+  }
+}
@@ -0,0 +1,33 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { CLAIM_LIST_SCHEMA, FACT_CHECK_RESPONSE_SCHEMA, parseModelJson, validate } from './schema.ts';
+
+Deno.test('validate accepts a well-formed fact-check response', () => {
+  assertEquals(validate({
+    status: 'real',
+    confidence: 90,
+    justification: 'Confirmado pelo IBGE.',
+    sources: [{ title: 'IBGE', url: 'https://www.ibge.gov.br', summary: 'Dados oficiais.' }],
+  }, FACT_CHECK_RESPONSE_SCHEMA), []);
+});
+
+Deno.test('validate reports every violation with its path', () => {
+  assertEquals(validate({
+    status: 'real',
+    confidence: '90',
+    justification: '   ',
+    sources: [{ title: 'IBGE', url: 'javascript:alert(1)' }],
+  }, FACT_CHECK_RESPONSE_SCHEMA), [
+    '$.confidence: esperado número',
+    '$.justification: não pode ser vazio',
+    '$.sources[0].summary: campo obrigatório ausente',
+    '$.sources[0].url: deve ser uma URL http(s) válida',
+  ]);
+  assertEquals(validate([], CLAIM_LIST_SCHEMA), ['$: esperado objeto']);
+  assertEquals(validate({ claims: ['ok', ''] }, CLAIM_LIST_SCHEMA), ['$.claims[1]: não pode ser vazio']);
+});
+
+Deno.test('parseModelJson strips markdown fences and nothing else', () => {
+  assertEquals(parseModelJson('```json\n{"claims": []}\n```'), { claims: [] });
+  assertEquals(parseModelJson('  ```\n{"claims": ["a"]}```  '), { claims: ['a'] });
+  assertThrows(() => parseModelJson('Resposta: {"claims": []}'));
+});
@@ -0,0 +1,118 @@
+// Minimal JSON-schema-style validator for model output. We only need the
+// handful of constructs the fact-check response uses, and keeping it local
+// means the edge function has no extra dependency to fetch at cold start.
+//
+// The same schemas document the public API (see api/openapi.ts), hence the
+// description and nullable annotations.
+type Annotations = { description?: string; nullable?: boolean };
+
+export type FieldSchema = Annotations & (
+  | { type: 'string'; enum?: readonly string[]; minLength?: number; maxLength?: number; format?: 'http-url' | 'uuid' | 'date-time' }
+  | { type: 'number'; minimum?: number; maximum?: number }
+  | { type: 'boolean' }
+  | { type: 'array'; items: FieldSchema; maxItems?: number }
+  | { type: 'object'; properties: Record<string, FieldSchema>; required: readonly string[] }
+);
+
+// Object schema whose properties must list exactly the fields of T, so a
+// schema cannot silently drift from the TypeScript type it describes
+export type ObjectSchemaFor<T> = Annotations & {
+  type: 'object';
+  properties: { [K in keyof T]-?: FieldSchema };
+  required: ReadonlyArray<keyof T & string>;
+};
+
+export const SOURCE_SCHEMA: FieldSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    url: { type: 'string', format: 'http-url' },
+    summary: { type: 'string', minLength: 1 },
+  },
+  required: ['title', 'url', 'summary'],
+};
+
+export const FACT_CHECK_RESPONSE_SCHEMA: FieldSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['real', 'fake', 'uncertain'] },
+    confidence: { type: 'number', minimum: 0, maximum: 100 },
+    justification: { type: 'string', minLength: 1 },
+    sources: { type: 'array', items: SOURCE_SCHEMA },
+  },
+  required: ['status', 'confidence', 'justification', 'sources'],
+};
+
+export const CLAIM_LIST_SCHEMA: FieldSchema = {
+  type: 'object',
+  properties: {
+    claims: { type: 'array', items: { type: 'string', minLength: 1 } },
+  },
+  required: ['claims'],
+};
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Returns a list of human-readable violations; empty means valid
+export function validate(value: unknown, schema: FieldSchema, path = '$'): string[] {
+  if (value === null && schema.nullable) return [];
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return [`${path}: esperado string`];
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) return [`${path}: não pode ser vazio`];
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) return [`${path}: no máximo ${schema.maxLength} caracteres`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: deve ser um de ${schema.enum.join(', ')}`];
+      if (schema.format === 'http-url' && !isHttpUrl(value)) return [`${path}: deve ser uma URL http(s) válida`];
+      if (schema.format === 'uuid' && !UUID_PATTERN.test(value)) return [`${path}: deve ser um UUID`];
+      if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) return [`${path}: deve ser uma data ISO 8601`];
+      return [];
+    }
+    case 'boolean': {
+      return typeof value === 'boolean' ? [] : [`${path}: esperado booleano`];
+    }
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path}: esperado número`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: deve ser >= ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: deve ser <= ${schema.maximum}`];
+      return [];
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path}: esperado array`];
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) return [`${path}: no máximo ${schema.maxItems} itens`];
+      return value.flatMap((item, index) => validate(item, schema.items, `${path}[${index}]`));
+    }
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path}: esperado objeto`];
+      const record = value as Record<string, unknown>;
+      const missing = schema.required
+        .filter(key => !(key in record))
+        .map(key => `${path}.${key}: campo obrigatório ausente`);
+      const invalid = Object.entries(schema.properties)
+        .filter(([key]) => key in record)
+        .flatMap(([key, fieldSchema]) => validate(record[key], fieldSchema, `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+  }
+}
+
+// Models often wrap JSON in markdown fences; that is the only cleanup we do.
+// Anything else must be fixed by the model itself via the repair prompt.
+export function parseModelJson(raw: string): unknown {
+  const unfenced = raw
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .trim();
+
+  return JSON.parse(unfenced);
+}
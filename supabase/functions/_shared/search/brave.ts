@@ -0,0 +1,45 @@
+import { SearchOptions, SearchProvider, SearchResult, SearchError } from './types.ts';
+import { decodeEntities } from '../article/extract.ts';
+
+const ENDPOINT = 'https://api.search.brave.com/res/v1/web/search';
+
+const stripTags = (html: string) => decodeEntities(html.replace(/<[^>]+>/g, '')).trim();
+
+// Web search through the Brave Search API, biased to Brazilian Portuguese results
+export function createBraveSearchProvider(apiKey: string): SearchProvider {
+  return {
+    name: 'brave',
+    async search(query: string, { limit }: SearchOptions): Promise<SearchResult[]> {
+      const params = new URLSearchParams({
+        q: query,
+        count: String(limit),
+        country: 'BR',
+        search_lang: 'pt-br',
+        safesearch: 'moderate',
+      });
+
+      const response = await fetch(`${ENDPOINT}?${params}`, {
+        headers: {
+          'Accept': 'application/json',
+          'X-Subscription-Token': apiKey,
+        },
+      });
+
+      if (!response.ok) {
+        throw new SearchError('brave', `HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      const results: Array<{ title?: string; url?: string; description?: string }> = data.web?.results ?? [];
+
+      return results
+        .filter(result => typeof result.url === 'string')
+        .slice(0, limit)
+        .map(result => ({
+          title: stripTags(result.title ?? ''),
+          url: result.url as string,
+          snippet: stripTags(result.description ?? ''),
+        }));
+    },
+  };
+}
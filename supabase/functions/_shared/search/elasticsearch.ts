@@ -0,0 +1,48 @@
+import { SearchOptions, SearchProvider, SearchResult, SearchError } from './types.ts';
+
+// Local index of trusted outlets. Documents need `title`, `url` and
+// `content` fields; the best-matching content fragment becomes the snippet.
+export function createElasticsearchProvider(baseUrl: string, index: string, apiKey?: string): SearchProvider {
+  return {
+    name: 'elasticsearch',
+    async search(query: string, { limit }: SearchOptions): Promise<SearchResult[]> {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(index)}/_search`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `ApiKey ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          size: limit,
+          query: {
+            multi_match: {
+              query,
+              fields: ['title^2', 'content'],
+            },
+          },
+          highlight: {
+            fields: { content: { fragment_size: 300, number_of_fragments: 1 } },
+            pre_tags: [''],
+            post_tags: [''],
+          },
+          _source: ['title', 'url', 'content'],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new SearchError('elasticsearch', `HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      const hits: Array<{ _source?: Record<string, unknown>; highlight?: { content?: string[] } }> = data.hits?.hits ?? [];
+
+      return hits
+        .filter(hit => typeof hit._source?.url === 'string')
+        .map(hit => ({
+          title: String(hit._source?.title ?? ''),
+          url: String(hit._source?.url),
+          snippet: hit.highlight?.content?.[0] ?? String(hit._source?.content ?? '').substring(0, 300),
+        }));
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { SearchOptions, SearchProvider, SearchResult } from './types.ts';
+import { contentTerms, termOverlap } from './terms.ts';
+
+export interface FixtureDocument {
+  title: string;
+  url: string;
+  content: string;
+}
+
+// Deterministic in-memory search for tests: ranks documents by how many of
+// the query's terms they contain
+export function createFixtureSearchProvider(documents: FixtureDocument[]): SearchProvider {
+  return {
+    name: 'fixture',
+    search(query: string, { limit }: SearchOptions): Promise<SearchResult[]> {
+      const terms = new Set(contentTerms(query));
+
+      const results = documents
+        .map(document => ({ document, score: termOverlap(terms, `${document.title} ${document.content}`) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ document }) => ({
+          title: document.title,
+          url: document.url,
+          snippet: document.content.substring(0, 300),
+        }));
+
+      return Promise.resolve(results);
+    },
+  };
+}
+
+// SEARCH_FIXTURES_FILE points to a JSON array of { title, url, content }
+export async function loadFixtureSearchProvider(path: string): Promise<SearchProvider> {
+  return createFixtureSearchProvider(JSON.parse(await Deno.readTextFile(path)));
+}
@@ -0,0 +1,63 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createFixtureSearchProvider, createRetriever, FixtureDocument, restrictToRetrieved } from './index.ts';
+import { createFixtureFetcher } from '../article/index.ts';
+
+const DOCUMENTS: FixtureDocument[] = [
+  {
+    title: 'Receita nega taxação do PIX',
+    url: 'https://www.gov.br/receita/pix',
+    content: 'A Receita Federal afirmou que não há cobrança de imposto sobre transferências via PIX.',
+  },
+  {
+    title: 'Calendário de vacinação',
+    url: 'https://www.gov.br/saude/vacinas',
+    content: 'O Ministério da Saúde divulgou o calendário de vacinação de 2025.',
+  },
+  {
+    title: 'Boatos sobre o PIX',
+    url: 'https://checagem.example.com/pix',
+    content: 'Mensagens dizem que o governo vai taxar o PIX. A Receita desmentiu a informação.',
+  },
+];
+
+Deno.test('the fixture provider ranks documents by shared query terms, ignoring accents', async () => {
+  const search = createFixtureSearchProvider(DOCUMENTS);
+  const results = await search.search('Governo vai TAXAR o pix, diz a Receita', { limit: 5 });
+
+  assertEquals(results.map(result => result.url), ['https://checagem.example.com/pix', 'https://www.gov.br/receita/pix']);
+  assertEquals(results[1].snippet, DOCUMENTS[0].content);
+  assertEquals(await search.search('calendario de vacinacao', { limit: 5 }).then(found => found.map(result => result.title)), ['Calendário de vacinação']);
+});
+
+Deno.test('the fixture provider honours the limit and returns nothing for unrelated queries', async () => {
+  const search = createFixtureSearchProvider(DOCUMENTS);
+  assertEquals((await search.search('PIX Receita', { limit: 1 })).length, 1);
+  assertEquals(await search.search('eleição presidencial', { limit: 5 }), []);
+  assertEquals(await search.search('o a de', { limit: 5 }), []);
+});
+
+Deno.test('the retriever snippets fetched pages and keeps search snippets for the rest', async () => {
+  const retriever = createRetriever(createFixtureSearchProvider(DOCUMENTS), createFixtureFetcher({
+    'https://www.gov.br/receita/pix': `<html><head><meta property="og:title" content="Nota oficial da Receita"></head><body><article>
+      <p>Brasília, 10 de janeiro. Nota à imprensa sobre rumores recentes.</p>
+      <p>Não existe imposto sobre o PIX e a Receita não planeja criar um.</p>
+    </article></body></html>`,
+  }), 2);
+
+  assertEquals(retriever.name, 'fixture');
+  assertEquals(await retriever.retrieve('Governo vai taxar o PIX'), [
+    { title: 'Boatos sobre o PIX', url: 'https://checagem.example.com/pix', snippet: DOCUMENTS[2].content },
+    { title: 'Nota oficial da Receita', url: 'https://www.gov.br/receita/pix', snippet: 'Não existe imposto sobre o PIX e a Receita não planeja criar um.' },
+  ]);
+});
+
+Deno.test('restrictToRetrieved keeps only sources among the retrieved documents', () => {
+  const evidence = [{ title: 'Boatos sobre o PIX', url: 'https://checagem.example.com/pix', snippet: '...' }];
+  const { sources, dropped } = restrictToRetrieved([
+    { title: 'Checagem', url: 'https://CHECAGEM.example.com/pix/#topo', summary: 'Desmentido.' },
+    { title: 'Inventada', url: 'https://inventada.example.com/pix', summary: 'Não existe.' },
+  ], evidence);
+
+  assertEquals(sources, [{ title: 'Boatos sobre o PIX', url: 'https://checagem.example.com/pix', summary: 'Desmentido.' }]);
+  assertEquals(dropped, 1);
+});
@@ -0,0 +1,156 @@
+import { SearchProvider, SearchError } from './types.ts';
+import { createBraveSearchProvider } from './brave.ts';
+import { createElasticsearchProvider } from './elasticsearch.ts';
+import { createMeilisearchProvider } from './meilisearch.ts';
+import { loadFixtureSearchProvider } from './fixture.ts';
+import { contentTerms, termOverlap } from './terms.ts';
+import { extractArticle, getPageFetcher, PageFetcher } from '../article/index.ts';
+import { Source } from '../types.ts';
+
+export type { SearchOptions, SearchProvider, SearchResult } from './types.ts';
+export { SearchError } from './types.ts';
+export { createFixtureSearchProvider } from './fixture.ts';
+export type { FixtureDocument } from './fixture.ts';
+
+// A retrieved document as shown to the model
+export interface EvidenceDocument {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+// Finds the evidence for one claim; name is part of the cache key
+export interface Retriever {
+  readonly name: string;
+  retrieve(claim: string): Promise<EvidenceDocument[]>;
+}
+
+const DEFAULT_TOP_K = 4;
+const SNIPPET_LENGTH = 600;
+
+// Select the search backend from the environment:
+//   SEARCH_PROVIDER = none (default) | brave | elasticsearch | meilisearch | fixture
+// Without one, the model verifies from its own knowledge as before.
+export async function getSearchProvider(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): Promise<SearchProvider | null> {
+  const name = (env('SEARCH_PROVIDER') || 'none').toLowerCase();
+
+  switch (name) {
+    case 'none':
+      return null;
+    case 'brave': {
+      const apiKey = env('BRAVE_API_KEY');
+      if (!apiKey) {
+        throw new SearchError('brave', 'BRAVE_API_KEY not configured');
+      }
+      return createBraveSearchProvider(apiKey);
+    }
+    case 'elasticsearch':
+    case 'meilisearch': {
+      const url = env('SEARCH_INDEX_URL');
+      if (!url) {
+        throw new SearchError(name, 'SEARCH_INDEX_URL not configured');
+      }
+      const index = env('SEARCH_INDEX_NAME') || 'noticias';
+      const apiKey = env('SEARCH_INDEX_API_KEY') || undefined;
+      return name === 'elasticsearch'
+        ? createElasticsearchProvider(url, index, apiKey)
+        : createMeilisearchProvider(url, index, apiKey);
+    }
+    case 'fixture': {
+      const path = env('SEARCH_FIXTURES_FILE');
+      if (!path) {
+        throw new SearchError('fixture', 'SEARCH_FIXTURES_FILE not configured');
+      }
+      return loadFixtureSearchProvider(path);
+    }
+    default:
+      throw new SearchError(name, 'Unknown search provider');
+  }
+}
+
+// The sentences of the page most related to the claim, kept in page order
+export function buildSnippet(claim: string, text: string, maxLength = SNIPPET_LENGTH): string {
+  const terms = new Set(contentTerms(claim));
+  const sentences = text.match(/[^.!?]+[.!?]*/g)?.map(sentence => sentence.trim()).filter(Boolean) ?? [];
+
+  const ranked = sentences
+    .map((sentence, index) => ({ sentence, index, score: termOverlap(terms, sentence) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const picked: typeof ranked = [];
+  let length = 0;
+  for (const candidate of ranked) {
+    if (length + candidate.sentence.length > maxLength) continue;
+    picked.push(candidate);
+    length += candidate.sentence.length + 1;
+  }
+
+  return picked
+    .sort((a, b) => a.index - b.index)
+    .map(({ sentence }) => sentence)
+    .join(' ');
+}
+
+// Searches for the claim, then fetches each hit and snippets the passages
+// that mention it. Pages that cannot be fetched keep the search snippet.
+export function createRetriever(search: SearchProvider, fetcher: PageFetcher, topK = DEFAULT_TOP_K): Retriever {
+  return {
+    name: search.name,
+    async retrieve(claim: string): Promise<EvidenceDocument[]> {
+      const results = await search.search(claim, { limit: topK });
+      const unique = results.filter((result, index) => results.findIndex(other => other.url === result.url) === index);
+
+      const documents = await Promise.all(unique.map(async (result) => {
+        try {
+          const page = await fetcher(result.url);
+          const article = extractArticle(page.html, page.url);
+          return {
+            title: article.title || result.title,
+            url: result.url,
+            snippet: buildSnippet(claim, article.text) || result.snippet,
+          };
+        } catch (e) {
+          console.warn('Could not fetch search result:', result.url, e.message);
+          return { title: result.title, url: result.url, snippet: result.snippet };
+        }
+      }));
+
+      console.log(`Retrieved ${documents.length} document(s) from ${search.name}`);
+      return documents.filter(document => document.snippet.length > 0);
+    },
+  };
+}
+
+export async function getRetriever(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): Promise<Retriever | null> {
+  const search = await getSearchProvider(env);
+  if (!search) return null;
+
+  const topK = Number(env('SEARCH_TOP_K'));
+  return createRetriever(search, await getPageFetcher(env), Number.isInteger(topK) && topK > 0 ? topK : DEFAULT_TOP_K);
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.toString().replace(/\/$/, '').toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+// Drops model-cited sources that are not among the retrieved documents, so
+// a grounded verdict can only point at pages we actually read
+export function restrictToRetrieved(sources: Source[], evidence: EvidenceDocument[]): { sources: Source[]; dropped: number } {
+  const retrieved = new Map(evidence.map(document => [normalizeUrl(document.url), document]));
+  const kept = sources.filter(source => retrieved.has(normalizeUrl(source.url)));
+
+  return {
+    sources: kept.map(source => {
+      const document = retrieved.get(normalizeUrl(source.url)) as EvidenceDocument;
+      return { ...source, url: document.url, title: document.title || source.title };
+    }),
+    dropped: sources.length - kept.length,
+  };
+}
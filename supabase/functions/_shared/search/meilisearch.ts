@@ -0,0 +1,39 @@
+import { SearchOptions, SearchProvider, SearchResult, SearchError } from './types.ts';
+
+// Same document shape as the Elasticsearch index: `title`, `url`, `content`
+export function createMeilisearchProvider(baseUrl: string, index: string, apiKey?: string): SearchProvider {
+  return {
+    name: 'meilisearch',
+    async search(query: string, { limit }: SearchOptions): Promise<SearchResult[]> {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/indexes/${encodeURIComponent(index)}/search`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          q: query,
+          limit,
+          attributesToRetrieve: ['title', 'url', 'content'],
+          attributesToCrop: ['content'],
+          cropLength: 50,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new SearchError('meilisearch', `HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      const hits: Array<Record<string, unknown> & { _formatted?: { content?: string } }> = data.hits ?? [];
+
+      return hits
+        .filter(hit => typeof hit.url === 'string')
+        .map(hit => ({
+          title: String(hit.title ?? ''),
+          url: String(hit.url),
+          snippet: hit._formatted?.content ?? String(hit.content ?? '').substring(0, 300),
+        }));
+    },
+  };
+}
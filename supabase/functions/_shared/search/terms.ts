@@ -0,0 +1,28 @@
+// Words too common in Portuguese to say anything about relevance
+const STOPWORDS = new Set([
+  'que', 'para', 'com', 'uma', 'por', 'mais', 'como', 'dos', 'das', 'nos', 'nas', 'foi', 'ser', 'são',
+  'tem', 'sua', 'seu', 'pelo', 'pela', 'este', 'esta', 'isso', 'esse', 'essa', 'ele', 'ela', 'eles',
+  'também', 'muito', 'quando', 'sobre', 'entre', 'após', 'sem', 'até', 'vai', 'não', 'sim', 'the', 'and',
+]);
+
+// Lowercased, accent-free content words, for relevance scoring
+export function contentTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length >= 3 && !STOPWORDS.has(term));
+}
+
+// Share of the query's terms that occur in the text, from 0 to 1
+export function termOverlap(query: Set<string>, text: string): number {
+  if (query.size === 0) return 0;
+
+  const terms = new Set(contentTerms(text));
+  let matched = 0;
+  query.forEach(term => {
+    if (terms.has(term)) matched++;
+  });
+  return matched / query.size;
+}
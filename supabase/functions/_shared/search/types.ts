@@ -0,0 +1,23 @@
+export interface SearchResult {
+  title: string;
+  url: string;
+  // Text the backend matched, used when the page itself cannot be fetched
+  snippet: string;
+}
+
+export interface SearchOptions {
+  limit: number;
+}
+
+// Every search backend answers a free-text query with ranked results
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, options: SearchOptions): Promise<SearchResult[]>;
+}
+
+export class SearchError extends Error {
+  constructor(provider: string, message: string) {
+    super(`[${provider}] ${message}`);
+    this.name = 'SearchError';
+  }
+}
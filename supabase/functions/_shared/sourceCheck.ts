@@ -0,0 +1,120 @@
+import { Source, SourceCheckFailure } from './types.ts';
+import { extractArticle, FetchError, PageFetcher } from './article/index.ts';
+import { contentTerms, termOverlap } from './search/terms.ts';
+
+// Model-cited links are checked before they are shown: the URL must be
+// public http(s), off the blocklist, answer without an error status, and the
+// page must talk about what the source's title and summary claim.
+
+export interface SourceCheckPolicy {
+  enabled: boolean;
+  // Domains (and their subdomains) never accepted as sources
+  blocklist: string[];
+  // Minimum share of the title/summary terms that must appear on the page
+  minOverlap: number;
+}
+
+// Link shorteners hide the destination; placeholder domains are what
+// models write when they invent a URL
+export const DEFAULT_BLOCKLIST = [
+  'bit.ly', 'tinyurl.com', 'goo.gl', 'ow.ly', 't.co', 'is.gd', 'cutt.ly',
+  'example.com', 'example.org', 'example.net', 'exemplo.com', 'exemplo.com.br',
+];
+
+interface PageCheck {
+  status: number | null;
+  // Title and body text; null when the page could not be read as an article
+  text: string | null;
+  failure: SourceCheckFailure | null;
+}
+
+export function loadSourceCheckPolicy(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): SourceCheckPolicy {
+  const extra = (env('SOURCE_BLOCKLIST') || '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase())
+    .filter(Boolean);
+  const minOverlap = Number(env('SOURCE_MIN_OVERLAP'));
+
+  return {
+    enabled: env('SOURCE_VERIFICATION') !== 'off',
+    blocklist: [...DEFAULT_BLOCKLIST, ...extra],
+    minOverlap: minOverlap > 0 && minOverlap <= 1 ? minOverlap : 0.2,
+  };
+}
+
+export function isBlockedDomain(hostname: string, blocklist: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/^www\./, '');
+  return blocklist.some(domain => host === domain || host.endsWith(`.${domain}`));
+}
+
+async function fetchPage(url: string, fetcher: PageFetcher): Promise<PageCheck> {
+  try {
+    const page = await fetcher(url);
+    const article = extractArticle(page.html, page.url);
+    return { status: page.status, text: `${article.title ?? ''} ${article.text}`, failure: null };
+  } catch (e) {
+    if (e instanceof FetchError && e.status !== undefined) {
+      // 2xx with a non-HTML body (PDFs, images): reachable, content not comparable
+      return e.status < 300
+        ? { status: e.status, text: null, failure: null }
+        : { status: e.status, text: null, failure: 'http_error' };
+    }
+    return { status: null, text: null, failure: 'unreachable' };
+  }
+}
+
+export type SourceChecker = (source: Source) => Promise<Source>;
+
+// Annotates sources with verified/http_status. Each URL is fetched at most
+// once per checker.
+export function createSourceChecker(fetcher: PageFetcher, policy: SourceCheckPolicy): SourceChecker {
+  const pages = new Map<string, Promise<PageCheck>>();
+
+  return async (source: Source): Promise<Source> => {
+    const result = (failure: SourceCheckFailure | null, httpStatus: number | null): Source => ({
+      ...source,
+      verified: failure === null,
+      http_status: httpStatus,
+      check_failure: failure,
+    });
+
+    let url: URL;
+    try {
+      url = new URL(source.url);
+    } catch {
+      return result('invalid_url', null);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return result('invalid_url', null);
+    }
+    if (isBlockedDomain(url.hostname, policy.blocklist)) {
+      return result('blocked_domain', null);
+    }
+
+    if (!pages.has(url.toString())) {
+      pages.set(url.toString(), fetchPage(url.toString(), fetcher));
+    }
+    const page = await (pages.get(url.toString()) as Promise<PageCheck>);
+
+    if (page.failure) {
+      return result(page.failure, page.status);
+    }
+
+    // Pages with hardly any extractable text (client-rendered sites) cannot
+    // be compared, so only reachability counts for them
+    if (page.text && contentTerms(page.text).length >= 20) {
+      const terms = new Set(contentTerms(`${source.title} ${source.summary}`));
+      if (terms.size > 0 && termOverlap(terms, page.text) < policy.minOverlap) {
+        return result('content_mismatch', page.status);
+      }
+    }
+
+    return result(null, page.status);
+  };
+}
+
+// SOURCE_VERIFICATION=off disables the check. Callers pass the article
+// fetcher, so ARTICLE_FIXTURES_DIR fixtures apply in tests.
+export function getSourceChecker(fetcher: PageFetcher, policy: SourceCheckPolicy = loadSourceCheckPolicy()): SourceChecker | null {
+  return policy.enabled ? createSourceChecker(fetcher, policy) : null;
+}
@@ -0,0 +1,48 @@
+export type SendEvent = (event: string, data: unknown) => void;
+
+// Comment lines sent while the model is busy so proxies keep the
+// connection open
+const KEEP_ALIVE_MS = 15000;
+
+// Answers with a text/event-stream that run() writes events to. If run()
+// throws, an `error` event with a generic message is sent before the
+// stream closes.
+export function eventStreamResponse(headers: Record<string, string>, run: (send: SendEvent) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let open = true;
+      const write = (chunk: string) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Client went away; keep running so the check still gets cached
+          open = false;
+        }
+      };
+      const send: SendEvent = (event, data) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      try {
+        await run(send);
+      } catch (error) {
+        console.error('Event stream failed:', error.message);
+        send('error', { error: 'Erro temporário no serviço. Tente novamente em alguns instantes.' });
+      } finally {
+        clearInterval(keepAlive);
+        if (open) controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
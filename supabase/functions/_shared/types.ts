@@ -0,0 +1,44 @@
+export type VerdictStatus = 'real' | 'fake' | 'uncertain';
+
+export interface Source {
+  title: string;
+  url: string;
+  summary: string;
+  // Set once the link was checked (see sourceCheck.ts); absent on older rows
+  verified?: boolean;
+  http_status?: number | null;
+  check_failure?: SourceCheckFailure | null;
+  // From the source_domains registry (see credibility.ts); null for unknown domains
+  tier?: CredibilityTier | null;
+  source_type?: SourceType | null;
+}
+
+export type CredibilityTier = 'high' | 'medium' | 'low' | 'unreliable';
+export type SourceType = 'official' | 'press' | 'academic' | 'fact_checker' | 'social' | 'other';
+
+export type SourceCheckFailure = 'invalid_url' | 'blocked_domain' | 'unreachable' | 'http_error' | 'content_mismatch';
+
+export interface FactCheckResult {
+  status: VerdictStatus;
+  confidence: number;
+  justification: string;
+  sources: Source[];
+  search_results: Record<string, unknown>;
+}
+
+export const VERDICT_STATUSES: VerdictStatus[] = ['real', 'fake', 'uncertain'];
+
+export interface ClaimVerdict {
+  claim: string;
+  // Offsets into the sanitized input text; null when the claim could not be located verbatim
+  start: number | null;
+  end: number | null;
+  status: VerdictStatus;
+  confidence: number;
+  justification: string;
+  sources: Source[];
+}
+
+export interface VerificationResult extends FactCheckResult {
+  claims: ClaimVerdict[];
+}
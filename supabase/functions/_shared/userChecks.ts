@@ -0,0 +1,13 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Adds the check to the user's "Minhas verificações" list
+export async function recordUserCheck(client: SupabaseClient, userId: string, factCheckId: string): Promise<void> {
+  const { error } = await client.rpc('record_user_check', {
+    p_user_id: userId,
+    p_fact_check_id: factCheckId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record user check: ${error.message}`);
+  }
+}
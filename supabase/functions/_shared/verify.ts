@@ -0,0 +1,202 @@
+import { ClaimVerdict, Source, VerificationResult } from './types.ts';
+import { LLMProvider } from './providers/index.ts';
+import { extractClaims } from './claims.ts';
+import { factCheck } from './factCheck.ts';
+import { ProgressCallback } from './progress.ts';
+import { EvidenceDocument, Retriever } from './search/index.ts';
+import { SourceChecker } from './sourceCheck.ts';
+import { adjustConfidence, annotateSource, CredibilityPolicy } from './credibility.ts';
+import { ClaimReviewIndex, ClaimReviewMatch, claimReviewVerdict } from './claimReview/index.ts';
+
+// Combine per-claim verdicts into one overall verdict. A single false
+// assertion makes the whole message misleading; the message is only "real"
+// when every claim checks out.
+export function aggregateVerdicts(claims: ClaimVerdict[]): Pick<VerificationResult, 'status' | 'confidence'> {
+  const fake = claims.filter(claim => claim.status === 'fake');
+  const real = claims.filter(claim => claim.status === 'real');
+
+  if (fake.length > 0) {
+    return { status: 'fake', confidence: Math.max(...fake.map(claim => claim.confidence)) };
+  }
+
+  if (real.length === claims.length && claims.length > 0) {
+    return { status: 'real', confidence: Math.min(...real.map(claim => claim.confidence)) };
+  }
+
+  const average = claims.reduce((sum, claim) => sum + claim.confidence, 0) / Math.max(claims.length, 1);
+  return { status: 'uncertain', confidence: Math.round(average) };
+}
+
+function mergeSources(claims: ClaimVerdict[]): Source[] {
+  const seen = new Set<string>();
+  const merged: Source[] = [];
+
+  for (const claim of claims) {
+    for (const source of claim.sources) {
+      if (!seen.has(source.url)) {
+        seen.add(source.url);
+        merged.push(source);
+      }
+    }
+  }
+
+  // Links that failed verification go last, so they are the first cut
+  return merged
+    .sort((a, b) => Number(a.verified === false) - Number(b.verified === false))
+    .slice(0, 5);
+}
+
+function summarize(claims: ClaimVerdict[]): string {
+  if (claims.length === 1) {
+    return claims[0].justification;
+  }
+
+  const count = (status: string) => claims.filter(claim => claim.status === status).length;
+  return `${claims.length} afirmações analisadas: ${count('fake')} falsa(s), ${count('real')} verdadeira(s) e ${count('uncertain')} incerta(s). Veja a análise de cada afirmação abaixo.`;
+}
+
+export interface VerifyOptions {
+  // Told about each step as it completes
+  onProgress?: ProgressCallback;
+  // Grounds each claim in searched documents; without one the model
+  // answers from its own knowledge
+  retriever?: Retriever | null;
+  // Checks every cited link; without one sources are passed through as-is
+  sourceChecker?: SourceChecker | null;
+  // Tags sources with their domain's credibility tier and weighs it into
+  // each claim's confidence
+  credibility?: CredibilityPolicy | null;
+  // Published fact-checks; a close match answers the claim without the model
+  claimReviews?: ClaimReviewIndex | null;
+}
+
+// A failed search grounds the claim in no documents rather than letting the
+// model cite sources nobody retrieved
+async function retrieveEvidence(retriever: Retriever, claim: string): Promise<{ evidence: EvidenceDocument[]; failed: boolean }> {
+  try {
+    return { evidence: await retriever.retrieve(claim), failed: false };
+  } catch (e) {
+    console.error('Search failed:', e.message);
+    return { evidence: [], failed: true };
+  }
+}
+
+// A failed lookup falls through to the model
+async function findClaimReview(index: ClaimReviewIndex, claim: string): Promise<ClaimReviewMatch | null> {
+  try {
+    return await index.match(claim);
+  } catch (e) {
+    console.error('Claim review lookup failed:', e.message);
+    return null;
+  }
+}
+
+// Full verification pipeline: extract claims, answer each from a published
+// fact-check or retrieve evidence and check it with the model, aggregate.
+export async function verifyText(text: string, provider: LLMProvider, options: VerifyOptions = {}): Promise<VerificationResult> {
+  const { onProgress, retriever, sourceChecker, credibility, claimReviews } = options;
+  const extracted = await extractClaims(text, provider);
+
+  console.log(`Verifying ${extracted.length} claim(s)`);
+  onProgress?.({
+    type: 'claims_extracted',
+    claims: extracted.map(claim => ({ claim: claim.text, start: claim.start, end: claim.end })),
+  });
+
+  const checkWithModel = async (claim: string, index: number) => {
+    const retrieval = retriever ? await retrieveEvidence(retriever, claim) : null;
+    if (retrieval) {
+      onProgress?.({
+        type: 'sources_found',
+        claim_index: index,
+        sources: retrieval.evidence.map(({ title, url }) => ({ title, url })),
+      });
+    }
+
+    const check = await factCheck(claim, provider, {
+      evidence: retrieval?.evidence,
+      onJustification: onProgress && (delta => onProgress({ type: 'justification_delta', claim_index: index, text: delta })),
+    });
+    if (retrieval?.failed) {
+      check.search_results.retrieval_failed = true;
+    }
+    return check;
+  };
+
+  const checks = await Promise.all(extracted.map(async (claim, index) => {
+    onProgress?.({ type: 'searching_sources', claim_index: index, claim: claim.text });
+    const review = claimReviews ? await findClaimReview(claimReviews, claim.text) : null;
+    if (review) {
+      console.log('Claim review match:', review.review_url, 'similarity:', review.similarity);
+      onProgress?.({
+        type: 'sources_found',
+        claim_index: index,
+        sources: [{ title: review.headline ?? review.publisher_name, url: review.review_url }],
+      });
+    }
+
+    const check = review ? claimReviewVerdict(review) : await checkWithModel(claim.text, index);
+    if (sourceChecker) {
+      check.sources = await Promise.all(check.sources.map(sourceChecker));
+    }
+    if (credibility) {
+      check.sources = check.sources.map(source => annotateSource(source, credibility.registry));
+      // A published rating already carries its publisher's weight
+      if (!review) {
+        check.search_results.model_confidence = check.confidence;
+        check.confidence = adjustConfidence(check, credibility.weight);
+      }
+    }
+    onProgress?.({
+      type: 'claim_verified',
+      claim_index: index,
+      verdict: {
+        claim: claim.text,
+        start: claim.start,
+        end: claim.end,
+        status: check.status,
+        confidence: check.confidence,
+        justification: check.justification,
+        sources: check.sources,
+      },
+    });
+    return check;
+  }));
+
+  const claims: ClaimVerdict[] = extracted.map((claim, index) => ({
+    claim: claim.text,
+    start: claim.start,
+    end: claim.end,
+    status: checks[index].status,
+    confidence: checks[index].confidence,
+    justification: checks[index].justification,
+    sources: checks[index].sources,
+  }));
+
+  const verdict = aggregateVerdicts(claims);
+  const justification = summarize(claims);
+  // Published reviews lead the source list
+  const reviewed = checks.map(check => check.search_results.outcome === 'claim_review');
+  const sources = mergeSources([
+    ...claims.filter((_, index) => reviewed[index]),
+    ...claims.filter((_, index) => !reviewed[index]),
+  ]);
+
+  return {
+    ...verdict,
+    justification,
+    sources,
+    claims,
+    search_results: {
+      provider: provider.name,
+      model: provider.model,
+      claim_count: claims.length,
+      fallback: checks.some(check => check.search_results.fallback === true),
+      outcomes: checks.map(check => check.search_results.outcome),
+      parse_failed: checks.some(check => check.search_results.outcome === 'parse_failed'),
+      ...(claimReviews ? { claim_review_matches: reviewed.filter(Boolean).length } : {}),
+      ...(sourceChecker ? { unverified_sources: sources.filter(source => source.verified === false).length } : {}),
+      ...(retriever ? { search_provider: retriever.name, retrieval: checks.map(check => check.search_results.retrieval ?? null) } : {}),
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { deliverWebhook, generateWebhookSecret, signWebhookPayload, WebhookPolicy } from './webhooks.ts';
+
+const policy: WebhookPolicy = { maxAttempts: 3, baseDelayMs: 100, timeoutMs: 1000 };
+
+// Records each request and answers with the next status
+function recordingFetch(statuses: number[]) {
+  const requests: Array<{ url: string; init: RequestInit }> = [];
+  const send = (url: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: url.toString(), init: init ?? {} });
+    return Promise.resolve(new Response(null, { status: statuses[requests.length - 1] ?? 200 }));
+  };
+  return { requests, send: send as typeof fetch };
+}
+
+Deno.test('generateWebhookSecret returns a prefixed random hex secret', () => {
+  const secret = generateWebhookSecret();
+  assert(/^whsec_[0-9a-f]{48}$/.test(secret), secret);
+  assert(secret !== generateWebhookSecret());
+});
+
+Deno.test('signWebhookPayload is hex HMAC-SHA256 over "timestamp.body"', async () => {
+  // What receivers compute: HMAC(secret, `${t}.${raw body}`)
+  assertEquals(
+    await signWebhookPayload('whsec_test', 1700000000, '{"id":"job-1"}'),
+    '2c080f0b2685cf2edc6213f4d50b130f38cc01b5886d6724a988e7f86f3bf479',
+  );
+  assert(await signWebhookPayload('whsec_test', 1700000001, '{"id":"job-1"}') !== await signWebhookPayload('whsec_test', 1700000000, '{"id":"job-1"}'));
+});
+
+Deno.test('deliverWebhook sends the body with a t=...,v1=... signature header', async () => {
+  const { requests, send } = recordingFetch([200]);
+  const payload = { id: 'job-1', status: 'completed' };
+  const delivery = await deliverWebhook('https://hooks.example.com/fc', 'whsec_test', payload, { id: 'job-1', policy, fetch: send });
+
+  assertEquals(delivery, { delivered: true, attempts: 1, lastError: null });
+  const headers = requests[0].init.headers as Record<string, string>;
+  const match = headers['X-Webhook-Signature'].match(/^t=(\d+),v1=([0-9a-f]{64})$/);
+  assert(match, headers['X-Webhook-Signature']);
+  assertEquals(requests[0].init.body, JSON.stringify(payload));
+  assertEquals(match[2], await signWebhookPayload('whsec_test', Number(match[1]), JSON.stringify(payload)));
+  assertEquals(headers['X-Webhook-Id'], 'job-1');
+  assertEquals(headers['X-Webhook-Attempt'], '1');
+});
+
+Deno.test('deliverWebhook retries server errors with backoff and stops on other 4xx', async () => {
+  const delays: number[] = [];
+  const sleep = (ms: number) => {
+    delays.push(ms);
+    return Promise.resolve();
+  };
+
+  const retried = recordingFetch([503, 429, 200]);
+  assertEquals(
+    await deliverWebhook('https://hooks.example.com/fc', 's', {}, { id: 'job-2', policy, fetch: retried.send, sleep }),
+    { delivered: true, attempts: 3, lastError: null },
+  );
+  assertEquals(delays, [100, 200]);
+
+  const rejected = recordingFetch([400]);
+  assertEquals(
+    await deliverWebhook('https://hooks.example.com/fc', 's', {}, { id: 'job-3', policy, fetch: rejected.send, sleep }),
+    { delivered: false, attempts: 1, lastError: 'HTTP 400' },
+  );
+});
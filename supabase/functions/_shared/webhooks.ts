@@ -0,0 +1,105 @@
+// Signed completion callbacks. Each delivery carries
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+// so receivers can check both origin and freshness with the job's secret.
+
+export interface WebhookPolicy {
+  maxAttempts: number;
+  // Delay before the second attempt; doubled after each failure
+  baseDelayMs: number;
+  timeoutMs: number;
+}
+
+export interface WebhookDelivery {
+  delivered: boolean;
+  attempts: number;
+  // Last HTTP status or network error, for the job record
+  lastError: string | null;
+}
+
+export function loadWebhookPolicy(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): WebhookPolicy {
+  const number = (key: string, fallback: number) => {
+    const value = Number(env(key));
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    maxAttempts: number('WEBHOOK_MAX_ATTEMPTS', 5),
+    baseDelayMs: number('WEBHOOK_RETRY_DELAY_MS', 2000),
+    timeoutMs: number('WEBHOOK_TIMEOUT_MS', 10000),
+  };
+}
+
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return 'whsec_' + Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Receivers that are down or overloaded get retried; any other 4xx means
+// the endpoint rejected the payload and will keep doing so
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// POSTs the payload, retrying with exponential backoff. Never throws.
+export async function deliverWebhook(
+  url: string,
+  secret: string,
+  payload: unknown,
+  options: { id: string; policy?: WebhookPolicy; fetch?: typeof fetch; sleep?: (ms: number) => Promise<void> }
+): Promise<WebhookDelivery> {
+  const policy = options.policy ?? loadWebhookPolicy();
+  const send = options.fetch ?? fetch;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const body = JSON.stringify(payload);
+  let lastError: string | null = null;
+
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    // Re-signed per attempt so the timestamp stays fresh
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = await signWebhookPayload(secret, timestamp, body);
+
+    try {
+      const response = await send(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'DetectorFakeNewsWebhook/1.0',
+          'X-Webhook-Id': options.id,
+          'X-Webhook-Attempt': String(attempt),
+          'X-Webhook-Signature': `t=${timestamp},v1=${signature}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(policy.timeoutMs),
+      });
+      await response.body?.cancel();
+
+      if (response.ok) {
+        return { delivered: true, attempts: attempt, lastError: null };
+      }
+
+      lastError = `HTTP ${response.status}`;
+      if (!isRetryable(response.status)) {
+        return { delivered: false, attempts: attempt, lastError };
+      }
+    } catch (e) {
+      lastError = e.message;
+    }
+
+    console.warn('Webhook delivery failed:', options.id, 'attempt', attempt, lastError);
+    if (attempt < policy.maxAttempts) {
+      await sleep(policy.baseDelayMs * 2 ** (attempt - 1));
+    }
+  }
+
+  return { delivered: false, attempts: policy.maxAttempts, lastError };
+}
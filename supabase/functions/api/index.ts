@@ -0,0 +1,227 @@
+
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { validate } from '../_shared/schema.ts';
+import { runInBackground } from '../_shared/runtime.ts';
+import { FactCheckRow } from '../_shared/cache.ts';
+import { VerdictOverride } from '../_shared/overrides.ts';
+import { getPageFetcher } from '../_shared/article/index.ts';
+import { InputError, outcomeFromRow, prepareInput, runCheck } from '../_shared/pipeline.ts';
+import {
+  ApiKey,
+  authenticateApiKey,
+  buildOpenApiDocument,
+  CheckList,
+  consumeQuota,
+  CREATE_CHECK_REQUEST_SCHEMA,
+  quotaHeaders,
+  recordApiKeyCheck,
+  touchApiKey,
+} from '../_shared/api/index.ts';
+import { checkRequestRateLimit, getRateLimitStore, loadRateLimitConfig, rateLimitHeaders } from '../_shared/rateLimit/index.ts';
+
+// Public, versioned REST API for partner integrations:
+//   POST /v1/checks        verify a text or link (counts against the daily quota)
+//   GET  /v1/checks        checks created with the calling key
+//   GET  /v1/checks/:id    a single check
+//   GET  /v1/openapi.json  API description, no key required
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'content-type, x-api-key',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'retry-after, x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset, x-quota-limit, x-quota-remaining, x-quota-reset',
+};
+
+const rateLimitConfig = loadRateLimitConfig();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ROUTE_PATTERN = /^(.*)\/v1\/(openapi\.json|checks(?:\/([^/]+))?)\/?$/;
+const MAX_PAGE_SIZE = 100;
+
+type Headers = Record<string, string>;
+
+function json(body: unknown, status: number, headers: Headers): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...headers, 'Content-Type': 'application/json' } });
+}
+
+// The override embed is an object or a one-item list depending on whether
+// PostgREST detects the one-to-one relationship
+function toOutcome(row: FactCheckRow & { verdict_overrides?: VerdictOverride | VerdictOverride[] | null }) {
+  const { verdict_overrides: embedded, ...check } = row;
+  const override = Array.isArray(embedded) ? embedded[0] ?? null : embedded ?? null;
+  return outcomeFromRow(check, override);
+}
+
+function readPaging(url: URL): { limit: number; offset: number } {
+  const limit = Number(url.searchParams.get('limit') ?? 20);
+  const offset = Number(url.searchParams.get('offset') ?? 0);
+  return {
+    limit: Number.isInteger(limit) ? Math.min(MAX_PAGE_SIZE, Math.max(1, limit)) : 20,
+    offset: Number.isInteger(offset) ? Math.max(0, offset) : 0,
+  };
+}
+
+async function createCheck(req: Request, client: SupabaseClient, apiKey: ApiKey, headers: Headers): Promise<Response> {
+  const contentLength = req.headers.get('content-length');
+  if (contentLength && parseInt(contentLength) > 10000) { // 10KB limit
+    return json({ error: 'Texto muito longo para análise' }, 413, headers);
+  }
+
+  let requestBody;
+  try {
+    requestBody = await req.json();
+  } catch (e) {
+    return json({ error: 'Formato de dados inválido' }, 400, headers);
+  }
+
+  const errors = validate(requestBody, CREATE_CHECK_REQUEST_SCHEMA);
+  if (errors.length > 0) {
+    return json({ error: `Requisição inválida: ${errors.join('; ')}` }, 400, headers);
+  }
+  if (requestBody.text === undefined && requestBody.url === undefined) {
+    return json({ error: 'Informe text ou url' }, 400, headers);
+  }
+
+  // Requests that are rejected, or whose URL cannot be read, do not count
+  // towards the quota
+  let input;
+  try {
+    input = await prepareInput(requestBody, getPageFetcher);
+  } catch (e) {
+    if (!(e instanceof InputError)) throw e;
+    return json({ error: e.message }, e.status, headers);
+  }
+
+  const quota = await consumeQuota(client, apiKey.id);
+  const quotaResponseHeaders = { ...headers, ...quotaHeaders(quota) };
+
+  if (!quota.allowed) {
+    return json(
+      { error: 'Cota diária de verificações esgotada.' },
+      429,
+      { ...quotaResponseHeaders, 'Retry-After': String(Math.max(1, quota.resetAt - Math.floor(Date.now() / 1000))) }
+    );
+  }
+
+  const outcome = await runCheck(client, input, { refresh: requestBody.refresh === true });
+
+  if (outcome.id) {
+    runInBackground(recordApiKeyCheck(client, apiKey.id, outcome.id));
+  }
+
+  return json(outcome, 200, quotaResponseHeaders);
+}
+
+async function getCheck(client: SupabaseClient, id: string, headers: Headers): Promise<Response> {
+  if (!UUID_PATTERN.test(id)) {
+    return json({ error: 'Verificação não encontrada' }, 404, headers);
+  }
+
+  const { data, error } = await client
+    .from('fact_checks')
+    .select('*, verdict_overrides(*)')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data
+    ? json(toOutcome(data), 200, headers)
+    : json({ error: 'Verificação não encontrada' }, 404, headers);
+}
+
+async function listChecks(client: SupabaseClient, apiKey: ApiKey, url: URL, headers: Headers): Promise<Response> {
+  const { limit, offset } = readPaging(url);
+
+  const { data, error, count } = await client
+    .from('api_key_checks')
+    .select('fact_checks(*, verdict_overrides(*))', { count: 'exact' })
+    .eq('api_key_id', apiKey.id)
+    .order('last_submitted_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const body: CheckList = {
+    data: (data || [])
+      .map((row: { fact_checks: unknown }) => row.fact_checks)
+      .filter(Boolean)
+      .map(check => toOutcome(check as FactCheckRow)),
+    pagination: { limit, offset, total: count ?? 0 },
+  };
+
+  return json(body, 200, headers);
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const route = ROUTE_PATTERN.exec(url.pathname);
+
+  if (!route) {
+    return json({ error: 'Rota não encontrada' }, 404, corsHeaders);
+  }
+
+  const [, basePath, resource, checkId] = route;
+
+  if (resource === 'openapi.json') {
+    return req.method === 'GET'
+      ? json(buildOpenApiDocument(`${url.origin}${basePath}`), 200, corsHeaders)
+      : json({ error: 'Método não permitido' }, 405, corsHeaders);
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const apiKey = await authenticateApiKey(supabaseClient, req.headers.get('x-api-key'));
+    if (!apiKey) {
+      return json({ error: 'Chave de API ausente ou inválida' }, 401, corsHeaders);
+    }
+
+    // Burst protection per key; the daily quota only applies to new checks
+    const rateLimit = await checkRequestRateLimit(req, getRateLimitStore(supabaseClient), rateLimitConfig, apiKey.id);
+    const headers = { ...corsHeaders, ...rateLimitHeaders(rateLimit) };
+
+    if (!rateLimit.allowed) {
+      return json({ error: 'Muitas requisições. Aguarde um momento antes de tentar novamente.' }, 429, headers);
+    }
+
+    runInBackground(touchApiKey(supabaseClient, apiKey.id));
+
+    if (checkId !== undefined) {
+      return req.method === 'GET'
+        ? await getCheck(supabaseClient, checkId, headers)
+        : json({ error: 'Método não permitido' }, 405, headers);
+    }
+
+    if (req.method === 'POST') {
+      console.log('API check requested by key', apiKey.key_prefix);
+      return await createCheck(req, supabaseClient, apiKey, headers);
+    }
+
+    if (req.method === 'GET') {
+      return await listChecks(supabaseClient, apiKey, url, headers);
+    }
+
+    return json({ error: 'Método não permitido' }, 405, headers);
+
+  } catch (error) {
+    console.error('Unexpected error in api function:', error.message);
+
+    // Return generic error without exposing internal details
+    return json({ error: 'Erro temporário no serviço. Tente novamente em alguns instantes.' }, 500, corsHeaders);
+  }
+});
@@ -0,0 +1,152 @@
+
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { runInBackground } from '../_shared/runtime.ts';
+import { getPageFetcher } from '../_shared/article/index.ts';
+import { loadBatchConfig, runBatch } from '../_shared/batch.ts';
+import { getAuthVerifier, getRequestUser } from '../_shared/auth/index.ts';
+import { recordUserCheck } from '../_shared/userChecks.ts';
+import { InputError } from '../_shared/pipeline.ts';
+import { createJob, failStaleJobs, loadJobTimeoutMs, parseWebhookUrl, runJob, toAcceptedJob } from '../_shared/jobs.ts';
+import { checkBucketRateLimit, getRateLimitStore, loadRateLimitConfig, rateLimitHeaders } from '../_shared/rateLimit/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'retry-after, x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset',
+};
+
+const rateLimitConfig = loadRateLimitConfig();
+const jobTimeoutMs = loadJobTimeoutMs();
+const batchConfig = loadBatchConfig();
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const user = await getRequestUser(req, getAuthVerifier(supabaseClient));
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Faça login para usar a verificação em lote.' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const rateLimit = await checkBucketRateLimit(
+      getRateLimitStore(supabaseClient),
+      `user:${user.id}`,
+      batchConfig.requestsPerWindow,
+      rateLimitConfig.windowMs
+    );
+    const jsonHeaders = { ...corsHeaders, ...rateLimitHeaders(rateLimit), 'Content-Type': 'application/json' };
+
+    if (!rateLimit.allowed) {
+      return new Response(
+        JSON.stringify({
+          error: 'Muitas tentativas. Aguarde um momento antes de tentar novamente.',
+          retryAfter: rateLimit.retryAfter
+        }),
+        { status: 429, headers: jsonHeaders }
+      );
+    }
+
+    // Request size limit: 10KB per item, like single checks
+    const contentLength = req.headers.get('content-length');
+    if (contentLength && parseInt(contentLength) > 10000 * batchConfig.maxItems) {
+      return new Response(
+        JSON.stringify({ error: 'Lote muito grande para análise' }),
+        { status: 413, headers: jsonHeaders }
+      );
+    }
+
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (e) {
+      return new Response(
+        JSON.stringify({ error: 'Formato de dados inválido' }),
+        { status: 400, headers: jsonHeaders }
+      );
+    }
+
+    const items = requestBody?.items;
+    if (!Array.isArray(items) || items.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'Envie uma lista de itens para verificação' }),
+        { status: 400, headers: jsonHeaders }
+      );
+    }
+
+    if (items.length > batchConfig.maxItems) {
+      return new Response(
+        JSON.stringify({ error: `No máximo ${batchConfig.maxItems} itens por lote`, maxItems: batchConfig.maxItems }),
+        { status: 413, headers: jsonHeaders }
+      );
+    }
+
+    let webhookUrl;
+    try {
+      webhookUrl = parseWebhookUrl(requestBody.webhook_url);
+    } catch (e) {
+      if (!(e instanceof InputError)) throw e;
+      return new Response(
+        JSON.stringify({ error: e.message }),
+        { status: e.status, headers: jsonHeaders }
+      );
+    }
+
+    const inputs = items.map(item => (item && typeof item === 'object' ? { text: item.text, url: item.url } : {}));
+    const verify = async () => {
+      const results = await runBatch(supabaseClient, inputs, {
+        concurrency: batchConfig.concurrency,
+        getFetcher: getPageFetcher,
+      });
+
+      // Every distinct check also lands in the user's own history
+      const checkIds = new Set(results.map(result => result.check?.id).filter((id): id is string => Boolean(id)));
+      checkIds.forEach(id => runInBackground(recordUserCheck(supabaseClient, user.id, id)));
+
+      return results;
+    };
+
+    // Async mode: large batches easily outlast the request timeout
+    if (requestBody.async === true) {
+      const job = await createJob(supabaseClient, { kind: 'batch', userId: user.id, webhookUrl });
+      console.log('Queued batch job:', job.id, 'with', items.length, 'items');
+      runInBackground(failStaleJobs(supabaseClient, jobTimeoutMs));
+
+      runInBackground(runJob(supabaseClient, job, async () => ({
+        result: { results: await verify(), maxItems: batchConfig.maxItems },
+      })));
+
+      return new Response(
+        JSON.stringify(toAcceptedJob(job)),
+        { status: 202, headers: jsonHeaders }
+      );
+    }
+
+    const results = await verify();
+
+    return new Response(
+      JSON.stringify({ results, maxItems: batchConfig.maxItems }),
+      { headers: jsonHeaders }
+    );
+
+  } catch (error) {
+    console.error('Unexpected error in batch-check function:', error.message);
+
+    return new Response(
+      JSON.stringify({ error: 'Erro temporário no serviço. Tente novamente em alguns instantes.' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
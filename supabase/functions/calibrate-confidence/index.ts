@@ -0,0 +1,50 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { reviewerEndpoint } from '../_shared/auth/index.ts';
+import { CALIBRATION_METHODS, CalibrationMethod, fitCalibration, loadReviewedVerdicts, saveCalibration } from '../_shared/calibration/index.ts';
+
+// Fits a new confidence calibration from reviewed checks and makes it the
+// one applied to new verdicts:
+//   POST /calibrate-confidence { "method": "isotonic" | "platt" }
+// The method defaults to CALIBRATION_METHOD (isotonic); at least
+// CALIBRATION_MIN_SAMPLES reviews (default 50) are needed. Open to reviewers
+// and to the service role.
+serve(reviewerEndpoint('calibrate-confidence', 'Apenas a equipe de checagem pode calibrar a confiança.', async (req, { client: supabaseClient, jsonHeaders }) => {
+  let requestBody: { method?: unknown };
+  try {
+    const raw = await req.text();
+    requestBody = raw.trim() ? JSON.parse(raw) : {};
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Formato de dados inválido' }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+
+  const method = requestBody.method ?? (Deno.env.get('CALIBRATION_METHOD') || 'isotonic');
+  if (!CALIBRATION_METHODS.includes(method as CalibrationMethod)) {
+    return new Response(
+      JSON.stringify({ error: `Método de calibração inválido. Use: ${CALIBRATION_METHODS.join(', ')}` }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+
+  const configuredMinimum = Number(Deno.env.get('CALIBRATION_MIN_SAMPLES'));
+  const minSamples = Number.isInteger(configuredMinimum) && configuredMinimum > 0 ? configuredMinimum : 50;
+
+  const samples = await loadReviewedVerdicts(supabaseClient);
+  const fit = fitCalibration(samples, method as CalibrationMethod, minSamples);
+  if (!fit) {
+    return new Response(
+      JSON.stringify({ error: `Revisões insuficientes para calibrar: ${samples.length} de ${minSamples} necessárias.` }),
+      { status: 422, headers: jsonHeaders }
+    );
+  }
+
+  const id = await saveCalibration(supabaseClient, fit);
+  console.log('Calibration fitted:', id, fit.method, 'samples:', fit.sample_count, 'brier:', fit.brier_raw.toFixed(4), '->', fit.brier_calibrated.toFixed(4));
+
+  return new Response(
+    JSON.stringify({ id, ...fit }),
+    { headers: jsonHeaders }
+  );
+}));
@@ -0,0 +1,89 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { runInBackground } from '../_shared/runtime.ts';
+import { failStaleJob, getJob, loadJobTimeoutMs, notifyJobWebhook, toJobView } from '../_shared/jobs.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Expose-Headers': 'retry-after',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Suggested polling interval, in seconds, while a job is still in progress
+const POLL_INTERVAL_SECONDS = 2;
+
+const jobTimeoutMs = loadJobTimeoutMs();
+
+// Status endpoint for async fact-check and batch-check jobs:
+//   GET /check-jobs?id=<job_id>  (or /check-jobs/<job_id>)
+// Not rate limited: polling is a primary-key read and the job id itself is
+// the credential.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({ error: 'Método não suportado' }),
+      { status: 405, headers: { ...jsonHeaders, 'Allow': 'GET, OPTIONS' } }
+    );
+  }
+
+  try {
+    const url = new URL(req.url);
+    const id = url.searchParams.get('id') ?? url.pathname.split('/').filter(Boolean).pop() ?? '';
+
+    if (!UUID_PATTERN.test(id)) {
+      return new Response(
+        JSON.stringify({ error: 'Identificador de tarefa inválido' }),
+        { status: 400, headers: jsonHeaders }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    let job = await getJob(supabaseClient, id);
+    if (!job) {
+      return new Response(
+        JSON.stringify({ error: 'Tarefa não encontrada' }),
+        { status: 404, headers: jsonHeaders }
+      );
+    }
+
+    // A job whose isolate died is reported failed instead of polled forever
+    const expired = await failStaleJob(supabaseClient, job, jobTimeoutMs);
+    if (expired) {
+      job = expired;
+      runInBackground(notifyJobWebhook(supabaseClient, expired));
+    }
+
+    const finished = job.status === 'done' || job.status === 'failed';
+
+    return new Response(
+      JSON.stringify(toJobView(job)),
+      {
+        headers: finished
+          ? { ...jsonHeaders, 'Cache-Control': 'private, max-age=60' }
+          : { ...jsonHeaders, 'Cache-Control': 'no-store', 'Retry-After': String(POLL_INTERVAL_SECONDS) }
+      }
+    );
+
+  } catch (error) {
+    console.error('Unexpected error in check-jobs function:', error.message);
+
+    return new Response(
+      JSON.stringify({ error: 'Erro temporário no serviço. Tente novamente em alguns instantes.' }),
+      { status: 500, headers: jsonHeaders }
+    );
+  }
+});
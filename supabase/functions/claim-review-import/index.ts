@@ -0,0 +1,89 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { reviewerEndpoint } from '../_shared/auth/index.ts';
+import { ClaimReviewRecord, fetchClaimReviewDocuments, getFeedFetcher, parseClaimReviews, saveClaimReviews } from '../_shared/claimReview/index.ts';
+
+const MAX_URLS = 20;
+
+interface FeedReport {
+  url: string;
+  reviews: number;
+  skipped: number;
+  error: string | null;
+}
+
+// Imports ClaimReview markup from fact-checkers into claim_reviews:
+//   POST /claim-review-import { "urls": [...], "documents": [...] }
+// `urls` are JSON-LD feeds or dumps, or fact-check pages with embedded
+// markup; `documents` are already-parsed JSON-LD. An empty body imports the
+// feeds in CLAIM_REVIEW_FEEDS, for scheduled runs. Open to reviewers and to
+// the service role.
+serve(reviewerEndpoint('claim-review-import', 'Apenas a equipe de checagem pode importar checagens.', async (req, { client: supabaseClient, jsonHeaders }) => {
+  let requestBody: { urls?: unknown; documents?: unknown };
+  try {
+    const raw = await req.text();
+    requestBody = raw.trim() ? JSON.parse(raw) : {};
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Formato de dados inválido' }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+
+  const configuredFeeds = (Deno.env.get('CLAIM_REVIEW_FEEDS') ?? '').split(/[\s,]+/).filter(Boolean);
+  const urls = requestBody.urls === undefined && requestBody.documents === undefined
+    ? configuredFeeds
+    : requestBody.urls ?? [];
+
+  if (!Array.isArray(urls) || urls.some(url => typeof url !== 'string')) {
+    return new Response(
+      JSON.stringify({ error: 'O campo "urls" deve ser uma lista de endereços' }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+  if (urls.length > MAX_URLS) {
+    return new Response(
+      JSON.stringify({ error: `Envie no máximo ${MAX_URLS} endereços por importação` }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+  if (urls.length === 0 && requestBody.documents === undefined) {
+    return new Response(
+      JSON.stringify({ error: 'Informe "urls" ou "documents" para importar' }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+
+  const records: ClaimReviewRecord[] = [];
+  const feeds: FeedReport[] = [];
+  let skipped = 0;
+
+  if (requestBody.documents !== undefined) {
+    const parsed = parseClaimReviews([requestBody.documents]);
+    records.push(...parsed.records);
+    skipped += parsed.skipped;
+  }
+
+  // One at a time: feeds can be large and a failing one must not stop the rest
+  const fetcher = await getFeedFetcher();
+  for (const url of urls as string[]) {
+    try {
+      const parsed = parseClaimReviews(await fetchClaimReviewDocuments(url, fetcher));
+      records.push(...parsed.records);
+      skipped += parsed.skipped;
+      feeds.push({ url, reviews: parsed.records.length, skipped: parsed.skipped, error: null });
+    } catch (e) {
+      console.error('Claim review feed failed:', url, e.message);
+      feeds.push({ url, reviews: 0, skipped: 0, error: e.message });
+    }
+  }
+
+  // The same review may come from several feeds; keep the last one seen
+  const unique = [...new Map(records.map(record => [record.review_url, record])).values()];
+  const imported = await saveClaimReviews(supabaseClient, unique);
+  console.log('Imported claim reviews:', imported, 'skipped:', skipped);
+
+  return new Response(
+    JSON.stringify({ imported, skipped, feeds }),
+    { headers: jsonHeaders }
+  );
+}));
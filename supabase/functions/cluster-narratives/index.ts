@@ -0,0 +1,27 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { reviewerEndpoint } from '../_shared/auth/index.ts';
+import { getEmbeddingProvider } from '../_shared/embeddings/index.ts';
+import { clusterChecks, loadClusterPolicy } from '../_shared/narratives.ts';
+
+// Groups checks not yet in a narrative and refreshes the stats of the
+// narratives that grew:
+//   POST /cluster-narratives
+// Meant to run on a schedule; each call handles up to NARRATIVE_BATCH_SIZE
+// checks. Open to reviewers and to the service role.
+serve(reviewerEndpoint('cluster-narratives', 'Apenas a equipe de checagem pode agrupar narrativas.', async (_req, { client: supabaseClient, jsonHeaders }) => {
+  const embedder = getEmbeddingProvider();
+  if (!embedder) {
+    return new Response(
+      JSON.stringify({ error: 'Agrupamento indisponível: configure EMBEDDING_PROVIDER.' }),
+      { status: 503, headers: jsonHeaders }
+    );
+  }
+
+  const report = await clusterChecks(supabaseClient, embedder, loadClusterPolicy(embedder));
+  console.log('Clustered checks:', report.assigned, 'new narratives:', report.created, 'embedded:', report.embedded);
+
+  return new Response(
+    JSON.stringify(report),
+    { headers: jsonHeaders }
+  );
+}));
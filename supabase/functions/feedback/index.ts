@@ -0,0 +1,120 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sha256Hex } from '../_shared/crypto.ts';
+import { assertPublicHttpUrl } from '../_shared/article/index.ts';
+import { flagIfDisputed, getFeedbackSummary, loadDisputePolicy, recordFeedback } from '../_shared/feedback.ts';
+import { checkRequestRateLimit, getClientIp, getRateLimitStore, loadRateLimitConfig, rateLimitHeaders } from '../_shared/rateLimit/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'retry-after, x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset',
+};
+
+const rateLimitConfig = loadRateLimitConfig();
+const disputePolicy = loadDisputePolicy();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const rateLimit = await checkRequestRateLimit(req, getRateLimitStore(supabaseClient), rateLimitConfig);
+    const jsonHeaders = { ...corsHeaders, ...rateLimitHeaders(rateLimit), 'Content-Type': 'application/json' };
+
+    if (!rateLimit.allowed) {
+      return new Response(
+        JSON.stringify({
+          error: 'Muitas tentativas. Aguarde um momento antes de tentar novamente.',
+          retryAfter: rateLimit.retryAfter
+        }),
+        { status: 429, headers: jsonHeaders }
+      );
+    }
+
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (e) {
+      return new Response(
+        JSON.stringify({ error: 'Formato de dados inválido' }),
+        { status: 400, headers: jsonHeaders }
+      );
+    }
+
+    const { fact_check_id: factCheckId, vote, counter_source_url: counterSource } = requestBody;
+
+    if (typeof factCheckId !== 'string' || !UUID_PATTERN.test(factCheckId) || (vote !== 'up' && vote !== 'down')) {
+      return new Response(
+        JSON.stringify({ error: 'Avaliação inválida' }),
+        { status: 400, headers: jsonHeaders }
+      );
+    }
+
+    let counterSourceUrl: string | null = null;
+    if (counterSource !== undefined && counterSource !== null && counterSource !== '') {
+      try {
+        if (typeof counterSource !== 'string' || counterSource.length > 2048) {
+          throw new Error('Invalid URL');
+        }
+        counterSourceUrl = assertPublicHttpUrl(counterSource.trim()).toString();
+      } catch (e) {
+        return new Response(
+          JSON.stringify({ error: 'Link da fonte inválido. Informe um link http(s) público.' }),
+          { status: 400, headers: jsonHeaders }
+        );
+      }
+    }
+
+    const { data: check, error: checkError } = await supabaseClient
+      .from('fact_checks')
+      .select('id')
+      .eq('id', factCheckId)
+      .maybeSingle();
+
+    if (checkError) {
+      throw new Error(checkError.message);
+    }
+
+    if (!check) {
+      return new Response(
+        JSON.stringify({ error: 'Verificação não encontrada' }),
+        { status: 404, headers: jsonHeaders }
+      );
+    }
+
+    // Votes are keyed by a hash of the client IP so readers can change their
+    // vote but not stuff the ballot, without storing addresses
+    const voterHash = await sha256Hex(`feedback|${getClientIp(req.headers, rateLimitConfig.clientIpHeader, rateLimitConfig.trustedProxyHops)}`);
+
+    await recordFeedback(supabaseClient, { factCheckId, vote, counterSourceUrl, voterHash });
+
+    const summary = await getFeedbackSummary(supabaseClient, factCheckId);
+    const flagged = await flagIfDisputed(supabaseClient, factCheckId, summary, disputePolicy);
+
+    console.log('Feedback recorded:', factCheckId, vote, flagged ? '(flagged for review)' : '');
+
+    return new Response(
+      JSON.stringify({ summary, flagged }),
+      { headers: jsonHeaders }
+    );
+
+  } catch (error) {
+    console.error('Unexpected error in feedback function:', error.message);
+
+    return new Response(
+      JSON.stringify({ error: 'Erro temporário no serviço. Tente novamente em alguns instantes.' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
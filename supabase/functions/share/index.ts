@@ -0,0 +1,129 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Link previews (WhatsApp, Telegram, Facebook...) do not run JavaScript, so
+// the SPA cannot provide Open Graph tags itself. Shared links point here;
+// crawlers read the tags and browsers are redirected to /verificacao/:id.
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const STATUS_TITLES: Record<string, string> = {
+  real: 'Informação Verdadeira',
+  fake: 'Possível Fake News',
+  uncertain: 'Verificação Incerta',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? value.substring(0, length - 1).trimEnd() + '…' : value;
+}
+
+function renderPage(meta: { title: string; description: string; url: string; redirectTo: string }): string {
+  const title = escapeHtml(meta.title);
+  const description = escapeHtml(meta.description);
+  const url = escapeHtml(meta.url);
+  const redirectTo = escapeHtml(meta.redirectTo);
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <meta name="description" content="${description}">
+  <meta property="og:type" content="article">
+  <meta property="og:site_name" content="Detector de Fake News">
+  <meta property="og:title" content="${title}">
+  <meta property="og:description" content="${description}">
+  <meta property="og:url" content="${url}">
+  <meta property="og:locale" content="pt_BR">
+  <meta name="twitter:card" content="summary">
+  <meta name="twitter:title" content="${title}">
+  <meta name="twitter:description" content="${description}">
+  <link rel="canonical" href="${redirectTo}">
+  <meta http-equiv="refresh" content="0; url=${redirectTo}">
+</head>
+<body>
+  <p><a href="${redirectTo}">Ver verificação completa</a></p>
+</body>
+</html>`;
+}
+
+function htmlResponse(body: string, status = 200): Response {
+  return new Response(body, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'public, max-age=300',
+    },
+  });
+}
+
+serve(async (req) => {
+  const requestUrl = new URL(req.url);
+  const siteUrl = (Deno.env.get('SITE_URL') ?? '').replace(/\/+$/, '');
+
+  // Accept both /share/<id> and /share?id=<id>
+  const id = requestUrl.searchParams.get('id') ?? requestUrl.pathname.split('/').filter(Boolean).pop() ?? '';
+
+  if (!UUID_PATTERN.test(id)) {
+    return htmlResponse(renderPage({
+      title: 'Verificação não encontrada',
+      description: 'O link de verificação é inválido.',
+      url: requestUrl.toString(),
+      redirectTo: `${siteUrl}/`,
+    }), 404);
+  }
+
+  const redirectTo = `${siteUrl}/verificacao/${id}`;
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    );
+
+    const { data, error } = await supabaseClient
+      .from('fact_checks')
+      .select('id, input_text, status, confidence, justification, verdict_overrides(status, confidence, justification)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) {
+      return htmlResponse(renderPage({
+        title: 'Verificação não encontrada',
+        description: 'Esta verificação não existe ou foi removida.',
+        url: requestUrl.toString(),
+        redirectTo: `${siteUrl}/`,
+      }), 404);
+    }
+
+    // Prefer the reviewer's verdict; the embed is an object or a one-item list
+    // depending on whether PostgREST detects the one-to-one relationship
+    const review = Array.isArray(data.verdict_overrides) ? data.verdict_overrides[0] : data.verdict_overrides;
+    const verdict = review ?? data;
+    const statusTitle = STATUS_TITLES[verdict.status] ?? 'Verificação';
+
+    return htmlResponse(renderPage({
+      title: `${statusTitle} (${verdict.confidence}% de confiança): "${truncate(data.input_text, 80)}"`,
+      description: truncate(verdict.justification, 200),
+      url: requestUrl.toString(),
+      redirectTo,
+    }));
+  } catch (error) {
+    console.error('Error rendering share page:', error.message);
+    return htmlResponse(renderPage({
+      title: 'Detector de Fake News',
+      description: 'Veja a verificação completa.',
+      url: requestUrl.toString(),
+      redirectTo,
+    }), 500);
+  }
+});
@@ -0,0 +1,3 @@
+-- Store per-claim verdicts alongside the aggregated result
+ALTER TABLE public.fact_checks
+    ADD COLUMN claims jsonb DEFAULT '[]'::jsonb;
@@ -0,0 +1,42 @@
+-- Replace the legacy 32-bit rolling hash in fact_checks.text_hash with
+-- versioned SHA-256 cache keys (see supabase/functions/_shared/cacheKey.ts).
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.fact_checks
+    ADD COLUMN cache_key_version smallint NOT NULL DEFAULT 1;
+
+-- Key material: '<key version>|<provider>:<model>|<prompt version>|<canonical text>'.
+-- Every existing row was produced by gemini-1.5-flash with prompt version 1.
+-- input_text only holds the first 500 characters, so rows for longer inputs
+-- get a key that no new request will reproduce and simply age out.
+CREATE TEMP TABLE fact_check_rekey ON COMMIT DROP AS
+SELECT
+    id,
+    created_at,
+    encode(
+        extensions.digest(
+            '2|gemini:gemini-1.5-flash|1|' ||
+            lower(regexp_replace(btrim(normalize(input_text, NFKC)), '\s+', ' ', 'g')),
+            'sha256'
+        ),
+        'hex'
+    ) AS new_hash
+FROM public.fact_checks;
+
+-- Truncated inputs that shared a prefix would now collide on the UNIQUE
+-- constraint; keep only the most recent verdict for each new key.
+DELETE FROM public.fact_checks f
+USING (
+    SELECT id, row_number() OVER (PARTITION BY new_hash ORDER BY created_at DESC) AS rank
+    FROM fact_check_rekey
+) ranked
+WHERE f.id = ranked.id AND ranked.rank > 1;
+
+UPDATE public.fact_checks f
+SET text_hash = r.new_hash,
+    cache_key_version = 2
+FROM fact_check_rekey r
+WHERE f.id = r.id;
+
+ALTER TABLE public.fact_checks
+    ALTER COLUMN cache_key_version SET DEFAULT 2;
@@ -0,0 +1,14 @@
+-- Cache expiry: each verdict is served until expires_at, then refreshed
+ALTER TABLE public.fact_checks
+    ADD COLUMN topic text,
+    ADD COLUMN expires_at timestamp with time zone;
+
+-- Existing rows get the default status TTLs from _shared/cachePolicy.ts
+UPDATE public.fact_checks
+SET expires_at = updated_at + CASE status
+    WHEN 'real' THEN interval '7 days'
+    WHEN 'fake' THEN interval '30 days'
+    ELSE interval '1 day'
+END;
+
+CREATE INDEX idx_fact_checks_expires_at ON public.fact_checks(expires_at);
@@ -0,0 +1,56 @@
+-- Shared sliding-window rate limiting for edge functions
+CREATE TABLE public.rate_limit_hits (
+    id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    bucket text NOT NULL, -- 'ip:<address>' or 'key:<sha256 of api key>'
+    hit_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_rate_limit_hits_bucket_hit_at ON public.rate_limit_hits(bucket, hit_at DESC);
+
+-- Only the service role (edge functions) touches this table
+ALTER TABLE public.rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+-- Record a hit for a bucket and report whether it is within the limit.
+-- Hits are serialized per bucket so concurrent requests cannot overshoot.
+CREATE OR REPLACE FUNCTION public.check_rate_limit(p_bucket text, p_limit integer, p_window_seconds integer)
+RETURNS TABLE (allowed boolean, remaining integer, retry_after integer, reset_at timestamp with time zone) AS $$
+DECLARE
+    window_start timestamp with time zone := now() - make_interval(secs => p_window_seconds);
+    hit_count integer;
+    oldest_hit timestamp with time zone;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(p_bucket));
+
+    DELETE FROM public.rate_limit_hits
+    WHERE bucket = p_bucket AND hit_at <= window_start;
+
+    SELECT count(*), min(hit_at) INTO hit_count, oldest_hit
+    FROM public.rate_limit_hits
+    WHERE bucket = p_bucket;
+
+    IF hit_count < p_limit THEN
+        INSERT INTO public.rate_limit_hits (bucket) VALUES (p_bucket);
+        RETURN QUERY SELECT
+            true,
+            p_limit - hit_count - 1,
+            0,
+            coalesce(oldest_hit, now()) + make_interval(secs => p_window_seconds);
+    ELSE
+        RETURN QUERY SELECT
+            false,
+            0,
+            greatest(1, ceil(extract(epoch FROM (oldest_hit + make_interval(secs => p_window_seconds) - now())))::integer),
+            oldest_hit + make_interval(secs => p_window_seconds);
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.check_rate_limit(text, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Buckets that go quiet leave old rows behind; purge them periodically
+CREATE OR REPLACE FUNCTION public.purge_rate_limit_hits(p_older_than interval DEFAULT interval '1 day')
+RETURNS void AS $$
+    DELETE FROM public.rate_limit_hits WHERE hit_at < now() - p_older_than;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION public.purge_rate_limit_hits(interval) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,4 @@
+-- Article metadata (url, title, byline, publishedAt, siteName) for checks
+-- submitted by link
+ALTER TABLE public.fact_checks
+    ADD COLUMN article jsonb;
@@ -0,0 +1,42 @@
+-- Reader feedback on verdicts: thumbs up/down and an optional counter-source
+CREATE TABLE public.verdict_feedback (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    fact_check_id uuid NOT NULL REFERENCES public.fact_checks(id) ON DELETE CASCADE,
+    vote text NOT NULL CHECK (vote IN ('up', 'down')),
+    counter_source_url text,
+    voter_hash text NOT NULL, -- sha256 of the client IP; one vote per reader per check
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (fact_check_id, voter_hash)
+);
+
+CREATE INDEX idx_verdict_feedback_fact_check_id ON public.verdict_feedback(fact_check_id);
+
+-- Written by the feedback edge function (service role) only; voter hashes
+-- stay private and readers see the aggregate view below
+ALTER TABLE public.verdict_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_verdict_feedback_updated_at
+    BEFORE UPDATE ON public.verdict_feedback
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Checks readers disputed often enough to need a human look
+ALTER TABLE public.fact_checks
+    ADD COLUMN flagged_at timestamp with time zone,
+    ADD COLUMN flag_reason text;
+
+CREATE INDEX idx_fact_checks_flagged_at ON public.fact_checks(flagged_at DESC) WHERE flagged_at IS NOT NULL;
+
+CREATE VIEW public.verdict_feedback_summary AS
+SELECT
+    fact_check_id,
+    count(*) FILTER (WHERE vote = 'up')::integer AS upvotes,
+    count(*) FILTER (WHERE vote = 'down')::integer AS downvotes,
+    count(*)::integer AS total_votes,
+    round(count(*) FILTER (WHERE vote = 'down')::numeric / count(*), 4) AS dispute_rate,
+    count(counter_source_url)::integer AS counter_sources,
+    max(created_at) AS last_feedback_at
+FROM public.verdict_feedback
+GROUP BY fact_check_id;
+
+GRANT SELECT ON public.verdict_feedback_summary TO anon, authenticated;
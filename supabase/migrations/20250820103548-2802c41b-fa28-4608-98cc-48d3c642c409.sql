@@ -0,0 +1,77 @@
+-- Fact-checkers on the team; accounts are created in Supabase Auth and
+-- granted the role by inserting their user id here
+CREATE TABLE public.reviewers (
+    user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    display_name text,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.reviewers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reviewers can read their own row" ON public.reviewers
+    FOR SELECT USING (user_id = auth.uid());
+
+-- Security definer so policies can call it without reading reviewers directly
+CREATE OR REPLACE FUNCTION public.is_reviewer()
+RETURNS boolean AS $$
+    SELECT EXISTS (SELECT 1 FROM public.reviewers WHERE user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Editorial verdicts, kept apart from the model output in fact_checks so a
+-- re-verification never overwrites a reviewer's decision
+CREATE TABLE public.verdict_overrides (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    fact_check_id uuid NOT NULL UNIQUE REFERENCES public.fact_checks(id) ON DELETE CASCADE,
+    action text NOT NULL CHECK (action IN ('confirmed', 'overridden')),
+    status text NOT NULL CHECK (status IN ('real', 'fake', 'uncertain')),
+    confidence integer NOT NULL CHECK (confidence >= 0 AND confidence <= 100),
+    justification text NOT NULL,
+    sources jsonb DEFAULT '[]'::jsonb NOT NULL,
+    reviewer_id uuid NOT NULL REFERENCES auth.users(id),
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.verdict_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Overrides are part of the public verdict
+CREATE POLICY "Allow read access to all users" ON public.verdict_overrides
+    FOR SELECT USING (true);
+
+CREATE POLICY "Reviewers can insert overrides" ON public.verdict_overrides
+    FOR INSERT WITH CHECK (public.is_reviewer() AND reviewer_id = auth.uid());
+
+CREATE POLICY "Reviewers can update overrides" ON public.verdict_overrides
+    FOR UPDATE USING (public.is_reviewer()) WITH CHECK (public.is_reviewer() AND reviewer_id = auth.uid());
+
+CREATE TRIGGER update_verdict_overrides_updated_at
+    BEFORE UPDATE ON public.verdict_overrides
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reviewers need the counter-sources readers attached to their votes
+CREATE POLICY "Reviewers can read feedback" ON public.verdict_feedback
+    FOR SELECT USING (public.is_reviewer());
+
+-- Checks awaiting review: flagged by readers or below the confidence the
+-- prompt uses for a firm verdict, and not reviewed yet
+CREATE VIEW public.review_queue AS
+SELECT
+    fc.id,
+    fc.input_text,
+    fc.status,
+    fc.confidence,
+    fc.topic,
+    fc.flagged_at,
+    fc.flag_reason,
+    fc.created_at,
+    coalesce(fs.upvotes, 0) AS upvotes,
+    coalesce(fs.downvotes, 0) AS downvotes,
+    coalesce(fs.counter_sources, 0) AS counter_sources
+FROM public.fact_checks fc
+LEFT JOIN public.verdict_overrides vo ON vo.fact_check_id = fc.id
+LEFT JOIN public.verdict_feedback_summary fs ON fs.fact_check_id = fc.id
+WHERE vo.id IS NULL
+  AND (fc.flagged_at IS NOT NULL OR fc.confidence < 70);
+
+GRANT SELECT ON public.review_queue TO authenticated;
+REVOKE SELECT ON public.review_queue FROM anon;
@@ -0,0 +1,39 @@
+-- Who asked for which verification. fact_checks stays a shared cache keyed
+-- by text; this records each signed-in user's submissions.
+CREATE TABLE public.user_checks (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    fact_check_id uuid NOT NULL REFERENCES public.fact_checks(id) ON DELETE CASCADE,
+    submission_count integer DEFAULT 1 NOT NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    last_submitted_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (user_id, fact_check_id)
+);
+
+CREATE INDEX idx_user_checks_user_id_last_submitted_at ON public.user_checks(user_id, last_submitted_at DESC);
+
+ALTER TABLE public.user_checks ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the fact-check edge function (service role); users
+-- can only read and remove their own
+CREATE POLICY "Users can read their own checks" ON public.user_checks
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own checks" ON public.user_checks
+    FOR DELETE USING (user_id = auth.uid());
+
+-- Record a submission, counting repeats of the same text
+CREATE OR REPLACE FUNCTION public.record_user_check(p_user_id uuid, p_fact_check_id uuid)
+RETURNS void AS $$
+    INSERT INTO public.user_checks (user_id, fact_check_id)
+    VALUES (p_user_id, p_fact_check_id)
+    ON CONFLICT (user_id, fact_check_id) DO UPDATE
+    SET submission_count = public.user_checks.submission_count + 1,
+        last_submitted_at = timezone('utc'::text, now());
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION public.record_user_check(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Verdicts are only written by edge functions with the service role; anon
+-- inserts would let anyone plant a cached verdict
+DROP POLICY "Allow insert access to all users" ON public.fact_checks;
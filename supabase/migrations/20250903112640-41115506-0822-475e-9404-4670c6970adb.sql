@@ -0,0 +1,85 @@
+-- API keys for partner integrations of the public /v1 API. Only a SHA-256
+-- digest of each key is stored; the key itself is shown once at creation.
+CREATE TABLE public.api_keys (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    name text NOT NULL, -- partner / integration, e.g. 'Redação X - CMS'
+    key_prefix text NOT NULL, -- first characters of the key, to tell keys apart in logs
+    key_hash text UNIQUE NOT NULL,
+    daily_quota integer DEFAULT 1000 NOT NULL CHECK (daily_quota > 0),
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    last_used_at timestamp with time zone,
+    revoked_at timestamp with time zone
+);
+
+-- Checks created per key per UTC day
+CREATE TABLE public.api_key_usage (
+    api_key_id uuid NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+    day date NOT NULL,
+    request_count integer DEFAULT 0 NOT NULL,
+    PRIMARY KEY (api_key_id, day)
+);
+
+-- Which checks each key created, for GET /v1/checks
+CREATE TABLE public.api_key_checks (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    api_key_id uuid NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+    fact_check_id uuid NOT NULL REFERENCES public.fact_checks(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    last_submitted_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (api_key_id, fact_check_id)
+);
+
+CREATE INDEX idx_api_key_checks_key_last_submitted_at ON public.api_key_checks(api_key_id, last_submitted_at DESC);
+
+-- Only the api edge function (service role) touches these tables
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_key_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_key_checks ENABLE ROW LEVEL SECURITY;
+
+-- Issue a key from the SQL editor: SELECT * FROM public.create_api_key('Parceiro', 500);
+CREATE OR REPLACE FUNCTION public.create_api_key(p_name text, p_daily_quota integer DEFAULT 1000)
+RETURNS TABLE (id uuid, api_key text) AS $$
+DECLARE
+    new_key text := 'fnk_' || encode(extensions.gen_random_bytes(24), 'hex');
+    new_id uuid;
+BEGIN
+    INSERT INTO public.api_keys (name, key_prefix, key_hash, daily_quota)
+    VALUES (p_name, left(new_key, 12), encode(extensions.digest(new_key, 'sha256'), 'hex'), p_daily_quota)
+    RETURNING public.api_keys.id INTO new_id;
+
+    RETURN QUERY SELECT new_id, new_key;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count one request against the key's daily quota, refusing once it is used
+-- up. Serialized per key so concurrent requests cannot overshoot.
+CREATE OR REPLACE FUNCTION public.consume_api_quota(p_api_key_id uuid)
+RETURNS TABLE (allowed boolean, quota integer, used integer, reset_at timestamp with time zone) AS $$
+DECLARE
+    today date := (now() AT TIME ZONE 'utc')::date;
+    key_quota integer;
+    current_count integer;
+BEGIN
+    SELECT daily_quota INTO key_quota FROM public.api_keys WHERE public.api_keys.id = p_api_key_id FOR UPDATE;
+
+    INSERT INTO public.api_key_usage (api_key_id, day)
+    VALUES (p_api_key_id, today)
+    ON CONFLICT (api_key_id, day) DO NOTHING;
+
+    SELECT request_count INTO current_count
+    FROM public.api_key_usage
+    WHERE api_key_id = p_api_key_id AND day = today;
+
+    IF current_count < key_quota THEN
+        UPDATE public.api_key_usage SET request_count = request_count + 1
+        WHERE api_key_id = p_api_key_id AND day = today;
+        current_count := current_count + 1;
+        RETURN QUERY SELECT true, key_quota, current_count, ((today + 1)::timestamp AT TIME ZONE 'utc');
+    ELSE
+        RETURN QUERY SELECT false, key_quota, current_count, ((today + 1)::timestamp AT TIME ZONE 'utc');
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.create_api_key(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_api_quota(uuid) FROM PUBLIC, anon, authenticated;
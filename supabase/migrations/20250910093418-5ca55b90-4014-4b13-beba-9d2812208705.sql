@@ -0,0 +1,26 @@
+-- Asynchronous verifications: fact-check and batch-check may answer with a
+-- job id right away and finish the work in the background
+CREATE TABLE public.check_jobs (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    kind text NOT NULL CHECK (kind IN ('check', 'batch')),
+    status text DEFAULT 'queued' NOT NULL CHECK (status IN ('queued', 'running', 'done', 'failed')),
+    user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    fact_check_id uuid REFERENCES public.fact_checks(id) ON DELETE SET NULL,
+    result jsonb, -- CheckOutcome for 'check' jobs, { results } for 'batch' jobs
+    error text,
+    -- Completion callback; the secret signs each delivery with HMAC-SHA256
+    webhook_url text,
+    webhook_secret text,
+    webhook_attempts integer DEFAULT 0 NOT NULL,
+    webhook_delivered_at timestamp with time zone,
+    webhook_last_error text,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    started_at timestamp with time zone,
+    finished_at timestamp with time zone
+);
+
+CREATE INDEX idx_check_jobs_status_created_at ON public.check_jobs(status, created_at);
+
+-- Job ids are handed out as capabilities; the check-jobs edge function
+-- (service role) is the only reader, so webhook secrets never leave it
+ALTER TABLE public.check_jobs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,55 @@
+-- Credibility registry for source domains. A source matches the most
+-- specific registered domain, so 'gov.br' covers 'saude.gov.br' unless the
+-- subdomain has its own row.
+CREATE TABLE public.source_domains (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    domain text NOT NULL UNIQUE CHECK (domain ~ '^[a-z0-9-]+(\.[a-z0-9-]+)+$'),
+    name text NOT NULL,
+    tier text NOT NULL CHECK (tier IN ('high', 'medium', 'low', 'unreliable')),
+    source_type text NOT NULL CHECK (source_type IN ('official', 'press', 'academic', 'fact_checker', 'social', 'other')),
+    ownership_notes text, -- owner group, funding, known conflicts of interest
+    updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.source_domains ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to all users" ON public.source_domains
+    FOR SELECT USING (true);
+
+-- The registry is maintained by the fact-checking team
+CREATE POLICY "Reviewers can insert source domains" ON public.source_domains
+    FOR INSERT WITH CHECK (public.is_reviewer());
+
+CREATE POLICY "Reviewers can update source domains" ON public.source_domains
+    FOR UPDATE USING (public.is_reviewer()) WITH CHECK (public.is_reviewer());
+
+CREATE POLICY "Reviewers can delete source domains" ON public.source_domains
+    FOR DELETE USING (public.is_reviewer());
+
+CREATE TRIGGER update_source_domains_updated_at
+    BEFORE UPDATE ON public.source_domains
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.source_domains (domain, name, tier, source_type, ownership_notes) VALUES
+    ('gov.br', 'Portais do governo federal', 'high', 'official', 'Governo federal e órgãos públicos'),
+    ('who.int', 'Organização Mundial da Saúde', 'high', 'official', NULL),
+    ('ibge.gov.br', 'IBGE', 'high', 'official', 'Instituto Brasileiro de Geografia e Estatística'),
+    ('tse.jus.br', 'Tribunal Superior Eleitoral', 'high', 'official', NULL),
+    ('fiocruz.br', 'Fiocruz', 'high', 'academic', 'Fundação vinculada ao Ministério da Saúde'),
+    ('scielo.br', 'SciELO', 'high', 'academic', 'Biblioteca de periódicos científicos revisados por pares'),
+    ('lupa.uol.com.br', 'Agência Lupa', 'high', 'fact_checker', 'Signatária da IFCN'),
+    ('aosfatos.org', 'Aos Fatos', 'high', 'fact_checker', 'Signatária da IFCN'),
+    ('projetocomprova.com.br', 'Projeto Comprova', 'high', 'fact_checker', 'Coalizão de veículos de imprensa'),
+    ('g1.globo.com', 'g1', 'medium', 'press', 'Grupo Globo'),
+    ('folha.uol.com.br', 'Folha de S.Paulo', 'medium', 'press', 'Grupo Folha'),
+    ('estadao.com.br', 'Estadão', 'medium', 'press', 'Grupo Estado'),
+    ('agenciabrasil.ebc.com.br', 'Agência Brasil', 'medium', 'press', 'Empresa Brasil de Comunicação (estatal)'),
+    ('facebook.com', 'Facebook', 'low', 'social', 'Conteúdo publicado por usuários'),
+    ('instagram.com', 'Instagram', 'low', 'social', 'Conteúdo publicado por usuários'),
+    ('x.com', 'X (Twitter)', 'low', 'social', 'Conteúdo publicado por usuários'),
+    ('twitter.com', 'X (Twitter)', 'low', 'social', 'Conteúdo publicado por usuários'),
+    ('youtube.com', 'YouTube', 'low', 'social', 'Conteúdo publicado por usuários'),
+    ('tiktok.com', 'TikTok', 'low', 'social', 'Conteúdo publicado por usuários'),
+    ('kwai.com', 'Kwai', 'low', 'social', 'Conteúdo publicado por usuários');
@@ -0,0 +1,74 @@
+-- Published fact-checks imported from ClaimReview (schema.org) markup of
+-- outlets such as Lupa, Aos Fatos and Comprova. A close match is served
+-- before asking the model.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE TABLE public.claim_reviews (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    review_url text NOT NULL UNIQUE,
+    claim_text text NOT NULL,
+    claim_normalized text NOT NULL, -- lowercase, unaccented, no punctuation; what the lookup compares
+    claimant text,
+    claim_date timestamp with time zone,
+    publisher_name text NOT NULL,
+    publisher_url text,
+    review_date timestamp with time zone,
+    headline text,
+    rating_text text, -- reviewRating.alternateName as published, e.g. 'Falso'
+    rating_value numeric,
+    best_rating numeric,
+    worst_rating numeric,
+    status text NOT NULL CHECK (status IN ('real', 'fake', 'uncertain')), -- rating mapped to our verdicts
+    language text,
+    raw jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX idx_claim_reviews_claim_trgm ON public.claim_reviews USING gin (claim_normalized extensions.gin_trgm_ops);
+
+-- Published reviews are public; only the importer (service role) writes
+ALTER TABLE public.claim_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to all users" ON public.claim_reviews
+    FOR SELECT USING (true);
+
+CREATE TRIGGER update_claim_reviews_updated_at
+    BEFORE UPDATE ON public.claim_reviews
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reviews whose claim is most similar to an already normalized claim, by
+-- trigram similarity, most recent review first among equals
+CREATE OR REPLACE FUNCTION public.match_claim_reviews(p_claim text, p_min_similarity real DEFAULT 0.5, p_limit integer DEFAULT 3)
+RETURNS TABLE (
+    id uuid,
+    review_url text,
+    claim_text text,
+    claimant text,
+    publisher_name text,
+    publisher_url text,
+    review_date timestamp with time zone,
+    headline text,
+    rating_text text,
+    status text,
+    similarity real
+) AS $$
+    SELECT
+        cr.id,
+        cr.review_url,
+        cr.claim_text,
+        cr.claimant,
+        cr.publisher_name,
+        cr.publisher_url,
+        cr.review_date,
+        cr.headline,
+        cr.rating_text,
+        cr.status,
+        extensions.similarity(cr.claim_normalized, p_claim) AS similarity
+    FROM public.claim_reviews cr
+    -- `%` lets the trigram index prefilter at pg_trgm's 0.3 default threshold
+    WHERE cr.claim_normalized OPERATOR(extensions.%) p_claim
+      AND extensions.similarity(cr.claim_normalized, p_claim) >= p_min_similarity
+    ORDER BY similarity DESC, cr.review_date DESC NULLS LAST
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
@@ -0,0 +1,28 @@
+-- Semantic near-duplicate lookup: each verdict stores an embedding of its
+-- input, so a reworded message can reuse the verdict of an earlier one
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE public.fact_checks
+    ADD COLUMN embedding extensions.vector(384),
+    ADD COLUMN embedding_model text; -- vectors are only comparable within one model
+
+CREATE INDEX idx_fact_checks_embedding ON public.fact_checks
+    USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Closest unexpired verdicts to an embedding from the same model, by cosine
+-- similarity
+CREATE OR REPLACE FUNCTION public.match_similar_checks(
+    p_embedding extensions.vector(384),
+    p_model text,
+    p_min_similarity double precision DEFAULT 0.9,
+    p_limit integer DEFAULT 1
+)
+RETURNS TABLE (id uuid, input_text text, similarity double precision) AS $$
+    SELECT fc.id, fc.input_text, 1 - (fc.embedding <=> p_embedding) AS similarity
+    FROM public.fact_checks fc
+    WHERE fc.embedding_model = p_model
+      AND (fc.expires_at IS NULL OR fc.expires_at > now())
+      AND 1 - (fc.embedding <=> p_embedding) >= p_min_similarity
+    ORDER BY fc.embedding <=> p_embedding
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
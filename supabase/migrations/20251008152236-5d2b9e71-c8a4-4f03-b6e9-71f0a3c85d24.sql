@@ -0,0 +1,136 @@
+-- Viral narratives: related checks grouped by the clustering job
+-- (cluster-narratives function), with their spread and verdicts
+CREATE TABLE public.narratives (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    canonical_check_id uuid REFERENCES public.fact_checks(id) ON DELETE SET NULL,
+    canonical_claim text NOT NULL, -- input of the most submitted member
+    centroid extensions.vector(384) NOT NULL,
+    embedding_model text NOT NULL,
+    member_count integer DEFAULT 0 NOT NULL,
+    submission_count integer DEFAULT 0 NOT NULL,
+    verdict_counts jsonb DEFAULT '{"real": 0, "fake": 0, "uncertain": 0}'::jsonb NOT NULL,
+    status text DEFAULT 'uncertain' NOT NULL CHECK (status IN ('real', 'fake', 'uncertain')), -- most common verdict
+    first_seen_at timestamp with time zone NOT NULL,
+    last_seen_at timestamp with time zone NOT NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX idx_narratives_last_seen ON public.narratives(last_seen_at DESC);
+
+ALTER TABLE public.narratives ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to all users" ON public.narratives
+    FOR SELECT USING (true);
+
+CREATE TRIGGER update_narratives_updated_at
+    BEFORE UPDATE ON public.narratives
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.fact_checks
+    ADD COLUMN narrative_id uuid REFERENCES public.narratives(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_fact_checks_narrative_id ON public.fact_checks(narrative_id);
+
+-- Every request for a check, cache hits included, so spread can be measured
+-- over time. Only the service role writes it.
+CREATE TABLE public.check_submissions (
+    id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    fact_check_id uuid NOT NULL REFERENCES public.fact_checks(id) ON DELETE CASCADE,
+    submitted_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_check_submissions_check_submitted ON public.check_submissions(fact_check_id, submitted_at DESC);
+CREATE INDEX idx_check_submissions_submitted ON public.check_submissions(submitted_at DESC);
+
+ALTER TABLE public.check_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Recompute counts, verdict distribution, first/last seen and canonical
+-- claim from the members of the given narratives (all when null). A reviewer
+-- override counts instead of the model verdict.
+CREATE OR REPLACE FUNCTION public.refresh_narrative_stats(p_narrative_ids uuid[] DEFAULT NULL)
+RETURNS void AS $$
+    WITH members AS (
+        SELECT
+            fc.narrative_id,
+            fc.id,
+            fc.input_text,
+            fc.created_at,
+            coalesce(vo.status, fc.status) AS verdict,
+            -- Checks stored before submissions were logged count once
+            greatest(count(cs.id), 1) AS submissions,
+            max(cs.submitted_at) AS last_submitted_at
+        FROM public.fact_checks fc
+        LEFT JOIN public.verdict_overrides vo ON vo.fact_check_id = fc.id
+        LEFT JOIN public.check_submissions cs ON cs.fact_check_id = fc.id
+        WHERE fc.narrative_id IS NOT NULL
+          AND (p_narrative_ids IS NULL OR fc.narrative_id = ANY(p_narrative_ids))
+        GROUP BY fc.id, vo.status
+    ),
+    stats AS (
+        SELECT
+            narrative_id,
+            count(*) AS member_count,
+            sum(submissions) AS submission_count,
+            jsonb_build_object(
+                'real', count(*) FILTER (WHERE verdict = 'real'),
+                'fake', count(*) FILTER (WHERE verdict = 'fake'),
+                'uncertain', count(*) FILTER (WHERE verdict = 'uncertain')
+            ) AS verdict_counts,
+            mode() WITHIN GROUP (ORDER BY verdict) AS status,
+            min(created_at) AS first_seen_at,
+            greatest(max(created_at), max(last_submitted_at)) AS last_seen_at,
+            (array_agg(id ORDER BY submissions DESC, created_at))[1] AS canonical_check_id,
+            (array_agg(input_text ORDER BY submissions DESC, created_at))[1] AS canonical_claim
+        FROM members
+        GROUP BY narrative_id
+    )
+    UPDATE public.narratives n SET
+        member_count = s.member_count,
+        submission_count = s.submission_count,
+        verdict_counts = s.verdict_counts,
+        status = s.status,
+        first_seen_at = s.first_seen_at,
+        last_seen_at = s.last_seen_at,
+        canonical_check_id = s.canonical_check_id,
+        canonical_claim = s.canonical_claim
+    FROM stats s
+    WHERE n.id = s.narrative_id;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_narrative_stats(uuid[]) FROM PUBLIC, anon, authenticated;
+
+-- Narratives by submissions since a point in time, for the trending page.
+-- Security definer: submissions are only exposed as counts.
+CREATE OR REPLACE FUNCTION public.trending_narratives(p_since timestamp with time zone, p_status text DEFAULT NULL, p_limit integer DEFAULT 20)
+RETURNS TABLE (
+    id uuid,
+    canonical_claim text,
+    canonical_check_id uuid,
+    status text,
+    verdict_counts jsonb,
+    member_count integer,
+    submission_count integer,
+    first_seen_at timestamp with time zone,
+    last_seen_at timestamp with time zone,
+    recent_submissions bigint
+) AS $$
+    SELECT
+        n.id,
+        n.canonical_claim,
+        n.canonical_check_id,
+        n.status,
+        n.verdict_counts,
+        n.member_count,
+        n.submission_count,
+        n.first_seen_at,
+        n.last_seen_at,
+        count(cs.id) AS recent_submissions
+    FROM public.narratives n
+    JOIN public.fact_checks fc ON fc.narrative_id = n.id
+    JOIN public.check_submissions cs ON cs.fact_check_id = fc.id AND cs.submitted_at >= p_since
+    WHERE p_status IS NULL OR n.status = p_status
+    GROUP BY n.id
+    ORDER BY recent_submissions DESC, n.last_seen_at DESC
+    LIMIT least(greatest(p_limit, 1), 100);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
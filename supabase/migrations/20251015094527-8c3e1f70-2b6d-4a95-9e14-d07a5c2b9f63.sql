@@ -0,0 +1,118 @@
+-- Whether a request was answered from a stored check, for the cache hit
+-- ratio on the statistics page
+ALTER TABLE public.check_submissions
+    ADD COLUMN cached boolean DEFAULT false NOT NULL;
+
+-- Per-day series for the statistics page, over the last p_days days
+-- (Brasília time): new checks with their verdicts (a reviewer override
+-- counts instead of the model verdict) and model fallbacks, plus requests
+-- and cache hits. Security definer: submissions are only exposed as counts.
+CREATE OR REPLACE FUNCTION public.daily_check_stats(p_days integer DEFAULT 30)
+RETURNS TABLE (
+    day date,
+    checks bigint,
+    real_count bigint,
+    fake_count bigint,
+    uncertain_count bigint,
+    fallbacks bigint,
+    submissions bigint,
+    cache_hits bigint
+) AS $$
+    WITH days AS (
+        SELECT generate_series(
+            (now() AT TIME ZONE 'America/Sao_Paulo')::date - (least(greatest(p_days, 1), 365) - 1),
+            (now() AT TIME ZONE 'America/Sao_Paulo')::date,
+            interval '1 day'
+        )::date AS day
+    ),
+    since AS (
+        SELECT min(day)::timestamp AT TIME ZONE 'America/Sao_Paulo' AS since FROM days
+    ),
+    daily_checks AS (
+        SELECT
+            (fc.created_at AT TIME ZONE 'America/Sao_Paulo')::date AS day,
+            count(*) AS checks,
+            count(*) FILTER (WHERE coalesce(vo.status, fc.status) = 'real') AS real_count,
+            count(*) FILTER (WHERE coalesce(vo.status, fc.status) = 'fake') AS fake_count,
+            count(*) FILTER (WHERE coalesce(vo.status, fc.status) = 'uncertain') AS uncertain_count,
+            count(*) FILTER (WHERE fc.search_results->>'fallback' = 'true') AS fallbacks
+        FROM public.fact_checks fc
+        LEFT JOIN public.verdict_overrides vo ON vo.fact_check_id = fc.id
+        WHERE fc.created_at >= (SELECT since FROM since)
+        GROUP BY 1
+    ),
+    daily_submissions AS (
+        SELECT
+            (submitted_at AT TIME ZONE 'America/Sao_Paulo')::date AS day,
+            count(*) AS submissions,
+            count(*) FILTER (WHERE cached) AS cache_hits
+        FROM public.check_submissions
+        WHERE submitted_at >= (SELECT since FROM since)
+        GROUP BY 1
+    )
+    SELECT
+        d.day,
+        coalesce(c.checks, 0),
+        coalesce(c.real_count, 0),
+        coalesce(c.fake_count, 0),
+        coalesce(c.uncertain_count, 0),
+        coalesce(c.fallbacks, 0),
+        coalesce(s.submissions, 0),
+        coalesce(s.cache_hits, 0)
+    FROM days d
+    LEFT JOIN daily_checks c ON c.day = d.day
+    LEFT JOIN daily_submissions s ON s.day = d.day
+    ORDER BY d.day;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Average model confidence per model verdict for checks created in the last
+-- p_days days. Overrides are left out: this measures the model.
+CREATE OR REPLACE FUNCTION public.confidence_by_status(p_days integer DEFAULT 30)
+RETURNS TABLE (
+    status text,
+    checks bigint,
+    avg_confidence numeric
+) AS $$
+    SELECT
+        fc.status,
+        count(*) AS checks,
+        round(avg(fc.confidence), 1) AS avg_confidence
+    FROM public.fact_checks fc
+    WHERE fc.created_at >= now() - make_interval(days => least(greatest(p_days, 1), 365))
+    GROUP BY fc.status
+    ORDER BY fc.status;
+$$ LANGUAGE sql STABLE;
+
+-- Domains most cited as sources by checks created in the last p_days days,
+-- with their entry in the source registry when there is an exact match
+CREATE OR REPLACE FUNCTION public.top_source_domains(p_days integer DEFAULT 30, p_limit integer DEFAULT 10)
+RETURNS TABLE (
+    domain text,
+    citations bigint,
+    checks bigint,
+    name text,
+    tier text
+) AS $$
+    WITH cited AS (
+        SELECT
+            fc.id AS fact_check_id,
+            lower(substring(source->>'url' from '^https?://(?:www\.)?([^/:?#]+)')) AS domain
+        FROM public.fact_checks fc
+        CROSS JOIN LATERAL jsonb_array_elements(
+            CASE WHEN jsonb_typeof(fc.sources) = 'array' THEN fc.sources ELSE '[]'::jsonb END
+        ) AS source
+        WHERE fc.created_at >= now() - make_interval(days => least(greatest(p_days, 1), 365))
+    )
+    SELECT
+        c.domain,
+        count(*) AS citations,
+        count(DISTINCT c.fact_check_id) AS checks,
+        sd.name,
+        sd.tier
+    FROM cited c
+    LEFT JOIN public.source_domains sd ON sd.domain = c.domain
+    WHERE c.domain IS NOT NULL
+    GROUP BY c.domain, sd.name, sd.tier
+    ORDER BY citations DESC, c.domain
+    LIMIT least(greatest(p_limit, 1), 50);
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,22 @@
+-- Fitted confidence calibrations (calibrate-confidence function). The
+-- latest row is applied to new verdicts; older ones stay for comparison.
+CREATE TABLE public.confidence_calibrations (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    method text NOT NULL CHECK (method IN ('isotonic', 'platt')),
+    curves jsonb NOT NULL, -- per verdict status, plus 'all'
+    sample_count integer NOT NULL,
+    brier_raw numeric NOT NULL,
+    brier_calibrated numeric NOT NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX idx_confidence_calibrations_created ON public.confidence_calibrations(created_at DESC);
+
+-- Only the service role reads and writes calibrations
+ALTER TABLE public.confidence_calibrations ENABLE ROW LEVEL SECURITY;
+
+-- confidence holds the calibrated value when a calibration was applied;
+-- raw_confidence is always what the pipeline produced
+ALTER TABLE public.fact_checks
+    ADD COLUMN raw_confidence integer CHECK (raw_confidence >= 0 AND raw_confidence <= 100),
+    ADD COLUMN calibration_id uuid REFERENCES public.confidence_calibrations(id) ON DELETE SET NULL;
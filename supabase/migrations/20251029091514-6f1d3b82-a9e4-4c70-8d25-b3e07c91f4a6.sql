@@ -0,0 +1,4 @@
+-- Last time the clustering job failed to embed a check; it skips the check
+-- for a while instead of retrying it on every run
+ALTER TABLE public.fact_checks
+    ADD COLUMN embedding_failed_at timestamp with time zone;
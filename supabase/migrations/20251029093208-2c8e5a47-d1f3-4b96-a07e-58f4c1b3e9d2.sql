@@ -0,0 +1,25 @@
+-- Near-duplicate matches must stay within what an exact cache hit would
+-- accept: same key version, provider/model, search backend and prompt
+-- version. Verdicts stored before the scope was recorded are not matched.
+ALTER TABLE public.fact_checks
+    ADD COLUMN cache_scope text;
+
+DROP FUNCTION IF EXISTS public.match_similar_checks(extensions.vector, text, double precision, integer);
+
+CREATE OR REPLACE FUNCTION public.match_similar_checks(
+    p_embedding extensions.vector(384),
+    p_model text,
+    p_scope text,
+    p_min_similarity double precision DEFAULT 0.9,
+    p_limit integer DEFAULT 1
+)
+RETURNS TABLE (id uuid, input_text text, similarity double precision) AS $$
+    SELECT fc.id, fc.input_text, 1 - (fc.embedding <=> p_embedding) AS similarity
+    FROM public.fact_checks fc
+    WHERE fc.embedding_model = p_model
+      AND fc.cache_scope = p_scope
+      AND (fc.expires_at IS NULL OR fc.expires_at > now())
+      AND 1 - (fc.embedding <=> p_embedding) >= p_min_similarity
+    ORDER BY fc.embedding <=> p_embedding
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
@@ -0,0 +1,15 @@
+-- When a verdict was produced. updated_at also moves when metadata is
+-- written (dispute flags, embeddings, narrative assignment), so it cannot
+-- tell users how old a verdict is. Only saveCheck writes this column.
+ALTER TABLE public.fact_checks
+    ADD COLUMN verified_at timestamp with time zone;
+
+-- Best estimate for existing rows; the trigger is paused so the backfill
+-- itself does not move updated_at
+ALTER TABLE public.fact_checks DISABLE TRIGGER update_fact_checks_updated_at;
+UPDATE public.fact_checks SET verified_at = updated_at;
+ALTER TABLE public.fact_checks ENABLE TRIGGER update_fact_checks_updated_at;
+
+ALTER TABLE public.fact_checks
+    ALTER COLUMN verified_at SET DEFAULT timezone('utc'::text, now()),
+    ALTER COLUMN verified_at SET NOT NULL;
@@ -0,0 +1,7 @@
+-- Which reviewed checks a calibration was fitted on. Fits made before this
+-- column existed also used disputed checks.
+ALTER TABLE public.confidence_calibrations
+    ADD COLUMN sampling text DEFAULT 'reviewed_all' NOT NULL;
+
+ALTER TABLE public.confidence_calibrations
+    ALTER COLUMN sampling DROP DEFAULT;
@@ -0,0 +1,22 @@
+-- The view runs with its owner's rights, so the grant alone let any
+-- signed-in user (anyone, since magic link sign-in) read the queue and its
+-- feedback counts. Rows are now only returned to reviewers.
+CREATE OR REPLACE VIEW public.review_queue AS
+SELECT
+    fc.id,
+    fc.input_text,
+    fc.status,
+    fc.confidence,
+    fc.topic,
+    fc.flagged_at,
+    fc.flag_reason,
+    fc.created_at,
+    coalesce(fs.upvotes, 0) AS upvotes,
+    coalesce(fs.downvotes, 0) AS downvotes,
+    coalesce(fs.counter_sources, 0) AS counter_sources
+FROM public.fact_checks fc
+LEFT JOIN public.verdict_overrides vo ON vo.fact_check_id = fc.id
+LEFT JOIN public.verdict_feedback_summary fs ON fs.fact_check_id = fc.id
+WHERE public.is_reviewer()
+  AND vo.id IS NULL
+  AND (fc.flagged_at IS NOT NULL OR fc.confidence < 70);
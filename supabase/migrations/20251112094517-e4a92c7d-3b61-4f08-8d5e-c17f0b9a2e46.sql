@@ -0,0 +1,55 @@
+-- The model verdict a review was made against. Calibration compares the
+-- reviewer's status with it, and fact_checks may since have been
+-- refreshed with a different status and confidence.
+ALTER TABLE public.verdict_overrides
+    ADD COLUMN model_status text,
+    ADD COLUMN model_raw_confidence integer;
+
+-- Copied from the check when the review is saved, so reviewers cannot
+-- misstate it
+CREATE OR REPLACE FUNCTION public.capture_reviewed_verdict()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT fc.status, coalesce(fc.raw_confidence, fc.confidence)
+    INTO NEW.model_status, NEW.model_raw_confidence
+    FROM public.fact_checks fc
+    WHERE fc.id = NEW.fact_check_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER capture_verdict_overrides_reviewed_verdict
+    BEFORE INSERT OR UPDATE ON public.verdict_overrides
+    FOR EACH ROW EXECUTE FUNCTION public.capture_reviewed_verdict();
+
+-- Existing reviews, where the check has not changed since; the rest stay
+-- null and are left out of calibration
+UPDATE public.verdict_overrides vo
+SET model_status = fc.status,
+    model_raw_confidence = coalesce(fc.raw_confidence, fc.confidence)
+FROM public.fact_checks fc
+WHERE fc.id = vo.fact_check_id
+  AND fc.updated_at <= vo.updated_at;
+
+-- Calibrated confidence is stored in fact_checks.confidence, so queueing
+-- on it would let the curve decide which checks get reviewed and fitted
+-- next. Queue on the model's own confidence instead.
+CREATE OR REPLACE VIEW public.review_queue AS
+SELECT
+    fc.id,
+    fc.input_text,
+    fc.status,
+    fc.confidence,
+    fc.topic,
+    fc.flagged_at,
+    fc.flag_reason,
+    fc.created_at,
+    coalesce(fs.upvotes, 0) AS upvotes,
+    coalesce(fs.downvotes, 0) AS downvotes,
+    coalesce(fs.counter_sources, 0) AS counter_sources
+FROM public.fact_checks fc
+LEFT JOIN public.verdict_overrides vo ON vo.fact_check_id = fc.id
+LEFT JOIN public.verdict_feedback_summary fs ON fs.fact_check_id = fc.id
+WHERE public.is_reviewer()
+  AND vo.id IS NULL
+  AND (fc.flagged_at IS NOT NULL OR coalesce(fc.raw_confidence, fc.confidence) < 70);